@@ -0,0 +1,94 @@
+import consola from "consola"
+
+import type { RateLimitRequest } from "./rate-limit"
+
+import { runInBackground } from "./request-queue"
+import { state } from "./state"
+import { runWithConcurrency } from "./utils"
+
+// Batch jobs share client-scoped rate limits under this ID
+const BATCH_CLIENT = "batch"
+
+interface BatchJobsOptions<T> {
+  // How batches are named in logs, e.g. "message batch"
+  label: string
+  load: () => Promise<Array<T>>
+  isEnded: (batch: T) => boolean
+  process: (batch: T) => Promise<void>
+}
+
+export interface BatchJobs<T extends { id: string }> {
+  // Loads persisted batches and resumes the ones that had not ended when
+  // the daemon last stopped
+  init: () => Promise<void>
+  // Stops picking up new batch requests; unfinished ones resume on next start
+  stop: () => void
+  // Tracks a newly created batch and starts processing it
+  submit: (batch: T) => void
+  get: (id: string) => T | undefined
+  all: () => Array<T>
+  // Runs a batch's pending requests `state.batchConcurrency` at a time.
+  // Resolves to false when stopped part way, leaving the batch to resume
+  runRequests: <R>(
+    requests: Array<R>,
+    run: (request: R) => Promise<void>,
+  ) => Promise<boolean>
+}
+
+/**
+ * Keeps the batches of one batch API in memory and processes them in the
+ * background, shared by the OpenAI and Anthropic batch endpoints. Each API
+ * persists its batches and decides what a request and a result are.
+ */
+export function createBatchJobs<T extends { id: string }>(
+  options: BatchJobsOptions<T>,
+): BatchJobs<T> {
+  const batches = new Map<string, T>()
+  let stopping = false
+
+  const schedule = (batch: T) => {
+    options.process(batch).catch((error: unknown) => {
+      consola.error(`Failed to process ${options.label} ${batch.id}:`, error)
+    })
+  }
+
+  return {
+    async init() {
+      stopping = false
+      batches.clear()
+      for (const batch of await options.load()) {
+        batches.set(batch.id, batch)
+        if (!options.isEnded(batch)) {
+          consola.info(`Resuming ${options.label} ${batch.id}`)
+          schedule(batch)
+        }
+      }
+    },
+    stop() {
+      stopping = true
+    },
+    submit(batch) {
+      batches.set(batch.id, batch)
+      schedule(batch)
+    },
+    get: (id) => batches.get(id),
+    all: () => [...batches.values()],
+    async runRequests(requests, run) {
+      await runWithConcurrency(requests, state.batchConcurrency, (request) =>
+        stopping ? Promise.resolve() : run(request),
+      )
+      return !stopping
+    },
+  }
+}
+
+/**
+ * Runs a batch request's upstream call as a background job, rate limited
+ * alongside every other batch request.
+ */
+export function runBatchJob<R>(
+  request: Omit<RateLimitRequest, "client">,
+  run: () => Promise<R>,
+): Promise<R> {
+  return runInBackground({ ...request, client: BATCH_CLIENT }, run)
+}
@@ -0,0 +1,83 @@
+import consola from "consola"
+import fs from "node:fs/promises"
+
+import {
+  compileModelAliases,
+  setModelAliases,
+  type ModelAliasRule,
+} from "./model-aliases"
+import {
+  compileModelFallbacks,
+  setModelFallbacks,
+  type ModelFallbackConfig,
+} from "./model-fallbacks"
+import { PATHS } from "./paths"
+import {
+  compileRateLimits,
+  setRateLimits,
+  type RateLimitRule,
+} from "./rate-limit"
+import {
+  compileRequestQueue,
+  setRequestQueue,
+  type RequestQueueConfig,
+} from "./request-queue"
+import { compileRetryPolicy, setRetryPolicy, type RetryConfig } from "./retry"
+import { state } from "./state"
+
+// Optional JSON file for settings that are too structured for flags. It is
+// read on startup and again on `POST /admin/reload-config`; a missing file
+// is the same as an empty one.
+
+export interface ProxyConfig {
+  model_aliases?: Array<ModelAliasRule>
+  model_fallbacks?: ModelFallbackConfig
+  retry?: RetryConfig
+  rate_limits?: Array<RateLimitRule>
+  queue?: RequestQueueConfig
+}
+
+/**
+ * Reads and applies the config file. Every section is compiled before any is
+ * applied, so when the file can't be parsed or one section is invalid this
+ * throws and all previous settings stay in place.
+ */
+export async function loadConfig(): Promise<ProxyConfig> {
+  const filePath = state.configPath ?? PATHS.CONFIG_PATH
+  const next = await readConfigFile(filePath)
+  if (next.model_aliases !== undefined && !Array.isArray(next.model_aliases)) {
+    throw new TypeError("model_aliases must be an array")
+  }
+
+  const aliases = compileModelAliases(next.model_aliases ?? [])
+  const fallbacks = compileModelFallbacks(next.model_fallbacks)
+  const retryPolicy = compileRetryPolicy(next.retry)
+  const rateLimits = compileRateLimits(next.rate_limits)
+  const requestQueue = compileRequestQueue(next.queue)
+  setModelAliases(aliases)
+  setModelFallbacks(fallbacks)
+  setRetryPolicy(retryPolicy)
+  setRateLimits(rateLimits)
+  setRequestQueue(requestQueue)
+  consola.debug(
+    `Loaded config from ${filePath}: ${next.model_aliases?.length ?? 0} model aliases`,
+  )
+  return next
+}
+
+async function readConfigFile(filePath: string): Promise<ProxyConfig> {
+  let content: string
+  try {
+    content = await fs.readFile(filePath, "utf8")
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {}
+    throw error
+  }
+  if (content.trim() === "") return {}
+
+  const parsed = JSON.parse(content) as unknown
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new TypeError(`${filePath} must contain a JSON object`)
+  }
+  return parsed as ProxyConfig
+}
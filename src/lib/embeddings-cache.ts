@@ -0,0 +1,178 @@
+import consola from "consola"
+import { createHash, randomUUID } from "node:crypto"
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import { PATHS } from "./paths"
+import { state } from "./state"
+
+// Content-addressed store for embedding vectors. Each vector is one file of
+// raw float64 bytes, so a hit returns exactly what Copilot sent, named by the
+// hash of its model, dimensions and input text, sharded by the first two hex
+// digits. Recency is kept in memory, in Map insertion order, and persisted
+// through file mtimes so the LRU order survives restarts.
+
+export interface EmbeddingsCacheStats {
+  enabled: boolean
+  entries: number
+  bytes: number
+  max_bytes: number
+  hits: number
+  misses: number
+}
+
+// Hash -> size in bytes, least recently used first
+const entries = new Map<string, number>()
+let totalBytes = 0
+let hits = 0
+let misses = 0
+let enabled = false
+
+// Part of every key, so entries in an older layout (float32 before this)
+// are never read and age out of the LRU instead
+const FORMAT = "f64"
+
+const entryPath = (key: string) =>
+  path.join(PATHS.EMBEDDINGS_CACHE_DIR, key.slice(0, 2), key)
+
+export function embeddingsCacheKey(
+  model: string,
+  dimensions: number | null | undefined,
+  input: string,
+): string {
+  return createHash("sha256")
+    .update(JSON.stringify([FORMAT, model, dimensions ?? null, input]))
+    .digest("hex")
+}
+
+/**
+ * Loads the index of cached vectors when `state.embeddingsCacheBytes` is set.
+ * Called once on startup.
+ */
+export async function initEmbeddingsCache(): Promise<void> {
+  entries.clear()
+  totalBytes = 0
+  enabled = state.embeddingsCacheBytes > 0
+  if (!enabled) return
+
+  const found: Array<{ key: string; size: number; usedAt: number }> = []
+  const shards = await fs
+    .readdir(PATHS.EMBEDDINGS_CACHE_DIR)
+    .catch(() => [] as Array<string>)
+  for (const shard of shards) {
+    const dir = path.join(PATHS.EMBEDDINGS_CACHE_DIR, shard)
+    const files = await fs.readdir(dir).catch(() => [] as Array<string>)
+    for (const key of files) {
+      if (key.endsWith(".tmp")) continue
+      const stat = await fs.stat(path.join(dir, key))
+      found.push({ key, size: stat.size, usedAt: stat.mtimeMs })
+    }
+  }
+
+  for (const entry of found.toSorted((a, b) => a.usedAt - b.usedAt)) {
+    entries.set(entry.key, entry.size)
+    totalBytes += entry.size
+  }
+  await evict()
+  consola.info(
+    `Embeddings cache: ${entries.size} entries, ${(totalBytes / 1024 / 1024).toFixed(1)} MB`,
+  )
+}
+
+export function isEmbeddingsCacheEnabled(): boolean {
+  return enabled
+}
+
+/**
+ * Looks up vectors by key, returning undefined for each miss. A vector whose
+ * file has gone missing is treated as a miss.
+ */
+export async function getCachedEmbeddings(
+  keys: Array<string>,
+): Promise<Array<Array<number> | undefined>> {
+  const results = await Promise.all(keys.map((key) => readEntry(key)))
+  for (const result of results) {
+    if (result) hits++
+    else misses++
+  }
+  return results
+}
+
+async function readEntry(key: string): Promise<Array<number> | undefined> {
+  const size = entries.get(key)
+  if (size === undefined) return undefined
+
+  try {
+    const bytes = await fs.readFile(entryPath(key))
+    // Move to the most recently used end
+    entries.delete(key)
+    entries.set(key, size)
+    const now = new Date()
+    await fs.utimes(entryPath(key), now, now)
+    // Copied out, as a Buffer's offset need not be 8-byte aligned
+    return [...new Float64Array(new Uint8Array(bytes).buffer, 0, size / 8)]
+  } catch {
+    forget(key)
+    return undefined
+  }
+}
+
+/**
+ * Writes vectors that aren't cached yet. Each goes to its own temp file and
+ * is renamed into place, so concurrent misses on the same key can't corrupt
+ * it, and is counted towards the size cap as soon as it is on disk.
+ */
+export async function cacheEmbeddings(
+  items: Array<{ key: string; embedding: Array<number> }>,
+): Promise<void> {
+  try {
+    for (const { key, embedding } of items) {
+      if (entries.has(key)) continue
+      const bytes = Buffer.from(new Float64Array(embedding).buffer)
+      const filePath = entryPath(key)
+      const tmpPath = `${filePath}.${randomUUID()}.tmp`
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      try {
+        await fs.writeFile(tmpPath, bytes)
+        await fs.rename(tmpPath, filePath)
+      } catch (error) {
+        await fs.rm(tmpPath, { force: true })
+        throw error
+      }
+      forget(key)
+      entries.set(key, bytes.byteLength)
+      totalBytes += bytes.byteLength
+    }
+  } finally {
+    await evict()
+  }
+}
+
+// Drops least recently used entries until the cache fits its size cap
+async function evict(): Promise<void> {
+  const victims: Array<string> = []
+  for (const key of entries.keys()) {
+    if (totalBytes <= state.embeddingsCacheBytes) break
+    victims.push(key)
+    forget(key)
+  }
+  for (const key of victims) {
+    await fs.rm(entryPath(key), { force: true })
+  }
+}
+
+function forget(key: string): void {
+  totalBytes -= entries.get(key) ?? 0
+  entries.delete(key)
+}
+
+export function getEmbeddingsCacheStats(): EmbeddingsCacheStats {
+  return {
+    enabled,
+    entries: entries.size,
+    bytes: totalBytes,
+    max_bytes: state.embeddingsCacheBytes,
+    hits,
+    misses,
+  }
+}
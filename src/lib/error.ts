@@ -24,6 +24,9 @@ export async function forwardError(c: Context, error: unknown) {
       errorJson = errorText
     }
     consola.error("HTTP error:", errorJson)
+    // Tells the client when to try again, for local and upstream limits alike
+    const retryAfter = error.response.headers.get("retry-after")
+    if (retryAfter) c.header("retry-after", retryAfter)
     return c.json(
       {
         error: {
@@ -0,0 +1,97 @@
+import { randomUUID } from "node:crypto"
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import { readJsonFile, writeJsonFile } from "./json-files"
+import { PATHS } from "./paths"
+
+// Local stand-in for the OpenAI Files API. Every file is stored as two
+// entries in PATHS.FILES_DIR: `<id>` holds the raw bytes and `<id>.json`
+// holds the file object.
+
+export interface FileObject {
+  id: string
+  object: "file"
+  bytes: number
+  created_at: number
+  filename: string
+  purpose: string
+  status: "processed"
+  status_details: null
+}
+
+// Ids end up in file paths, so anything but our own format is rejected
+const FILE_ID_PATTERN = /^file-[\da-f]{32}$/
+
+const contentPath = (id: string) => path.join(PATHS.FILES_DIR, id)
+const metadataPath = (id: string) => path.join(PATHS.FILES_DIR, `${id}.json`)
+
+export async function createFile(options: {
+  filename: string
+  purpose: string
+  content: Uint8Array | string
+}): Promise<FileObject> {
+  const content =
+    typeof options.content === "string" ?
+      Buffer.from(options.content)
+    : options.content
+
+  const file: FileObject = {
+    id: `file-${randomUUID().replaceAll("-", "")}`,
+    object: "file",
+    bytes: content.byteLength,
+    created_at: Math.floor(Date.now() / 1000),
+    filename: options.filename,
+    purpose: options.purpose,
+    status: "processed",
+    status_details: null,
+  }
+
+  await fs.writeFile(contentPath(file.id), content)
+  // The metadata is written last so a half-written file is never listed
+  await writeJsonFile(metadataPath(file.id), file)
+  return file
+}
+
+export async function getFile(id: string): Promise<FileObject | undefined> {
+  if (!FILE_ID_PATTERN.test(id)) return undefined
+  try {
+    return await readJsonFile<FileObject>(metadataPath(id))
+  } catch {
+    return undefined
+  }
+}
+
+// Newest first, like the OpenAI API
+export async function listFiles(): Promise<Array<FileObject>> {
+  let entries: Array<string>
+  try {
+    entries = await fs.readdir(PATHS.FILES_DIR)
+  } catch {
+    return []
+  }
+
+  const files: Array<FileObject> = []
+  for (const entry of entries) {
+    if (!entry.endsWith(".json")) continue
+    const file = await getFile(entry.slice(0, -".json".length))
+    if (file) files.push(file)
+  }
+  return files.sort((a, b) => b.created_at - a.created_at)
+}
+
+export async function readFileContent(id: string): Promise<Buffer | undefined> {
+  if (!(await getFile(id))) return undefined
+  try {
+    return await fs.readFile(contentPath(id))
+  } catch {
+    return undefined
+  }
+}
+
+export async function deleteFile(id: string): Promise<boolean> {
+  if (!(await getFile(id))) return false
+  await fs.rm(metadataPath(id), { force: true })
+  await fs.rm(contentPath(id), { force: true })
+  return true
+}
@@ -0,0 +1,44 @@
+import fs from "node:fs/promises"
+
+export const toJsonl = (items: Array<unknown>) =>
+  items.map((item) => `${JSON.stringify(item)}\n`).join("")
+
+// A crash mid-append can leave a truncated last line; skip anything unparsable
+// so the entry it belonged to is simply treated as missing
+export const parseJsonl = <T>(content: string): Array<T> =>
+  content.split("\n").flatMap((line) => {
+    if (line.trim().length === 0) return []
+    try {
+      return [JSON.parse(line) as T]
+    } catch {
+      return []
+    }
+  })
+
+// Writes to the same path are chained so an older snapshot can never
+// overwrite a newer one
+const pendingWrites = new Map<string, Promise<void>>()
+
+/**
+ * Atomically replaces a JSON file by writing a temporary file next to it and
+ * renaming it into place.
+ */
+export function writeJsonFile(filePath: string, value: unknown): Promise<void> {
+  const snapshot = JSON.stringify(value, null, 2)
+  const previous = pendingWrites.get(filePath) ?? Promise.resolve()
+  const write = previous.then(async () => {
+    const tmpPath = `${filePath}.tmp`
+    await fs.writeFile(tmpPath, snapshot)
+    await fs.rename(tmpPath, filePath)
+  })
+  pendingWrites.set(
+    filePath,
+    write.catch(() => {}),
+  )
+  return write
+}
+
+export async function readJsonFile<T>(filePath: string): Promise<T> {
+  // @ts-expect-error JSON.parse() can actually parse buffers
+  return JSON.parse(await fs.readFile(filePath)) as T
+}
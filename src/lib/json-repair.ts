@@ -0,0 +1,173 @@
+// Bounds the work spent trimming a badly truncated value
+const MAX_REPAIR_ATTEMPTS = 50
+
+/** Where a scan of JSON text has got to, so it can carry on as it grows. */
+export interface JsonScan {
+  // How much of the text has been scanned
+  scanned: number
+  // Closers still owed, outermost first
+  stack: Array<string>
+  inString: boolean
+  escaped: boolean
+  // Index just past the top-level value, once it has closed
+  end?: number
+  // A comma outside strings with nothing but whitespace after it so far
+  trailingComma?: number
+  // Places the text can be cut back to, with the closers owed there
+  cuts: Array<{ index: number; closers: string }>
+}
+
+/**
+ * Parses JSON written by a model, repairing the usual ways it goes wrong:
+ * an empty string is `{}`, code fences and text around the value are
+ * dropped, and a value cut off mid-way is closed, trimming back to the last
+ * complete member when needed. Throws a `SyntaxError` when nothing usable
+ * can be recovered.
+ */
+export function parseJsonLenient(text: string): unknown {
+  const trimmed = stripCodeFence(text.trim())
+  if (trimmed === "") {
+    return {}
+  }
+
+  try {
+    return JSON.parse(trimmed) as unknown
+  } catch (error) {
+    const repaired = repairJson(trimmed)
+    if (repaired === undefined) throw error
+    return repaired
+  }
+}
+
+function stripCodeFence(text: string): string {
+  if (!text.startsWith("```")) return text
+  const newline = text.indexOf("\n")
+  const inner = newline === -1 ? "" : text.slice(newline + 1)
+  return (inner.endsWith("```") ? inner.slice(0, -3) : inner).trim()
+}
+
+/**
+ * How much of a streamed JSON value can go out before the rest arrives: up
+ * to the end of the value once it closes, so text after it is never sent,
+ * and short of a trailing comma, where a value cut off there couldn't be
+ * closed by appending.
+ */
+export function sendableLength(scan: JsonScan): number {
+  return scan.end ?? scan.trailingComma ?? scan.scanned
+}
+
+/**
+ * What appended to `text` closes a value cut off part way through, given
+ * the scan of it. Empty once the value is complete.
+ */
+export function closingSuffix(scan: JsonScan, text: string): string {
+  let suffix = ""
+  if (scan.inString) {
+    suffix = scan.escaped ? String.raw`\"` : '"'
+  } else if (text.trimEnd().endsWith(":")) {
+    suffix = "null"
+  }
+  return suffix + closersOf(scan.stack)
+}
+
+function repairJson(text: string): unknown {
+  const start = text.search(/[[{]/)
+  if (start === -1) return undefined
+  const body = text.slice(start)
+  const scan = scanJson(startJsonScan(), body)
+
+  // Trailing text after a complete value
+  if (scan.end !== undefined) {
+    return tryParse(body.slice(0, scan.end))
+  }
+
+  const closed = closeTruncated(body, scan)
+  const attempts = [
+    closed,
+    ...scan.cuts
+      .toReversed()
+      .map(({ index, closers }) => body.slice(0, index) + closers),
+  ]
+  for (const attempt of attempts.slice(0, MAX_REPAIR_ATTEMPTS)) {
+    const value = tryParse(attempt)
+    if (value !== undefined) return value
+  }
+  return undefined
+}
+
+function closeTruncated(body: string, scan: JsonScan): string {
+  let closed = body
+  if (scan.inString) {
+    closed = (scan.escaped ? closed.slice(0, -1) : closed) + '"'
+  }
+  closed = closed.trimEnd()
+  if (closed.endsWith(",")) {
+    closed = closed.slice(0, -1)
+  } else if (closed.endsWith(":")) {
+    closed += "null"
+  }
+  return closed + closersOf(scan.stack)
+}
+
+export function startJsonScan(): JsonScan {
+  return { scanned: 0, stack: [], inString: false, escaped: false, cuts: [] }
+}
+
+/**
+ * Carries `scan` on over the text added since it last ran, stopping at the
+ * end of the top-level value. The text must only ever have grown.
+ */
+export function scanJson(scan: JsonScan, body: string): JsonScan {
+  for (; scan.scanned < body.length && scan.end === undefined; scan.scanned++) {
+    const index = scan.scanned
+    const char = body.charAt(index)
+    if (scan.inString) {
+      if (scan.escaped) scan.escaped = false
+      else if (char === "\\") scan.escaped = true
+      else if (char === '"') scan.inString = false
+      continue
+    }
+    if (!/\s/.test(char)) scan.trailingComma = undefined
+    scanStructure(scan, char, index)
+  }
+  return scan
+}
+
+function scanStructure(scan: JsonScan, char: string, index: number): void {
+  switch (char) {
+    case '"': {
+      scan.inString = true
+      break
+    }
+    case "{":
+    case "[": {
+      scan.stack.push(char === "{" ? "}" : "]")
+      scan.cuts.push({ index: index + 1, closers: closersOf(scan.stack) })
+      break
+    }
+    case "}":
+    case "]": {
+      scan.stack.pop()
+      if (scan.stack.length === 0) scan.end = index + 1
+      break
+    }
+    case ",": {
+      scan.cuts.push({ index, closers: closersOf(scan.stack) })
+      scan.trailingComma = index
+      break
+    }
+    default: {
+      break
+    }
+  }
+}
+
+const closersOf = (stack: Array<string>) => stack.toReversed().join("")
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown
+  } catch {
+    return undefined
+  }
+}
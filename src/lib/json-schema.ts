@@ -0,0 +1,255 @@
+/**
+ * A small JSON Schema validator covering the keywords structured output
+ * schemas use in practice. Unknown keywords are ignored rather than
+ * rejected, so a schema using something exotic validates leniently.
+ */
+
+export type JsonSchema = Record<string, unknown>
+
+/**
+ * Validates `value` against `schema`, returning one message per problem,
+ * each prefixed with the JSON path of the offending value
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+): Array<string> {
+  const validator = new SchemaValidator(schema)
+  validator.validate(value, schema, "$")
+  return validator.errors
+}
+
+class SchemaValidator {
+  readonly root: JsonSchema
+  readonly errors: Array<string> = []
+
+  constructor(root: JsonSchema) {
+    this.root = root
+  }
+
+  validate(value: unknown, schema: JsonSchema | boolean, path: string): void {
+    if (schema === true) return
+    if (schema === false) {
+      this.errors.push(`${path}: no value is allowed here`)
+      return
+    }
+
+    if (typeof schema.$ref === "string") {
+      const target = resolveRef(schema.$ref, this.root)
+      if (target === undefined) {
+        this.errors.push(`${path}: cannot resolve $ref '${schema.$ref}'`)
+        return
+      }
+      this.validate(value, target, path)
+    }
+
+    if (!this.checkType(value, schema, path)) return
+    this.checkEnum(value, schema, path)
+    this.checkCombinators(value, schema, path)
+
+    if (typeof value === "string") {
+      this.checkString(value, schema, path)
+    } else if (typeof value === "number") {
+      this.checkNumber(value, schema, path)
+    } else if (Array.isArray(value)) {
+      this.checkArray(value, schema, path)
+    } else if (isObject(value)) {
+      this.checkObject(value, schema, path)
+    }
+  }
+
+  private checkType(value: unknown, schema: JsonSchema, path: string): boolean {
+    if (schema.type === undefined) return true
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (types.some((type) => matchesType(value, type as string))) return true
+
+    this.errors.push(
+      `${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`,
+    )
+    return false
+  }
+
+  private checkEnum(value: unknown, schema: JsonSchema, path: string): void {
+    if (
+      Array.isArray(schema.enum)
+      && !schema.enum.some((v) => equal(v, value))
+    ) {
+      this.errors.push(
+        `${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+      )
+    }
+    if ("const" in schema && !equal(schema.const, value)) {
+      this.errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`)
+    }
+  }
+
+  private checkCombinators(
+    value: unknown,
+    schema: JsonSchema,
+    path: string,
+  ): void {
+    if (Array.isArray(schema.allOf)) {
+      for (const sub of schema.allOf as Array<JsonSchema>) {
+        this.validate(value, sub, path)
+      }
+    }
+
+    const matching = (subs: Array<JsonSchema>) =>
+      subs.filter((sub) => {
+        // Each alternative is tried without recording its errors
+        const validator = new SchemaValidator(this.root)
+        validator.validate(value, sub, "$")
+        return validator.errors.length === 0
+      }).length
+
+    if (
+      Array.isArray(schema.anyOf)
+      && matching(schema.anyOf as Array<JsonSchema>) === 0
+    ) {
+      this.errors.push(`${path}: does not match any of the allowed schemas`)
+    }
+    if (Array.isArray(schema.oneOf)) {
+      const count = matching(schema.oneOf as Array<JsonSchema>)
+      if (count !== 1) {
+        this.errors.push(
+          `${path}: must match exactly one of the allowed schemas, matched ${count}`,
+        )
+      }
+    }
+  }
+
+  private checkString(value: string, schema: JsonSchema, path: string): void {
+    const length = Array.from(value).length
+    if (typeof schema.minLength === "number" && length < schema.minLength) {
+      this.errors.push(
+        `${path}: must be at least ${schema.minLength} characters`,
+      )
+    }
+    if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+      this.errors.push(
+        `${path}: must be at most ${schema.maxLength} characters`,
+      )
+    }
+    if (
+      typeof schema.pattern === "string"
+      && !new RegExp(schema.pattern, "u").test(value)
+    ) {
+      this.errors.push(`${path}: must match pattern ${schema.pattern}`)
+    }
+  }
+
+  private checkNumber(value: number, schema: JsonSchema, path: string): void {
+    const bounds: Array<[string, (limit: number) => boolean, string]> = [
+      ["minimum", (limit) => value >= limit, ">="],
+      ["maximum", (limit) => value <= limit, "<="],
+      ["exclusiveMinimum", (limit) => value > limit, ">"],
+      ["exclusiveMaximum", (limit) => value < limit, "<"],
+    ]
+    for (const [keyword, ok, operator] of bounds) {
+      const limit = schema[keyword]
+      if (typeof limit === "number" && !ok(limit)) {
+        this.errors.push(`${path}: must be ${operator} ${limit}`)
+      }
+    }
+  }
+
+  private checkArray(
+    value: Array<unknown>,
+    schema: JsonSchema,
+    path: string,
+  ): void {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      this.errors.push(`${path}: must have at least ${schema.minItems} items`)
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      this.errors.push(`${path}: must have at most ${schema.maxItems} items`)
+    }
+
+    const prefix =
+      Array.isArray(schema.prefixItems) ?
+        (schema.prefixItems as Array<JsonSchema>)
+      : []
+    for (const [index, item] of value.entries()) {
+      const itemSchema =
+        index < prefix.length ?
+          prefix[index]
+        : (schema.items as JsonSchema | boolean | undefined)
+      if (itemSchema !== undefined) {
+        this.validate(item, itemSchema, `${path}[${index}]`)
+      }
+    }
+  }
+
+  private checkObject(
+    value: Record<string, unknown>,
+    schema: JsonSchema,
+    path: string,
+  ): void {
+    const properties =
+      isObject(schema.properties) ?
+        (schema.properties as Record<string, JsonSchema>)
+      : {}
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as Array<string>) {
+        if (!Object.hasOwn(value, key)) {
+          this.errors.push(`${path}: missing required property '${key}'`)
+        }
+      }
+    }
+
+    for (const [key, item] of Object.entries(value)) {
+      const itemPath = `${path}.${key}`
+      if (Object.hasOwn(properties, key)) {
+        this.validate(item, properties[key], itemPath)
+      } else if (schema.additionalProperties === false) {
+        this.errors.push(`${path}: unexpected property '${key}'`)
+      } else if (isObject(schema.additionalProperties)) {
+        this.validate(item, schema.additionalProperties, itemPath)
+      }
+    }
+  }
+}
+
+function resolveRef(
+  ref: string,
+  root: JsonSchema,
+): JsonSchema | boolean | undefined {
+  if (!ref.startsWith("#")) return undefined
+  let target: unknown = root
+  for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(segment)
+      .replaceAll("~1", "/")
+      .replaceAll("~0", "~")
+    if (!isObject(target)) return undefined
+    target = target[key]
+  }
+  return isObject(target) || typeof target === "boolean" ? target : undefined
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "integer": {
+      return Number.isInteger(value)
+    }
+    case "number": {
+      return typeof value === "number" && Number.isFinite(value)
+    }
+    default: {
+      return typeOf(value) === type
+    }
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+function equal(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
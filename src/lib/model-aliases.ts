@@ -0,0 +1,112 @@
+import type { Context } from "hono"
+
+const RESOLVED_MODEL_HEADER = "x-proxy-resolved-model"
+
+/**
+ * Rewrites a requested model ID. `match` is compared as an exact ID, a glob
+ * (`*` and `?`) or a regular expression; without a `type`, a pattern with
+ * glob characters is a glob and anything else is exact. `$1`, `$2`, ... in
+ * `target` are replaced with what the glob wildcards or regex groups matched.
+ */
+export interface ModelAliasRule {
+  match: string
+  target: string
+  type?: "exact" | "glob" | "regex"
+}
+
+interface CompiledRule {
+  pattern: RegExp
+  target: string
+}
+
+// Dated model IDs that Claude Code sends for subagents, which Copilot only
+// knows by their family name. Configured rules are checked first.
+const BUILT_IN_RULES: Array<ModelAliasRule> = [
+  { match: "claude-sonnet-4-*", target: "claude-sonnet-4" },
+  { match: "claude-opus-4-*", target: "claude-opus-4" },
+]
+
+let rules: Array<CompiledRule> = compileModelAliases([])
+
+/**
+ * Turns each rule into a regex, configured rules first and the built-in
+ * ones last. Exact and glob patterns must match the whole model ID; errors
+ * name the index of the offending rule.
+ */
+export function compileModelAliases(
+  configured: Array<ModelAliasRule>,
+): Array<CompiledRule> {
+  return [...configured, ...BUILT_IN_RULES].map((rule, index) => {
+    if (typeof rule.match !== "string" || typeof rule.target !== "string") {
+      throw new TypeError(
+        `Model alias ${index}: match and target must be strings`,
+      )
+    }
+    return { pattern: compilePattern(rule, index), target: rule.target }
+  })
+}
+
+function compilePattern(rule: ModelAliasRule, index: number): RegExp {
+  const type = rule.type ?? (/[*?]/.test(rule.match) ? "glob" : "exact")
+  switch (type) {
+    case "exact": {
+      return new RegExp(`^${escapeRegExp(rule.match)}$`)
+    }
+    case "glob": {
+      const source = Array.from(rule.match, (char) => {
+        if (char === "*") return "(.*)"
+        if (char === "?") return "(.)"
+        return escapeRegExp(char)
+      }).join("")
+      return new RegExp(`^${source}$`)
+    }
+    case "regex": {
+      try {
+        return new RegExp(rule.match)
+      } catch (error) {
+        throw new Error(
+          `Model alias ${index}: invalid regex '${rule.match}': ${(error as Error).message}`,
+        )
+      }
+    }
+    default: {
+      throw new Error(`Model alias ${index}: unknown type '${String(type)}'`)
+    }
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replaceAll(/[$()*+.?[\\\]^{|}]/g, String.raw`\$&`)
+}
+
+export function setModelAliases(compiled: Array<CompiledRule>): void {
+  rules = compiled
+}
+
+/** Applies the first matching rule; unmatched models pass through as-is. */
+export function resolveModel(model: string): string {
+  for (const rule of rules) {
+    const match = rule.pattern.exec(model)
+    if (!match) continue
+    return rule.target.replaceAll(
+      /\$(\d+)/g,
+      (_, group: string) => match[Number(group)] ?? "",
+    )
+  }
+  return model
+}
+
+/**
+ * Resolves a request's model and reports the result in the
+ * `x-proxy-resolved-model` response header.
+ */
+export function resolveRequestModel(c: Context, model: string): string {
+  const resolved = resolveModel(model)
+  setResolvedModelHeader(c, resolved)
+  return resolved
+}
+
+// For routes whose translation already resolved the model
+export function setResolvedModelHeader(c: Context, model: string): void {
+  c.header(RESOLVED_MODEL_HEADER, model)
+}
@@ -0,0 +1,87 @@
+/**
+ * Models to try, in order, when a model's request fails with one of the
+ * configured status codes or error codes, e.g.
+ * `{ "chains": { "claude-sonnet-4": ["gpt-4.1", "gpt-4o"] } }`.
+ */
+export interface ModelFallbackConfig {
+  chains?: Record<string, Array<string>>
+  status_codes?: Array<number>
+  error_codes?: Array<string>
+}
+
+interface ModelFallbacks {
+  chains: Map<string, Array<string>>
+  statusCodes: Set<number>
+  errorCodes: Set<string>
+}
+
+// Rate limits, upstream outages and models the account can't use
+const DEFAULT_STATUS_CODES = [429, 500, 502, 503, 504]
+const DEFAULT_ERROR_CODES = ["model_not_supported", "model_not_enabled"]
+
+let fallbacks: ModelFallbacks = compileModelFallbacks(undefined)
+
+/**
+ * Checks that every chain is a list of model IDs and fills in the default
+ * status and error codes that trigger a fallback.
+ */
+export function compileModelFallbacks(
+  config: ModelFallbackConfig | undefined,
+): ModelFallbacks {
+  const chains = Object.entries(config?.chains ?? {})
+  for (const [model, chain] of chains) {
+    if (!Array.isArray(chain) || chain.some((m) => typeof m !== "string")) {
+      throw new TypeError(
+        `model_fallbacks.chains.${model} must be an array of model IDs`,
+      )
+    }
+  }
+  const statusCodes = config?.status_codes ?? DEFAULT_STATUS_CODES
+  if (!statusCodes.every((code) => Number.isInteger(code))) {
+    throw new TypeError("model_fallbacks.status_codes must be integers")
+  }
+  const errorCodes = config?.error_codes ?? DEFAULT_ERROR_CODES
+  if (!errorCodes.every((code) => typeof code === "string")) {
+    throw new TypeError("model_fallbacks.error_codes must be strings")
+  }
+
+  return {
+    chains: new Map(chains),
+    statusCodes: new Set(statusCodes),
+    errorCodes: new Set(errorCodes),
+  }
+}
+
+export function setModelFallbacks(compiled: ModelFallbacks): void {
+  fallbacks = compiled
+}
+
+/** The requested model followed by its fallbacks, without repeats. */
+export function modelCandidates(model: string): Array<string> {
+  return [...new Set([model, ...(fallbacks.chains.get(model) ?? [])])]
+}
+
+/**
+ * Whether a failed response should move on to the next model. The body is
+ * read from a clone so the original can still be forwarded as the error.
+ */
+export async function shouldFallback(response: Response): Promise<boolean> {
+  if (fallbacks.statusCodes.has(response.status)) {
+    return true
+  }
+  const code = await errorCode(response)
+  return code !== undefined && fallbacks.errorCodes.has(code)
+}
+
+async function errorCode(response: Response): Promise<string | undefined> {
+  try {
+    const body = (await response.clone().json()) as {
+      code?: unknown
+      error?: { code?: unknown }
+    }
+    const code = body.error?.code ?? body.code
+    return typeof code === "string" ? code : undefined
+  } catch {
+    return undefined
+  }
+}
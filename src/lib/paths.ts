@@ -2,19 +2,39 @@ import fs from "node:fs/promises"
 import os from "node:os"
 import path from "node:path"
 
-const APP_DIR = path.join(os.homedir(), ".local", "share", "copilot-proxy-server")
+const APP_DIR = path.join(
+  os.homedir(),
+  ".local",
+  "share",
+  "copilot-proxy-server",
+)
 
 const TOKEN_PATH = path.join(APP_DIR, "token.json")
+const CONFIG_PATH = path.join(APP_DIR, "config.json")
+const MESSAGE_BATCHES_DIR = path.join(APP_DIR, "message-batches")
+const FILES_DIR = path.join(APP_DIR, "files")
+const BATCHES_DIR = path.join(APP_DIR, "batches")
+const EMBEDDINGS_CACHE_DIR = path.join(APP_DIR, "embeddings-cache")
+const RESPONSE_CACHE_DIR = path.join(APP_DIR, "response-cache")
 
 export const PATHS = {
   APP_DIR,
   TOKEN_PATH,
+  CONFIG_PATH,
+  MESSAGE_BATCHES_DIR,
+  FILES_DIR,
+  BATCHES_DIR,
+  EMBEDDINGS_CACHE_DIR,
+  RESPONSE_CACHE_DIR,
   // Legacy alias for backwards compatibility during migration
   GITHUB_TOKEN_PATH: TOKEN_PATH,
 }
 
 export async function ensurePaths(): Promise<void> {
   await fs.mkdir(PATHS.APP_DIR, { recursive: true })
+  await fs.mkdir(PATHS.MESSAGE_BATCHES_DIR, { recursive: true })
+  await fs.mkdir(PATHS.FILES_DIR, { recursive: true })
+  await fs.mkdir(PATHS.BATCHES_DIR, { recursive: true })
   await ensureFile(PATHS.TOKEN_PATH)
 }
 
@@ -0,0 +1,906 @@
+import { constants, inflateSync } from "node:zlib"
+
+// Minimal PDF text extraction. It understands enough of the file format to
+// find each page's content streams (including compressed object streams) and
+// turns the text-showing operators into plain text, using the fonts'
+// ToUnicode maps when present. Layout, images and encryption are out of
+// scope; scanned PDFs come back as pages without text.
+
+interface PdfName {
+  kind: "name"
+  name: string
+}
+
+interface PdfRef {
+  kind: "ref"
+  num: number
+}
+
+// Raw bytes, one char per byte
+interface PdfString {
+  kind: "string"
+  bytes: string
+}
+
+interface PdfOperator {
+  kind: "op"
+  op: string
+}
+
+type PdfDict = Map<string, PdfValue>
+
+type PdfValue =
+  | null
+  | boolean
+  | number
+  | PdfName
+  | PdfRef
+  | PdfString
+  | PdfOperator
+  | Array<PdfValue>
+  | PdfDict
+
+interface PdfObject {
+  value: PdfValue
+  // Undecoded stream bytes, when the object is a stream
+  stream?: string
+}
+
+interface PdfFont {
+  // Type0 fonts use two-byte character codes
+  twoByte: boolean
+  toUnicode?: Map<number, string>
+}
+
+interface TextState {
+  text: string
+  font?: PdfFont
+  lastY?: number
+}
+
+const WHITESPACE = new Set(["\0", "\t", "\n", "\f", "\r", " "])
+const DELIMITERS = new Set(["(", ")", "<", ">", "[", "]", "{", "}", "/", "%"])
+
+// Windows-1252 characters that differ from Latin-1, for simple fonts
+// without a ToUnicode map
+const WIN_ANSI: Record<number, string> = {
+  0x80: "€",
+  0x85: "…",
+  0x91: "‘",
+  0x92: "’",
+  0x93: "“",
+  0x94: "”",
+  0x95: "•",
+  0x96: "–",
+  0x97: "—",
+  0x99: "™",
+}
+
+// Gap in a TJ array, in thousandths of an em, that counts as a word break
+const TJ_SPACE_THRESHOLD = 180
+const MAX_XOBJECT_DEPTH = 5
+
+// Compressed streams may inflate to this many times the size of the whole
+// file, and to at least MIN_INFLATE_BYTES, so a small upload cannot expand
+// into gigabytes
+const INFLATE_RATIO = 20
+const MIN_INFLATE_BYTES = 16 * 1024 * 1024
+
+// What the PDF being read may still inflate to. Extraction is synchronous,
+// so only one PDF is read at a time
+let inflateBudget = 0
+
+/**
+ * Extracts the text of every page, in page order
+ */
+export function extractPdfText(data: Uint8Array): Array<string> {
+  const source = Buffer.from(data).toString("latin1")
+  if (!source.startsWith("%PDF-")) {
+    throw new Error("Not a PDF file")
+  }
+  inflateBudget = Math.max(MIN_INFLATE_BYTES, data.length * INFLATE_RATIO)
+
+  const objects = readObjects(source)
+  if (isEncrypted(source, objects)) {
+    throw new Error("Encrypted PDFs are not supported")
+  }
+
+  const resolve = (value: PdfValue | undefined): PdfValue | undefined =>
+    isRef(value) ? objects.get(value.num)?.value : value
+
+  return findPages(objects, resolve).map((page) => {
+    const state: TextState = { text: "" }
+    const resources = inheritedResources(page, resolve)
+    const contents = resolveArray(page.get("Contents"), resolve, objects)
+    const content = contents
+      .map((stream) => decodeStream(stream) ?? "")
+      .join("\n")
+    runContentStream(content, resources, {
+      objects,
+      resolve,
+      state,
+      depth: 0,
+    })
+    return tidyText(state.text)
+  })
+}
+
+// Object parsing
+
+class Lexer {
+  position = 0
+  private readonly source: string
+
+  constructor(source: string) {
+    this.source = source
+  }
+
+  skipWhitespace(): void {
+    while (this.position < this.source.length) {
+      const char = this.source[this.position]
+      if (WHITESPACE.has(char)) {
+        this.position += 1
+      } else if (char === "%") {
+        while (
+          this.position < this.source.length
+          && this.source[this.position] !== "\n"
+          && this.source[this.position] !== "\r"
+        ) {
+          this.position += 1
+        }
+      } else {
+        return
+      }
+    }
+  }
+
+  atEnd(): boolean {
+    this.skipWhitespace()
+    return this.position >= this.source.length
+  }
+
+  // eslint-disable-next-line complexity
+  next(): PdfValue | undefined {
+    this.skipWhitespace()
+    if (this.position >= this.source.length) return undefined
+    const char = this.source[this.position]
+
+    if (char === "<" && this.source[this.position + 1] === "<") {
+      this.position += 2
+      return this.readDict()
+    }
+    if (char === "<") return this.readHexString()
+    if (char === "(") return this.readLiteralString()
+    if (char === "/") return this.readName()
+    if (char === "[") {
+      this.position += 1
+      return this.readArray()
+    }
+    if (
+      char === "]"
+      || char === ">"
+      || char === ")"
+      || char === "{"
+      || char === "}"
+    ) {
+      // Stray delimiter; hand it back as an operator so callers can stop
+      this.position +=
+        char === ">" && this.source[this.position + 1] === ">" ? 2 : 1
+      return { kind: "op", op: char }
+    }
+
+    const token = this.readToken()
+    if (/^[+-]?(?:\d+(?:\.\d*)?|\.\d+)$/.test(token)) {
+      return this.readNumberOrRef(token)
+    }
+    if (token === "true") return true
+    if (token === "false") return false
+    if (token === "null") return null
+    return { kind: "op", op: token }
+  }
+
+  private readToken(): string {
+    const token = this.readRegularChars()
+    if (token) return token
+    // Always make progress, even on an unexpected character
+    this.position += 1
+    return this.source[this.position - 1]
+  }
+
+  private readNumberOrRef(token: string): number | PdfRef {
+    const value = Number(token)
+    if (!Number.isInteger(value)) return value
+
+    // `num gen R` is an indirect reference
+    const match = /^\s+\d+\s+R(?=[\s/<>[\]()%]|$)/.exec(
+      this.source.slice(this.position, this.position + 32),
+    )
+    if (match) {
+      this.position += match[0].length
+      return { kind: "ref", num: value }
+    }
+    return value
+  }
+
+  private readDict(): PdfDict {
+    const dict: PdfDict = new Map()
+    while (!this.atEnd()) {
+      if (this.source.startsWith(">>", this.position)) {
+        this.position += 2
+        break
+      }
+      const key = this.next()
+      if (!isName(key)) break
+      dict.set(key.name, this.next() ?? null)
+    }
+    return dict
+  }
+
+  private readArray(): Array<PdfValue> {
+    const items: Array<PdfValue> = []
+    while (!this.atEnd()) {
+      if (this.source[this.position] === "]") {
+        this.position += 1
+        break
+      }
+      const value = this.next()
+      if (value === undefined) break
+      items.push(value)
+    }
+    return items
+  }
+
+  private readName(): PdfName {
+    this.position += 1
+    const raw = this.readRegularChars()
+    return {
+      kind: "name",
+      name: raw.replaceAll(/#([\da-f]{2})/gi, (_, hex: string) =>
+        String.fromCodePoint(Number.parseInt(hex, 16)),
+      ),
+    }
+  }
+
+  private readRegularChars(): string {
+    const start = this.position
+    while (
+      this.position < this.source.length
+      && !WHITESPACE.has(this.source[this.position])
+      && !DELIMITERS.has(this.source[this.position])
+    ) {
+      this.position += 1
+    }
+    return this.source.slice(start, this.position)
+  }
+
+  private readHexString(): PdfString {
+    const end = this.source.indexOf(">", this.position)
+    const hex = this.source.slice(
+      this.position + 1,
+      end === -1 ? undefined : end,
+    )
+    this.position = end === -1 ? this.source.length : end + 1
+    return { kind: "string", bytes: decodeHex(hex) }
+  }
+
+  private readLiteralString(): PdfString {
+    this.position += 1
+    let depth = 1
+    let bytes = ""
+
+    while (this.position < this.source.length) {
+      const char = this.source[this.position]
+      this.position += 1
+
+      switch (char) {
+        case "(": {
+          depth += 1
+          break
+        }
+        case ")": {
+          depth -= 1
+          break
+        }
+        case "\\": {
+          bytes += this.readEscape()
+          continue
+        }
+        // No default
+      }
+      if (depth === 0) break
+      bytes += char
+    }
+
+    return { kind: "string", bytes }
+  }
+
+  private readEscape(): string {
+    const char = this.source[this.position]
+    this.position += 1
+
+    const simple: Record<string, string> = {
+      n: "\n",
+      r: "\r",
+      t: "\t",
+      b: "\b",
+      f: "\f",
+      "(": "(",
+      ")": ")",
+      "\\": "\\",
+    }
+    if (char in simple) return simple[char]
+
+    if (/[0-7]/.test(char)) {
+      let octal = char
+      while (
+        octal.length < 3
+        && /[0-7]/.test(this.source[this.position] ?? "")
+      ) {
+        octal += this.source[this.position]
+        this.position += 1
+      }
+      return String.fromCodePoint(Number.parseInt(octal, 8) & 0xff)
+    }
+
+    // A backslash before a line break continues the string on the next line
+    if (char === "\r" && this.source[this.position] === "\n") {
+      this.position += 1
+      return ""
+    }
+    if (char === "\n" || char === "\r") return ""
+    return char
+  }
+}
+
+function readObjects(source: string): Map<number, PdfObject> {
+  const objects = new Map<number, PdfObject>()
+  const objectPattern = /(\d+)\s+\d+\s+obj\b/g
+
+  for (const match of source.matchAll(objectPattern)) {
+    const lexer = new Lexer(source)
+    lexer.position = match.index + match[0].length
+    const value = lexer.next() ?? null
+
+    const object: PdfObject = { value }
+    lexer.skipWhitespace()
+    if (isDict(value) && source.startsWith("stream", lexer.position)) {
+      object.stream = readStreamData(source, lexer.position, value)
+    }
+    // Later definitions come from incremental updates and win
+    objects.set(Number(match[1]), object)
+  }
+
+  // Objects packed into object streams only count when not defined directly
+  for (const object of objects.values()) {
+    if (
+      !isDict(object.value)
+      || nameOf(object.value.get("Type")) !== "ObjStm"
+    ) {
+      continue
+    }
+    for (const [num, value] of readObjectStream(object)) {
+      if (!objects.has(num)) objects.set(num, { value })
+    }
+  }
+
+  return objects
+}
+
+function readStreamData(
+  source: string,
+  streamKeyword: number,
+  dict: PdfDict,
+): string {
+  let start = streamKeyword + "stream".length
+  if (source[start] === "\r") start += 1
+  if (source[start] === "\n") start += 1
+
+  const length = dict.get("Length")
+  if (
+    typeof length === "number"
+    && /^\s*endstream/.test(source.slice(start + length, start + length + 32))
+  ) {
+    return source.slice(start, start + length)
+  }
+
+  const end = source.indexOf("endstream", start)
+  return source.slice(start, end === -1 ? undefined : end).replace(/\r?\n$/, "")
+}
+
+function readObjectStream(object: PdfObject): Array<[number, PdfValue]> {
+  const data = decodeStream(object)
+  if (data === undefined || !isDict(object.value)) return []
+
+  const count = object.value.get("N")
+  const first = object.value.get("First")
+  if (typeof count !== "number" || typeof first !== "number") return []
+
+  const header = new Lexer(data)
+  const entries: Array<[number, number]> = []
+  for (let index = 0; index < count; index += 1) {
+    const num = header.next()
+    const offset = header.next()
+    if (typeof num !== "number" || typeof offset !== "number") break
+    entries.push([num, offset])
+  }
+
+  return entries.map(([num, offset]) => {
+    const lexer = new Lexer(data)
+    lexer.position = first + offset
+    return [num, lexer.next() ?? null]
+  })
+}
+
+function isEncrypted(source: string, objects: Map<number, PdfObject>): boolean {
+  for (const match of source.matchAll(/trailer\s*<</g)) {
+    const lexer = new Lexer(source)
+    lexer.position = match.index + "trailer".length
+    const trailer = lexer.next()
+    if (isDict(trailer) && trailer.has("Encrypt")) return true
+  }
+  // Cross-reference streams carry the trailer keys in their dictionary
+  return [...objects.values()].some(
+    (object) =>
+      isDict(object.value)
+      && nameOf(object.value.get("Type")) === "XRef"
+      && object.value.has("Encrypt"),
+  )
+}
+
+// Stream decoding
+
+function decodeStream(object: PdfObject): string | undefined {
+  if (object.stream === undefined || !isDict(object.value)) return undefined
+
+  const filter = object.value.get("Filter")
+  const filters =
+    Array.isArray(filter) ?
+      filter.map((item) => nameOf(item))
+    : [nameOf(filter)].filter(Boolean)
+
+  let data = object.stream
+  for (const name of filters) {
+    switch (name) {
+      case "FlateDecode":
+      case "Fl": {
+        data = inflate(data)
+        break
+      }
+      case "ASCIIHexDecode":
+      case "AHx": {
+        data = decodeHex(data)
+        break
+      }
+      case "ASCII85Decode":
+      case "A85": {
+        data = decodeAscii85(data)
+        break
+      }
+      default: {
+        // Image codecs and the rarer filters carry no text we can read
+        return undefined
+      }
+    }
+  }
+  return data
+}
+
+function inflate(data: string): string {
+  const buffer = Buffer.from(data, "latin1")
+  const options = { maxOutputLength: Math.max(inflateBudget, 1) }
+  let output: Buffer
+  try {
+    output = inflateSync(buffer, options)
+  } catch (error) {
+    if ((error as { code?: string }).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error(
+        `Compressed streams expand to more than ${Math.floor(options.maxOutputLength / 1024 / 1024)} MB`,
+      )
+    }
+    // Tolerate streams that are truncated or miss their checksum
+    output = inflateSync(buffer, {
+      ...options,
+      finishFlush: constants.Z_SYNC_FLUSH,
+    })
+  }
+  inflateBudget -= output.length
+  return output.toString("latin1")
+}
+
+function decodeHex(data: string): string {
+  const hex = data.replace(/>.*$/s, "").replaceAll(/[^\da-f]/gi, "")
+  // An odd final digit is padded with zero
+  const padded = hex.length % 2 === 0 ? hex : `${hex}0`
+  let bytes = ""
+  for (let index = 0; index < padded.length; index += 2) {
+    bytes += String.fromCodePoint(
+      Number.parseInt(padded.slice(index, index + 2), 16),
+    )
+  }
+  return bytes
+}
+
+function decodeAscii85(data: string): string {
+  const input = data.replaceAll(/\s/g, "").replace(/~>$/, "")
+  let output = ""
+  let group: Array<number> = []
+
+  const flush = (length: number) => {
+    while (group.length < 5) group.push(84)
+    let value = 0
+    for (const digit of group) value = value * 85 + digit
+    const bytes = [
+      value >>> 24,
+      (value >>> 16) & 0xff,
+      (value >>> 8) & 0xff,
+      value & 0xff,
+    ]
+    output += String.fromCodePoint(...bytes.slice(0, length))
+    group = []
+  }
+
+  for (const char of input) {
+    if (char === "z" && group.length === 0) {
+      output += "\0\0\0\0"
+      continue
+    }
+    group.push((char.codePointAt(0) ?? 0) - 33)
+    if (group.length === 5) flush(4)
+  }
+  if (group.length > 0) flush(group.length - 1)
+  return output
+}
+
+// Page tree
+
+function findPages(
+  objects: Map<number, PdfObject>,
+  resolve: (value: PdfValue | undefined) => PdfValue | undefined,
+): Array<PdfDict> {
+  const catalog = [...objects.values()]
+    .map((object) => object.value)
+    .findLast(
+      (value): value is PdfDict =>
+        isDict(value) && nameOf(value.get("Type")) === "Catalog",
+    )
+
+  const pages: Array<PdfDict> = []
+  const visited = new Set<PdfDict>()
+  const walk = (node: PdfValue | undefined) => {
+    const dict = resolve(node)
+    if (!isDict(dict) || visited.has(dict)) return
+    visited.add(dict)
+
+    const kids = resolve(dict.get("Kids"))
+    if (Array.isArray(kids)) {
+      for (const kid of kids) walk(kid)
+    } else if (nameOf(dict.get("Type")) !== "Pages") {
+      pages.push(dict)
+    }
+  }
+  walk(catalog?.get("Pages"))
+
+  if (pages.length > 0) return pages
+
+  // No usable page tree; fall back to every page object in file order
+  return [...objects.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, object]) => object.value)
+    .filter(
+      (value): value is PdfDict =>
+        isDict(value) && nameOf(value.get("Type")) === "Page",
+    )
+}
+
+function inheritedResources(
+  page: PdfDict,
+  resolve: (value: PdfValue | undefined) => PdfValue | undefined,
+): PdfDict | undefined {
+  let node: PdfValue | undefined = page
+  for (let depth = 0; depth < 32 && isDict(node); depth += 1) {
+    const resources = resolve(node.get("Resources"))
+    if (isDict(resources)) return resources
+    node = resolve(node.get("Parent"))
+  }
+  return undefined
+}
+
+function resolveArray(
+  value: PdfValue | undefined,
+  resolve: (value: PdfValue | undefined) => PdfValue | undefined,
+  objects: Map<number, PdfObject>,
+): Array<PdfObject> {
+  const items = resolve(value)
+  const refs = Array.isArray(items) ? items : [value]
+  return refs.flatMap((item) => {
+    if (!isRef(item)) return []
+    const object = objects.get(item.num)
+    return object ? [object] : []
+  })
+}
+
+// Content streams
+
+interface ContentContext {
+  objects: Map<number, PdfObject>
+  resolve: (value: PdfValue | undefined) => PdfValue | undefined
+  state: TextState
+  // Nesting level of form XObjects being drawn
+  depth: number
+}
+
+// eslint-disable-next-line complexity
+function runContentStream(
+  content: string,
+  resources: PdfDict | undefined,
+  context: ContentContext,
+): void {
+  const { state } = context
+  const fonts = new Map<string, PdfFont>()
+  const lexer = new Lexer(content)
+  let operands: Array<PdfValue> = []
+
+  while (!lexer.atEnd()) {
+    const value = lexer.next()
+    if (value === undefined) break
+    if (!isOperator(value)) {
+      operands.push(value)
+      continue
+    }
+
+    switch (value.op) {
+      case "Tf": {
+        const name = nameOf(operands.at(-2))
+        if (name) {
+          if (!fonts.has(name)) {
+            fonts.set(name, loadFont(name, resources, context))
+          }
+          state.font = fonts.get(name)
+        }
+        break
+      }
+      case "Tj": {
+        appendText(state, operands.at(-1))
+        break
+      }
+      case "'":
+      case '"': {
+        newLine(state)
+        appendText(state, operands.at(-1))
+        break
+      }
+      case "TJ": {
+        appendTextArray(state, operands.at(-1))
+        break
+      }
+      case "T*": {
+        newLine(state)
+        break
+      }
+      case "Td":
+      case "TD": {
+        const [tx, ty] = operands.slice(-2)
+        if (typeof ty === "number" && ty !== 0) newLine(state)
+        else if (typeof tx === "number" && tx > 0) addSpace(state)
+        break
+      }
+      case "Tm": {
+        const y = operands.at(-1)
+        if (typeof y === "number") {
+          if (state.lastY !== undefined && y !== state.lastY) newLine(state)
+          state.lastY = y
+        }
+        break
+      }
+      case "ET": {
+        addSpace(state)
+        break
+      }
+      case "Do": {
+        if (context.depth < MAX_XOBJECT_DEPTH) {
+          runFormXObject(nameOf(operands.at(-1)), resources, context)
+        }
+        break
+      }
+      case "ID": {
+        // Inline image data is binary; skip to the end marker
+        const end = content.indexOf("EI", lexer.position)
+        lexer.position = end === -1 ? content.length : end + 2
+        break
+      }
+      // No default
+    }
+    operands = []
+  }
+}
+
+function runFormXObject(
+  name: string | undefined,
+  resources: PdfDict | undefined,
+  context: ContentContext,
+): void {
+  if (!name) return
+  const xObjects = context.resolve(resources?.get("XObject"))
+  const ref = isDict(xObjects) ? xObjects.get(name) : undefined
+  if (!isRef(ref)) return
+
+  const object = context.objects.get(ref.num)
+  if (!object || !isDict(object.value)) return
+  if (nameOf(object.value.get("Subtype")) !== "Form") return
+
+  const content = decodeStream(object)
+  if (content === undefined) return
+  const formResources = context.resolve(object.value.get("Resources"))
+  runContentStream(content, isDict(formResources) ? formResources : resources, {
+    ...context,
+    depth: context.depth + 1,
+  })
+}
+
+function loadFont(
+  name: string,
+  resources: PdfDict | undefined,
+  context: ContentContext,
+): PdfFont {
+  const fonts = context.resolve(resources?.get("Font"))
+  const font = isDict(fonts) ? context.resolve(fonts.get(name)) : undefined
+  if (!isDict(font)) return { twoByte: false }
+
+  const twoByte = nameOf(font.get("Subtype")) === "Type0"
+  const toUnicodeRef = font.get("ToUnicode")
+  const toUnicodeObject =
+    isRef(toUnicodeRef) ? context.objects.get(toUnicodeRef.num) : undefined
+  const cmap = toUnicodeObject && decodeStream(toUnicodeObject)
+
+  return { twoByte, toUnicode: cmap ? parseToUnicodeCMap(cmap) : undefined }
+}
+
+/**
+ * Parses the bfchar and bfrange sections of a ToUnicode CMap into a map from
+ * character code to text
+ */
+export function parseToUnicodeCMap(cmap: string): Map<number, string> {
+  const map = new Map<number, string>()
+  const lexer = new Lexer(cmap)
+  let section: "bfchar" | "bfrange" | undefined
+  let operands: Array<PdfValue> = []
+
+  while (!lexer.atEnd()) {
+    const value = lexer.next()
+    if (value === undefined) break
+
+    if (isOperator(value)) {
+      if (value.op === "beginbfchar") section = "bfchar"
+      else if (value.op === "beginbfrange") section = "bfrange"
+      else if (value.op.startsWith("end")) section = undefined
+      operands = []
+      continue
+    }
+    if (!section) continue
+
+    operands.push(value)
+    if (section === "bfchar" && operands.length === 2) {
+      const [code, target] = operands
+      if (isString(code) && isString(target)) {
+        map.set(bytesToNumber(code.bytes), decodeUtf16(target.bytes))
+      }
+      operands = []
+    } else if (section === "bfrange" && operands.length === 3) {
+      addRange(map, operands)
+      operands = []
+    }
+  }
+
+  return map
+}
+
+function addRange(map: Map<number, string>, operands: Array<PdfValue>): void {
+  const [low, high, target] = operands
+  if (!isString(low) || !isString(high)) return
+
+  const start = bytesToNumber(low.bytes)
+  const end = bytesToNumber(high.bytes)
+  // Guard against absurd ranges in broken files
+  if (end < start || end - start > 0xffff) return
+
+  for (let code = start; code <= end; code += 1) {
+    const offset = code - start
+    if (Array.isArray(target)) {
+      const item = target[offset]
+      if (isString(item)) map.set(code, decodeUtf16(item.bytes))
+    } else if (isString(target)) {
+      const base = decodeUtf16(target.bytes)
+      // The last UTF-16 unit is incremented across the range
+      const last = base.codePointAt(base.length - 1) ?? 0
+      map.set(code, base.slice(0, -1) + String.fromCodePoint(last + offset))
+    }
+  }
+}
+
+function appendText(state: TextState, value: PdfValue | undefined): void {
+  if (!isString(value)) return
+  state.text += decodeText(value.bytes, state.font)
+}
+
+function decodeText(bytes: string, font: PdfFont | undefined): string {
+  const step = font?.twoByte ? 2 : 1
+  let text = ""
+  for (let index = 0; index < bytes.length; index += step) {
+    const code = bytesToNumber(bytes.slice(index, index + step))
+    const mapped = font?.toUnicode?.get(code)
+    if (mapped !== undefined) {
+      text += mapped
+    } else if (!font?.twoByte) {
+      // Composite fonts without a ToUnicode map cannot be decoded
+      text += WIN_ANSI[code] ?? String.fromCodePoint(code)
+    }
+  }
+  return text
+}
+
+// TJ arrays mix strings with kerning adjustments; large gaps are word breaks
+function appendTextArray(state: TextState, items: PdfValue | undefined): void {
+  if (!Array.isArray(items)) return
+  for (const item of items) {
+    if (typeof item !== "number") appendText(state, item)
+    else if (-item > TJ_SPACE_THRESHOLD) addSpace(state)
+  }
+}
+
+function addSpace(state: TextState): void {
+  if (state.text && !/\s$/.test(state.text)) state.text += " "
+}
+
+function newLine(state: TextState): void {
+  if (state.text && !state.text.endsWith("\n")) state.text += "\n"
+}
+
+const tidyText = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.replaceAll(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replaceAll(/\n{3,}/g, "\n\n")
+    .trim()
+
+// Helpers
+
+const bytesToNumber = (bytes: string) => {
+  let value = 0
+  for (const char of bytes) value = value * 256 + (char.codePointAt(0) ?? 0)
+  return value
+}
+
+function decodeUtf16(bytes: string): string {
+  let text = ""
+  for (let index = 0; index + 1 < bytes.length; index += 2) {
+    text += String.fromCodePoint(bytesToNumber(bytes.slice(index, index + 2)))
+  }
+  return text
+}
+
+const isDict = (value: PdfValue | undefined): value is PdfDict =>
+  value instanceof Map
+
+const isRef = (value: PdfValue | undefined): value is PdfRef =>
+  isTagged(value) && value.kind === "ref"
+
+const isName = (value: PdfValue | undefined): value is PdfName =>
+  isTagged(value) && value.kind === "name"
+
+const isString = (value: PdfValue | undefined): value is PdfString =>
+  isTagged(value) && value.kind === "string"
+
+const isOperator = (value: PdfValue | undefined): value is PdfOperator =>
+  isTagged(value) && value.kind === "op"
+
+const isTagged = (
+  value: PdfValue | undefined,
+): value is PdfName | PdfRef | PdfString | PdfOperator =>
+  typeof value === "object"
+  && value !== null
+  && !Array.isArray(value)
+  && !(value instanceof Map)
+
+const nameOf = (value: PdfValue | undefined): string | undefined =>
+  isName(value) ? value.name : undefined
@@ -1,46 +1,344 @@
+import type { Context } from "hono"
+
 import consola from "consola"
 
-import type { State } from "./state"
+import type { ChatCompletionsPayload } from "~/services/copilot/create-chat-completions"
 
 import { HTTPError } from "./error"
-import { sleep } from "./utils"
+import { holdUntilSent } from "./request-leases"
+import { state } from "./state"
+import { getTokenCount } from "./tokenizer"
+
+/**
+ * One entry of the `rate_limits` config section. `scope` decides who shares
+ * the limit: everyone (`global`), each model, or each client. `model`
+ * restricts the rule to a single model. Request and token budgets are token
+ * buckets refilled continuously over a minute; `burst` is how many requests
+ * may go at once after a quiet spell and defaults to `requests_per_minute`.
+ */
+export interface RateLimitRule {
+  scope?: "global" | "model" | "client"
+  model?: string
+  requests_per_minute?: number
+  tokens_per_minute?: number
+  max_concurrent?: number
+  burst?: number
+}
 
-export async function checkRateLimit(state: State) {
-  if (state.rateLimitSeconds === undefined) return
+type NumericSetting =
+  | "requests_per_minute"
+  | "tokens_per_minute"
+  | "max_concurrent"
+  | "burst"
 
-  const now = Date.now()
+interface Bucket {
+  level: number
+  updatedAt: number
+}
+
+interface CompiledRule {
+  name: string
+  scope: "global" | "model" | "client"
+  model?: string
+  requests?: { capacity: number; perMs: number }
+  tokens?: { capacity: number; perMs: number }
+  maxConcurrent?: number
+  requestBuckets: Map<string, Bucket>
+  tokenBuckets: Map<string, Bucket>
+  active: Map<string, number>
+}
+
+/** What a request is limited by. */
+export interface RateLimitRequest {
+  model: string
+  client: string
+  // Only read when a tokens_per_minute rule applies
+  payload?: ChatCompletionsPayload
+}
+
+interface AcquireRateLimitOptions {
+  // Overrides `state.rateLimitWait`; background jobs always wait their turn
+  wait?: boolean
+}
+
+const SCOPES = new Set(["global", "model", "client"])
+const MINUTE_MS = 60_000
+
+// Concurrency has no refill time to report, so clients are asked to come
+// back after this long
+const CONCURRENCY_RETRY_MS = 1000
+
+let rules: Array<CompiledRule> = []
 
-  if (!state.lastRequestTimestamp) {
-    state.lastRequestTimestamp = now
-    return
+// The `--rate-limit` flag, kept as a one-request bucket per interval
+let legacy: { seconds: number; rule: CompiledRule } | undefined
+
+// Woken whenever a concurrency slot frees up
+const releaseListeners = new Set<() => void>()
+
+/**
+ * Converts each `rate_limits` entry into per-millisecond refill rates with
+ * empty buckets, so a reload starts every limit full again.
+ */
+export function compileRateLimits(
+  config: Array<RateLimitRule> | undefined,
+): Array<CompiledRule> {
+  if (config !== undefined && !Array.isArray(config)) {
+    throw new TypeError("rate_limits must be an array")
   }
+  return (config ?? []).map((rule, index) => compileRule(rule, index))
+}
 
-  const elapsedSeconds = (now - state.lastRequestTimestamp) / 1000
+export function setRateLimits(compiled: Array<CompiledRule>): void {
+  rules = compiled
+}
 
-  if (elapsedSeconds > state.rateLimitSeconds) {
-    state.lastRequestTimestamp = now
-    return
+function compileRule(rule: RateLimitRule, index: number): CompiledRule {
+  const number = (name: NumericSetting) => {
+    const value = rule[name]
+    if (value !== undefined && (typeof value !== "number" || !(value > 0))) {
+      throw new TypeError(`rate_limits.${index}.${name} must be positive`)
+    }
+    return value
   }
+  const scope = rule.scope ?? "global"
+  if (!SCOPES.has(scope)) {
+    throw new TypeError(
+      `rate_limits.${index}.scope must be global, model or client`,
+    )
+  }
+  const requestsPerMinute = number("requests_per_minute")
+  const tokensPerMinute = number("tokens_per_minute")
+
+  return {
+    name: `rate_limits.${index}`,
+    scope,
+    model: rule.model,
+    requests:
+      requestsPerMinute === undefined ? undefined : (
+        {
+          capacity: number("burst") ?? requestsPerMinute,
+          perMs: requestsPerMinute / MINUTE_MS,
+        }
+      ),
+    tokens:
+      tokensPerMinute === undefined ? undefined : (
+        { capacity: tokensPerMinute, perMs: tokensPerMinute / MINUTE_MS }
+      ),
+    maxConcurrent: number("max_concurrent"),
+    requestBuckets: new Map(),
+    tokenBuckets: new Map(),
+    active: new Map(),
+  }
+}
+
+function activeRules(): Array<CompiledRule> {
+  const seconds = state.rateLimitSeconds
+  if (seconds === undefined) return rules
+  if (legacy?.seconds !== seconds) {
+    legacy = {
+      seconds,
+      rule: {
+        ...compileRule({}, 0),
+        name: "--rate-limit",
+        requests: { capacity: 1, perMs: 1 / (seconds * 1000) },
+      },
+    }
+  }
+  return [...rules, legacy.rule]
+}
+
+/**
+ * Identifies the caller for `client`-scoped limits: an explicit
+ * `x-client-id`, else the credential it sent. Credentials are only used as
+ * map keys and never logged.
+ */
+export function clientId(c: Context): string {
+  return (
+    c.req.header("x-client-id")
+    ?? c.req.header("x-api-key")
+    ?? c.req.header("authorization")
+    ?? "anonymous"
+  )
+}
 
-  const waitTimeSeconds = Math.ceil(state.rateLimitSeconds - elapsedSeconds)
+/**
+ * Takes a request slot, a concurrency slot and the request's estimated
+ * tokens from every matching limit, or none of them. Throws a 429 with
+ * `Retry-After` when a limit is exhausted, unless waiting is enabled. The
+ * returned function gives the concurrency slots back and is safe to call
+ * more than once.
+ */
+export async function acquireRateLimit(
+  request: RateLimitRequest,
+  options?: AcquireRateLimitOptions,
+): Promise<() => void> {
+  const wait = options?.wait ?? state.rateLimitWait
+  let cost: number | undefined
+
+  for (;;) {
+    const matching = activeRules().filter(
+      (rule) => rule.model === undefined || rule.model === request.model,
+    )
+    if (matching.length === 0) return () => {}
+    if (cost === undefined && matching.some((rule) => rule.tokens)) {
+      cost = await estimateTokens(request)
+    }
+
+    const result = tryAcquire(matching, request, cost ?? 0)
+    if (typeof result === "function") return result
+
+    const seconds = Math.ceil(result.waitMs / 1000)
+    if (!wait) {
+      consola.warn(
+        `Rate limit exceeded (${result.rule}). Need to wait ${seconds} more seconds.`,
+      )
+      throw new HTTPError(
+        "Rate limit exceeded",
+        Response.json(
+          { message: "Rate limit exceeded" },
+          { status: 429, headers: { "retry-after": String(seconds) } },
+        ),
+      )
+    }
 
-  if (!state.rateLimitWait) {
     consola.warn(
-      `Rate limit exceeded. Need to wait ${waitTimeSeconds} more seconds.`,
+      `Rate limit reached (${result.rule}). Waiting up to ${seconds} seconds before proceeding...`,
     )
-    throw new HTTPError(
-      "Rate limit exceeded",
-      Response.json({ message: "Rate limit exceeded" }, { status: 429 }),
+    await waitForCapacity(result.waitMs)
+  }
+}
+
+/**
+ * Applies the rate limits to a proxied request. The limits are held until
+ * the response, including a streamed body, has been sent.
+ */
+export async function checkRateLimit(
+  c: Context,
+  payload: ChatCompletionsPayload,
+): Promise<void> {
+  const release = await acquireRateLimit({
+    model: payload.model,
+    client: clientId(c),
+    payload,
+  })
+  holdUntilSent(c, release)
+}
+
+// Checks every limit before touching any, so a request either passes all
+// of them or consumes nothing. There are no awaits in here, which keeps
+// concurrent requests from racing for the same capacity.
+function tryAcquire(
+  matching: Array<CompiledRule>,
+  request: RateLimitRequest,
+  cost: number,
+): (() => void) | { rule: string; waitMs: number } {
+  const taken = matching.map((rule) => {
+    const key = scopeKey(rule, request)
+    return {
+      rule,
+      key,
+      requests:
+        rule.requests && refill(rule.requestBuckets, key, rule.requests),
+      tokens: rule.tokens && refill(rule.tokenBuckets, key, rule.tokens),
+      // A prompt bigger than the whole bucket would never fit, so it waits
+      // for a full bucket instead
+      cost: rule.tokens ? Math.min(cost, rule.tokens.capacity) : 0,
+    }
+  })
+
+  for (const { rule, key, requests, tokens, cost: tokenCost } of taken) {
+    const waitMs = Math.max(
+      requests && rule.requests ?
+        (1 - requests.level) / rule.requests.perMs
+      : 0,
+      tokens && rule.tokens ?
+        (tokenCost - tokens.level) / rule.tokens.perMs
+      : 0,
+      (
+        rule.maxConcurrent !== undefined
+          && (rule.active.get(key) ?? 0) >= rule.maxConcurrent
+      ) ?
+        CONCURRENCY_RETRY_MS
+      : 0,
     )
+    if (waitMs > 0) return { rule: rule.name, waitMs }
+  }
+
+  for (const { rule, key, requests, tokens, cost: tokenCost } of taken) {
+    if (requests) requests.level -= 1
+    if (tokens) tokens.level -= tokenCost
+    rule.active.set(key, (rule.active.get(key) ?? 0) + 1)
   }
 
-  const waitTimeMs = waitTimeSeconds * 1000
-  consola.warn(
-    `Rate limit reached. Waiting ${waitTimeSeconds} seconds before proceeding...`,
+  let released = false
+  return () => {
+    if (released) return
+    released = true
+    for (const { rule, key } of taken) {
+      const active = (rule.active.get(key) ?? 1) - 1
+      if (active > 0) rule.active.set(key, active)
+      else rule.active.delete(key)
+    }
+    for (const listener of releaseListeners) listener()
+  }
+}
+
+function scopeKey(rule: CompiledRule, request: RateLimitRequest): string {
+  switch (rule.scope) {
+    case "model": {
+      return request.model
+    }
+    case "client": {
+      return request.client
+    }
+    default: {
+      return ""
+    }
+  }
+}
+
+function refill(
+  buckets: Map<string, Bucket>,
+  key: string,
+  limit: { capacity: number; perMs: number },
+): Bucket {
+  const now = Date.now()
+  let bucket = buckets.get(key)
+  if (!bucket) {
+    bucket = { level: limit.capacity, updatedAt: now }
+    buckets.set(key, bucket)
+  }
+  bucket.level = Math.min(
+    limit.capacity,
+    bucket.level + (now - bucket.updatedAt) * limit.perMs,
   )
-  await sleep(waitTimeMs)
-  // eslint-disable-next-line require-atomic-updates
-  state.lastRequestTimestamp = now
-  consola.info("Rate limit wait completed, proceeding with request")
-  return
+  bucket.updatedAt = now
+  return bucket
+}
+
+async function estimateTokens(request: RateLimitRequest): Promise<number> {
+  const model = state.models?.data.find((m) => m.id === request.model)
+  if (!request.payload || !model) return 0
+  try {
+    const count = await getTokenCount(request.payload, model)
+    return count.input + count.output
+  } catch (error) {
+    consola.warn("Failed to estimate tokens for rate limiting:", error)
+    return 0
+  }
+}
+
+// Sleeps until the limit should have room again, or a concurrency slot is
+// given back, whichever comes first
+function waitForCapacity(ms: number) {
+  return new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      releaseListeners.delete(done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    releaseListeners.add(done)
+  })
 }
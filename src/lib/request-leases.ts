@@ -0,0 +1,65 @@
+import type { Context, MiddlewareHandler } from "hono"
+
+// Rate-limit and queue slots a request holds until its response has gone
+// out, keyed by the request
+
+const leases = new WeakMap<Request, Array<() => void>>()
+
+/** Keeps `release` pending until the response to `c` has been sent. */
+export function holdUntilSent(c: Context, release: () => void): void {
+  const held = leases.get(c.req.raw)
+  if (held) held.push(release)
+  else leases.set(c.req.raw, [release])
+}
+
+/**
+ * Runs the releases registered with `holdUntilSent` once the response body
+ * has been fully read or cancelled, so streams keep their slots until the
+ * last chunk.
+ */
+export const releaseWhenSent: MiddlewareHandler = async (c, next) => {
+  try {
+    await next()
+  } finally {
+    const held = leases.get(c.req.raw)
+    if (held) {
+      leases.delete(c.req.raw)
+      const release = () => {
+        for (const fn of held.splice(0)) fn()
+      }
+      const body = c.res.body
+      if (body) {
+        c.res = new Response(releaseOnClose(body, release), c.res)
+      } else {
+        release()
+      }
+    }
+  }
+}
+
+function releaseOnClose(
+  body: ReadableStream<Uint8Array>,
+  release: () => void,
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader()
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          release()
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        release()
+        controller.error(error)
+      }
+    },
+    async cancel(reason) {
+      release()
+      await reader.cancel(reason)
+    },
+  })
+}
@@ -0,0 +1,255 @@
+import type { Context } from "hono"
+
+import consola from "consola"
+
+import {
+  isAgentCall,
+  type ChatCompletionsPayload,
+} from "~/services/copilot/create-chat-completions"
+
+import { HTTPError } from "./error"
+import { acquireRateLimit, type RateLimitRequest } from "./rate-limit"
+import { holdUntilSent } from "./request-leases"
+
+/**
+ * The `queue` config section. Once `max_concurrent` requests are with
+ * Copilot, further requests wait their turn, interactive ones first, then
+ * agent ones, then background jobs. Without `max_concurrent` nothing is
+ * queued.
+ */
+export interface RequestQueueConfig {
+  max_concurrent?: number
+  max_depth?: number
+  timeout_ms?: number
+}
+
+export type Priority = "interactive" | "agent" | "background"
+
+interface RequestQueue {
+  maxConcurrent?: number
+  maxDepth: number
+  timeoutMs: number
+}
+
+interface Waiter {
+  priority: Priority
+  admit: () => void
+}
+
+interface QueueOptions {
+  // Background jobs wait as long as it takes, however deep the queue
+  wait?: boolean
+  signal?: AbortSignal
+}
+
+interface QueueTicket {
+  release: () => void
+  // 1-based place in the queue on arrival; 0 when it went straight through
+  position: number
+  waitMs: number
+}
+
+const RANKS: Record<Priority, number> = {
+  interactive: 0,
+  agent: 1,
+  background: 2,
+}
+
+// Values accepted in the `x-priority` and `x-initiator` request headers
+const HEADER_PRIORITIES: Record<string, Priority | undefined> = {
+  interactive: "interactive",
+  user: "interactive",
+  agent: "agent",
+  background: "background",
+  batch: "background",
+}
+
+let queue: RequestQueue = compileRequestQueue(undefined)
+let active = 0
+
+// Kept sorted by priority, first come first served within a priority
+const waiting: Array<Waiter> = []
+
+/**
+ * Reads the `queue` section, defaulting to 100 waiting requests and a
+ * one-minute wait. Without `max_concurrent` the queue stays open.
+ */
+export function compileRequestQueue(
+  config: RequestQueueConfig | undefined,
+): RequestQueue {
+  const number = (name: keyof RequestQueueConfig) => {
+    const value = config?.[name]
+    if (value !== undefined && (typeof value !== "number" || !(value > 0))) {
+      throw new TypeError(`queue.${name} must be positive`)
+    }
+    return value
+  }
+
+  return {
+    maxConcurrent: number("max_concurrent"),
+    maxDepth: number("max_depth") ?? 100,
+    timeoutMs: number("timeout_ms") ?? 60_000,
+  }
+}
+
+export function setRequestQueue(compiled: RequestQueue): void {
+  queue = compiled
+  // A higher limit lets waiting requests go now
+  admitWaiting()
+}
+
+/**
+ * Priority from the `x-priority` header, then the `x-initiator` header,
+ * then the same agent/user heuristic used for Copilot's X-Initiator.
+ */
+export function requestPriority(
+  c: Context,
+  payload: ChatCompletionsPayload,
+): Priority {
+  const header = c.req.header("x-priority") ?? c.req.header("x-initiator")
+  const priority = header && HEADER_PRIORITIES[header.toLowerCase()]
+  if (priority) return priority
+  return isAgentCall(payload) ? "agent" : "interactive"
+}
+
+/**
+ * Waits for one of the `max_concurrent` upstream slots. Throws a 503 with
+ * `Retry-After` when the queue is already `max_depth` deep or the wait
+ * passes `timeout_ms`, unless `wait` is set. Slots are only counted while a
+ * limit is configured, for proxied requests and background jobs alike, so
+ * requests already in flight when a limit is first set don't count against
+ * it.
+ */
+export function enterQueue(
+  priority: Priority,
+  options: QueueOptions = {},
+): Promise<QueueTicket> {
+  const { maxConcurrent, maxDepth, timeoutMs } = queue
+  if (maxConcurrent === undefined) {
+    return Promise.resolve({ release: () => {}, position: 0, waitMs: 0 })
+  }
+  if (active < maxConcurrent) {
+    active += 1
+    return Promise.resolve({ release: leave(), position: 0, waitMs: 0 })
+  }
+  if (!options.wait && waiting.length >= maxDepth) {
+    consola.warn(
+      `Request queue full (${waiting.length} waiting), rejecting ${priority} request`,
+    )
+    return Promise.reject(queueError("Request queue is full"))
+  }
+
+  const enqueuedAt = Date.now()
+  const index = waiting.findIndex((w) => RANKS[w.priority] > RANKS[priority])
+  const position = index === -1 ? waiting.length + 1 : index + 1
+
+  return new Promise<QueueTicket>((resolve, reject) => {
+    const remove = () => {
+      clearTimeout(timer)
+      options.signal?.removeEventListener("abort", abort)
+      waiting.splice(waiting.indexOf(waiter), 1)
+    }
+    const waiter: Waiter = {
+      priority,
+      admit: () => {
+        clearTimeout(timer)
+        options.signal?.removeEventListener("abort", abort)
+        const waitMs = Date.now() - enqueuedAt
+        consola.info(
+          `Dequeued ${priority} request after ${waitMs}ms (queued at position ${position})`,
+        )
+        resolve({ release: leave(), position, waitMs })
+      },
+    }
+    const timer =
+      options.wait ? undefined : (
+        setTimeout(() => {
+          remove()
+          consola.warn(
+            `${priority} request timed out after ${timeoutMs}ms in the request queue`,
+          )
+          reject(queueError("Timed out in the request queue"))
+        }, timeoutMs)
+      )
+    const abort = () => {
+      remove()
+      reject(options.signal?.reason as Error)
+    }
+
+    waiting.splice(position - 1, 0, waiter)
+    options.signal?.addEventListener("abort", abort, { once: true })
+    consola.info(
+      `Queued ${priority} request at position ${position} (${waiting.length} waiting, ${active} in flight)`,
+    )
+  })
+}
+
+/**
+ * Queues a proxied request by its priority and reports the outcome in the
+ * `x-proxy-priority`, `x-proxy-queue-position` and `x-proxy-queue-wait-ms`
+ * response headers. The slot is held until the response has been sent.
+ */
+export async function queueRequest(
+  c: Context,
+  payload: ChatCompletionsPayload,
+): Promise<void> {
+  const priority = requestPriority(c, payload)
+  const ticket = await enterQueue(priority, { signal: c.req.raw.signal })
+  holdUntilSent(c, ticket.release)
+  c.header("x-proxy-priority", priority)
+  c.header("x-proxy-queue-position", String(ticket.position))
+  c.header("x-proxy-queue-wait-ms", String(ticket.waitMs))
+}
+
+/**
+ * Runs a background job's upstream call once it fits the rate limits and
+ * has a queue slot, waiting for both rather than failing.
+ */
+export async function runInBackground<T>(
+  request: RateLimitRequest,
+  run: () => Promise<T>,
+): Promise<T> {
+  const releaseRateLimit = await acquireRateLimit(request, { wait: true })
+  try {
+    const ticket = await enterQueue("background", { wait: true })
+    try {
+      return await run()
+    } finally {
+      ticket.release()
+    }
+  } finally {
+    releaseRateLimit()
+  }
+}
+
+// Frees the slot for the next waiter; safe to call more than once
+function leave(): () => void {
+  let left = false
+  return () => {
+    if (left) return
+    left = true
+    active -= 1
+    admitWaiting()
+  }
+}
+
+function admitWaiting(): void {
+  const { maxConcurrent } = queue
+  while (
+    waiting.length > 0
+    && (maxConcurrent === undefined || active < maxConcurrent)
+  ) {
+    active += 1
+    waiting.shift()?.admit()
+  }
+}
+
+function queueError(message: string): HTTPError {
+  return new HTTPError(
+    message,
+    Response.json(
+      { message },
+      { status: 503, headers: { "retry-after": "1" } },
+    ),
+  )
+}
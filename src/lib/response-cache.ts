@@ -0,0 +1,286 @@
+import type { Context } from "hono"
+
+import consola from "consola"
+import { type ServerSentEventMessage } from "fetch-event-stream"
+import { createHash } from "node:crypto"
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import {
+  createChatCompletions,
+  type ChatCompletionChunk,
+  type ChatCompletionResponse,
+  type ChatCompletionsPayload,
+} from "~/services/copilot/create-chat-completions"
+
+import { readJsonFile, writeJsonFile } from "./json-files"
+import { setResolvedModelHeader } from "./model-aliases"
+import { PATHS } from "./paths"
+import { state } from "./state"
+
+// Exact-match cache of chat completions for deterministic requests. Each
+// response is one JSON file named by the hash of the canonicalized payload
+// and stamped with its expiry. Streamed requests are answered from the same
+// entries by replaying the stored response as chunks.
+
+export type CachedCompletion =
+  | Awaited<ReturnType<typeof createChatCompletions>>
+  | Array<ServerSentEventMessage>
+
+interface CachedCompletionOptions {
+  signal?: AbortSignal
+  // Runs the completion in place of a plain `createChatCompletions` call
+  complete?: typeof createChatCompletions
+}
+
+interface ResponseCacheEntry {
+  expires_at: number
+  response: ChatCompletionResponse
+}
+
+// Fields that change how a response is delivered but not what it says
+const DELIVERY_FIELDS = new Set(["stream", "stream_options", "user"])
+
+const entryPath = (key: string) =>
+  path.join(PATHS.RESPONSE_CACHE_DIR, `${key}.json`)
+
+/**
+ * Only explicitly deterministic requests are cached: `temperature: 0` and a
+ * single choice.
+ */
+function isCacheableRequest(payload: ChatCompletionsPayload): boolean {
+  return (
+    state.responseCacheTtlSeconds > 0
+    && payload.temperature === 0
+    && (payload.n ?? 1) === 1
+  )
+}
+
+/**
+ * Hashes the payload with its keys sorted and empty fields dropped, so
+ * requests that differ only in field order or explicit nulls share an entry.
+ */
+export function responseCacheKey(payload: ChatCompletionsPayload): string {
+  const content = Object.fromEntries(
+    Object.entries(payload).filter(([key]) => !DELIVERY_FIELDS.has(key)),
+  )
+  return createHash("sha256")
+    .update(JSON.stringify(canonicalize(content)))
+    .digest("hex")
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map((item) => canonicalize(item))
+  if (typeof value !== "object" || value === null) return value
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, item]) => item !== null && item !== undefined)
+      .toSorted(([a], [b]) => (a < b ? -1 : 1))
+      .map(([key, item]) => [key, canonicalize(item)]),
+  )
+}
+
+/**
+ * Removes expired entries left over from earlier runs. Called once on
+ * startup when `state.responseCacheTtlSeconds` is set.
+ */
+export async function initResponseCache(): Promise<void> {
+  if (state.responseCacheTtlSeconds <= 0) return
+
+  await fs.mkdir(PATHS.RESPONSE_CACHE_DIR, { recursive: true })
+  const files = await fs.readdir(PATHS.RESPONSE_CACHE_DIR)
+  let kept = 0
+  for (const file of files) {
+    if (!file.endsWith(".json")) continue
+    const entry = await readEntry(file.slice(0, -".json".length))
+    if (entry) kept++
+  }
+  consola.info(`Response cache: ${kept} entries`)
+}
+
+async function getCachedResponse(
+  key: string,
+): Promise<ChatCompletionResponse | undefined> {
+  return (await readEntry(key))?.response
+}
+
+async function readEntry(key: string): Promise<ResponseCacheEntry | undefined> {
+  let entry: ResponseCacheEntry
+  try {
+    entry = await readJsonFile<ResponseCacheEntry>(entryPath(key))
+  } catch {
+    return undefined
+  }
+  if (entry.expires_at > Date.now()) {
+    return entry
+  }
+  await fs.rm(entryPath(key), { force: true })
+  return undefined
+}
+
+async function cacheResponse(
+  key: string,
+  response: ChatCompletionResponse,
+): Promise<void> {
+  await fs.mkdir(PATHS.RESPONSE_CACHE_DIR, { recursive: true })
+  const entry: ResponseCacheEntry = {
+    expires_at: Date.now() + state.responseCacheTtlSeconds * 1000,
+    response,
+  }
+  await writeJsonFile(entryPath(key), entry)
+}
+
+/**
+ * Looks a cacheable request up in the response cache, reporting `hit` or
+ * `miss` in the `x-proxy-cache` header. `Cache-Control: no-cache` skips the
+ * lookup. Handlers call this before the rate limits and the request queue,
+ * since a hit never reaches Copilot.
+ */
+export async function getCachedCompletion(
+  c: Context,
+  payload: ChatCompletionsPayload,
+): Promise<CachedCompletion | undefined> {
+  if (!isCacheableRequest(payload)) return undefined
+
+  const bypass = /\bno-cache\b/i.test(c.req.header("cache-control") ?? "")
+  const cached =
+    bypass ? undefined : await getCachedResponse(responseCacheKey(payload))
+  c.header("x-proxy-cache", cached ? "hit" : "miss")
+  return cached && deliver(payload, cached)
+}
+
+/**
+ * Calls `createChatCompletions`, or `complete` when given, and stores the
+ * answer to a cacheable request. Those are always answered upstream without
+ * streaming so the full response can be stored; a streaming client gets it
+ * replayed as chunks. A fallback model is reported in
+ * `x-proxy-resolved-model`, and its answer isn't cached in place of the
+ * requested model's.
+ */
+export async function createCachedChatCompletions(
+  c: Context,
+  payload: ChatCompletionsPayload,
+  { signal, complete = createChatCompletions }: CachedCompletionOptions = {},
+): Promise<CachedCompletion> {
+  const options = {
+    signal,
+    complete,
+    onFallback: (model: string) => setResolvedModelHeader(c, model),
+  }
+  if (!isCacheableRequest(payload)) {
+    return complete(payload, options)
+  }
+
+  const key = responseCacheKey(payload)
+  return deliver(payload, await fetchAndCache(key, payload, options))
+}
+
+function deliver(
+  payload: ChatCompletionsPayload,
+  response: ChatCompletionResponse,
+): CachedCompletion {
+  return payload.stream ?
+      replayAsStream(response, payload.stream_options?.include_usage ?? false)
+    : response
+}
+
+async function fetchAndCache(
+  key: string,
+  payload: ChatCompletionsPayload,
+  options: {
+    signal?: AbortSignal
+    complete: typeof createChatCompletions
+    onFallback: (model: string) => void
+  },
+): Promise<ChatCompletionResponse> {
+  const fallbacks: Array<string> = []
+  const response = (await options.complete(
+    { ...payload, stream: false, stream_options: undefined },
+    {
+      signal: options.signal,
+      onFallback: (model) => {
+        fallbacks.push(model)
+        options.onFallback(model)
+      },
+    },
+  )) as ChatCompletionResponse
+  if (fallbacks.length > 0) {
+    return response
+  }
+
+  try {
+    await cacheResponse(key, response)
+  } catch (error) {
+    consola.warn("Failed to write to the response cache:", error)
+  }
+  return response
+}
+
+/**
+ * Turns a complete response into the events a stream of it would have
+ * carried: one delta with the message text, one with its tool calls, the
+ * finish reason, and a usage chunk when the client asked for one.
+ */
+function replayAsStream(
+  response: ChatCompletionResponse,
+  includeUsage: boolean,
+): Array<ServerSentEventMessage> {
+  const chunk = (
+    choices: ChatCompletionChunk["choices"],
+    usage?: ChatCompletionChunk["usage"],
+  ): ServerSentEventMessage => {
+    const data: ChatCompletionChunk = {
+      id: response.id,
+      object: "chat.completion.chunk",
+      created: response.created,
+      model: response.model,
+      choices,
+      system_fingerprint: response.system_fingerprint,
+      usage,
+    }
+    return { data: JSON.stringify(data) }
+  }
+
+  const messages: Array<ServerSentEventMessage> = []
+  for (const choice of response.choices) {
+    const { message } = choice
+    const base = { index: choice.index, logprobs: null, finish_reason: null }
+    messages.push(
+      chunk([
+        {
+          ...base,
+          delta: {
+            role: "assistant",
+            reasoning_text: message.reasoning_text ?? undefined,
+            reasoning_opaque: message.reasoning_opaque ?? undefined,
+            content: message.content ?? undefined,
+          },
+        },
+      ]),
+    )
+    if (message.tool_calls?.length) {
+      messages.push(
+        chunk([
+          {
+            ...base,
+            delta: {
+              tool_calls: message.tool_calls.map((toolCall, index) => ({
+                index,
+                ...toolCall,
+              })),
+            },
+          },
+        ]),
+      )
+    }
+    messages.push(
+      chunk([{ ...base, delta: {}, finish_reason: choice.finish_reason }]),
+    )
+  }
+
+  if (includeUsage && response.usage) {
+    messages.push(chunk([], response.usage))
+  }
+  messages.push({ data: "[DONE]" })
+  return messages
+}
@@ -0,0 +1,178 @@
+import consola from "consola"
+
+/**
+ * Retry policy for Copilot calls, from the `retry` config section.
+ * `max_attempts` counts the first try, and `budget_ms` caps the total time a
+ * single request may spend waiting between attempts.
+ */
+export interface RetryConfig {
+  max_attempts?: number
+  base_delay_ms?: number
+  max_delay_ms?: number
+  budget_ms?: number
+  status_codes?: Array<number>
+  network_errors?: boolean
+}
+
+type NumericSetting =
+  | "max_attempts"
+  | "base_delay_ms"
+  | "max_delay_ms"
+  | "budget_ms"
+
+interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  budgetMs: number
+  statusCodes: Set<number>
+  networkErrors: boolean
+}
+
+// Failures that say nothing about the request itself, so sending it again
+// is safe
+const DEFAULT_STATUS_CODES = [429, 502, 503, 504]
+
+let policy: RetryPolicy = compileRetryPolicy(undefined)
+
+/**
+ * Merges the `retry` section over the defaults. `max_attempts` is raised to
+ * at least 1, as the first try always happens.
+ */
+export function compileRetryPolicy(
+  config: RetryConfig | undefined,
+): RetryPolicy {
+  const number = (name: NumericSetting, fallback: number) => {
+    const value = config?.[name] ?? fallback
+    if (typeof value !== "number" || !(value >= 0)) {
+      throw new TypeError(`retry.${name} must be a non-negative number`)
+    }
+    return value
+  }
+  const statusCodes = config?.status_codes ?? DEFAULT_STATUS_CODES
+  if (!statusCodes.every((code) => Number.isInteger(code))) {
+    throw new TypeError("retry.status_codes must be integers")
+  }
+
+  return {
+    maxAttempts: Math.max(number("max_attempts", 3), 1),
+    baseDelayMs: number("base_delay_ms", 500),
+    maxDelayMs: number("max_delay_ms", 8000),
+    budgetMs: number("budget_ms", 20_000),
+    statusCodes: new Set(statusCodes),
+    networkErrors: config?.network_errors ?? true,
+  }
+}
+
+export function setRetryPolicy(compiled: RetryPolicy): void {
+  policy = compiled
+}
+
+/**
+ * `fetch` with retries on the policy's status codes and, optionally, network
+ * errors. Waits follow `Retry-After` when Copilot sends it and jittered
+ * exponential backoff otherwise. Only the response status is awaited, so a
+ * stream is never retried once its body is being read. Once attempts or the
+ * budget run out the last response is returned, or the last error thrown.
+ */
+export async function fetchWithRetry(
+  label: string,
+  url: string,
+  init: RequestInit,
+): Promise<Response> {
+  const current = policy
+  let waited = 0
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response
+    try {
+      response = await fetch(url, init)
+    } catch (error) {
+      const delay = retryDelay(current, { attempt, waited })
+      if (
+        init.signal?.aborted
+        || !current.networkErrors
+        || delay === undefined
+      ) {
+        throw error
+      }
+      consola.warn(
+        `${label}: attempt ${attempt} failed (${(error as Error).message}), retrying in ${delay}ms`,
+      )
+      await wait(delay, init.signal)
+      waited += delay
+      continue
+    }
+
+    // First-try successes, the usual case, aren't worth a log line
+    if (response.ok && attempt === 1) return response
+    const requestId = response.headers.get("x-request-id") ?? "none"
+    if (response.ok || !current.statusCodes.has(response.status)) {
+      consola.info(
+        `${label}: attempt ${attempt} returned ${response.status} (x-request-id: ${requestId})`,
+      )
+      return response
+    }
+
+    const delay = retryDelay(current, {
+      attempt,
+      waited,
+      retryAfter: response.headers.get("retry-after"),
+    })
+    if (delay === undefined) {
+      consola.warn(
+        `${label}: attempt ${attempt} failed with ${response.status} (x-request-id: ${requestId}), giving up`,
+      )
+      return response
+    }
+    consola.warn(
+      `${label}: attempt ${attempt} failed with ${response.status} (x-request-id: ${requestId}), retrying in ${delay}ms`,
+    )
+    await response.body?.cancel()
+    await wait(delay, init.signal)
+    waited += delay
+  }
+}
+
+// Undefined once attempts or the budget are used up
+function retryDelay(
+  current: RetryPolicy,
+  attempt: { attempt: number; waited: number; retryAfter?: string | null },
+): number | undefined {
+  if (attempt.attempt >= current.maxAttempts) return undefined
+
+  const backoff = Math.min(
+    current.maxDelayMs,
+    current.baseDelayMs * 2 ** (attempt.attempt - 1),
+  )
+  const delay =
+    parseRetryAfter(attempt.retryAfter) ?? Math.round(Math.random() * backoff)
+  return attempt.waited + delay <= current.budgetMs ? delay : undefined
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0)
+}
+
+function wait(ms: number, signal: AbortSignal | null | undefined) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason as Error)
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", abort)
+      resolve()
+    }, ms)
+    const abort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason as Error)
+    }
+    signal?.addEventListener("abort", abort, { once: true })
+  })
+}
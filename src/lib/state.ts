@@ -8,13 +8,27 @@ export interface State {
   models?: ModelsResponse
   vsCodeVersion?: string
 
+  // Config file to load instead of the one in the app directory
+  configPath?: string
+
   manualApprove: boolean
   rateLimitWait: boolean
   showToken: boolean
 
-  // Rate limiting configuration
+  // Minimum seconds between requests, from --rate-limit
   rateLimitSeconds?: number
-  lastRequestTimestamp?: number
+
+  // Number of batch requests processed in parallel
+  batchConcurrency: number
+
+  // Extra attempts when output fails its json_schema response_format
+  structuredOutputRetries: number
+
+  // Size cap of the on-disk embeddings cache; 0 disables it
+  embeddingsCacheBytes: number
+
+  // Lifetime of cached deterministic chat responses; 0 disables the cache
+  responseCacheTtlSeconds: number
 }
 
 export const state: State = {
@@ -22,4 +36,8 @@ export const state: State = {
   manualApprove: false,
   rateLimitWait: false,
   showToken: false,
+  batchConcurrency: 4,
+  structuredOutputRetries: 2,
+  embeddingsCacheBytes: 0,
+  responseCacheTtlSeconds: 0,
 }
@@ -21,6 +21,7 @@ type SupportedEncoding = keyof typeof ENCODING_MAP
 // Define encoder interface
 interface Encoder {
   encode: (text: string) => Array<number>
+  decode: (tokens: Iterable<number>) => string
 }
 
 // Cache loaded encoders to avoid repeated imports
@@ -146,6 +147,19 @@ export const getTokenizerFromModel = (model: Model): string => {
   return model.capabilities.tokenizer || "o200k_base"
 }
 
+/**
+ * Turn token ids back into text, using the model's tokenizer when known
+ */
+export const decodeTokens = async (
+  tokens: Array<number>,
+  model: Model | undefined,
+): Promise<string> => {
+  const encoder = await getEncodeChatFunction(
+    model ? getTokenizerFromModel(model) : "o200k_base",
+  )
+  return encoder.decode(tokens)
+}
+
 /**
  * Get model-specific constants for token calculation
  */
@@ -0,0 +1,73 @@
+import type { Context } from "hono"
+
+import consola from "consola"
+
+let cancelledRequests = 0
+
+export const getCancelledRequests = () => cancelledRequests
+
+export interface UpstreamAbort {
+  // Passed to the Copilot request so it stops when the client goes away
+  signal: AbortSignal
+  // Cancels the upstream request, e.g. when the downstream stream closes
+  cancel: () => void
+  // Marks the exchange complete, so a disconnect afterwards is not counted
+  finish: () => void
+  // Ends the upstream request once the proxy needs no more of it, without
+  // counting it as a cancellation
+  stop: () => void
+}
+
+/**
+ * Ties an upstream Copilot request to the client connection. Without this a
+ * client that hangs up leaves the proxy consuming the Copilot response,
+ * burning quota and holding up shutdown drains.
+ */
+export function createUpstreamAbort(c: Context): UpstreamAbort {
+  const controller = new AbortController()
+  const clientSignal = c.req.raw.signal
+  let finished = false
+
+  const cancel = () => {
+    if (finished || controller.signal.aborted) return
+    cancelledRequests += 1
+    consola.info(
+      `Client disconnected, cancelled upstream request for ${c.req.method} ${c.req.path} (${cancelledRequests} cancelled since start)`,
+    )
+    controller.abort()
+  }
+
+  const finish = () => {
+    finished = true
+    clientSignal.removeEventListener("abort", cancel)
+  }
+
+  const stop = () => {
+    finish()
+    controller.abort()
+  }
+
+  if (clientSignal.aborted) {
+    cancel()
+  } else {
+    clientSignal.addEventListener("abort", cancel, { once: true })
+  }
+
+  return { signal: controller.signal, cancel, finish, stop }
+}
+
+/**
+ * Runs a non-streaming upstream request that is cancelled if the client
+ * disconnects before it completes
+ */
+export async function withUpstreamAbort<T>(
+  c: Context,
+  request: (signal: AbortSignal) => Promise<T>,
+): Promise<T> {
+  const upstream = createUpstreamAbort(c)
+  try {
+    return await request(upstream.signal)
+  } finally {
+    upstream.finish()
+  }
+}
@@ -1,5 +1,7 @@
 import consola from "consola"
 
+import type { ChatCompletionResponse } from "~/services/copilot/create-chat-completions"
+
 import { getModels } from "~/services/copilot/get-models"
 import { getVSCodeVersion } from "~/services/get-vscode-version"
 
@@ -13,6 +15,56 @@ export const sleep = (ms: number) =>
 export const isNullish = (value: unknown): value is null | undefined =>
   value === null || value === undefined
 
+// Tells a complete chat completion from a stream or replayed stream events
+export const isNonStreaming = (
+  response: object,
+): response is ChatCompletionResponse => Object.hasOwn(response, "choices")
+
+/**
+ * Runs `fn` over `items` with at most `limit` calls in flight at once
+ */
+export async function runWithConcurrency<T>(
+  items: Array<T>,
+  limit: number,
+  fn: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const item = items[next]
+      next += 1
+      await fn(item)
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker),
+  )
+}
+
+/**
+ * Anthropic-style cursor pagination over an ordered list: `after_id` pages
+ * forwards, `before_id` pages backwards, and `limit` is clamped to 1..1000
+ */
+export function paginateById<T extends { id: string }>(
+  items: Array<T>,
+  options: { limit?: string; afterId?: string; beforeId?: string },
+): { data: Array<T>; hasMore: boolean } {
+  const limit = Math.min(Math.max(Number(options.limit ?? 20) || 1, 1), 1000)
+
+  if (options.beforeId) {
+    const end = items.findIndex((item) => item.id === options.beforeId)
+    const before = end === -1 ? [] : items.slice(0, end)
+    return { data: before.slice(-limit), hasMore: before.length > limit }
+  }
+
+  let after = items
+  if (options.afterId) {
+    const start = items.findIndex((item) => item.id === options.afterId)
+    after = start === -1 ? [] : items.slice(start + 1)
+  }
+  return { data: after.slice(0, limit), hasMore: after.length > limit }
+}
+
 export async function cacheModels(): Promise<void> {
   const models = await getModels()
   state.models = models
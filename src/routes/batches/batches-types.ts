@@ -0,0 +1,74 @@
+// OpenAI Batch API Types
+
+export type BatchEndpoint = "/v1/chat/completions" | "/v1/embeddings"
+
+export interface BatchCreatePayload {
+  input_file_id: string
+  endpoint: BatchEndpoint
+  completion_window: "24h"
+  metadata?: Record<string, string> | null
+}
+
+export interface BatchError {
+  code: string
+  message: string
+  param?: string | null
+  line?: number | null
+}
+
+export type BatchStatus =
+  | "validating"
+  | "failed"
+  | "in_progress"
+  | "finalizing"
+  | "completed"
+  | "expired"
+  | "cancelling"
+  | "cancelled"
+
+export interface Batch {
+  id: string
+  object: "batch"
+  endpoint: BatchEndpoint
+  errors: { object: "list"; data: Array<BatchError> } | null
+  input_file_id: string
+  completion_window: "24h"
+  status: BatchStatus
+  output_file_id: string | null
+  error_file_id: string | null
+  created_at: number
+  in_progress_at: number | null
+  expires_at: number
+  finalizing_at: number | null
+  completed_at: number | null
+  failed_at: number | null
+  expired_at: number | null
+  cancelling_at: number | null
+  cancelled_at: number | null
+  request_counts: {
+    total: number
+    completed: number
+    failed: number
+  }
+  metadata: Record<string, string> | null
+}
+
+// One line of the input file
+export interface BatchRequestLine {
+  custom_id: string
+  method: "POST"
+  url: BatchEndpoint
+  body: Record<string, unknown>
+}
+
+// One line of the output or error file
+export interface BatchResponseLine {
+  id: string
+  custom_id: string
+  response: {
+    status_code: number
+    request_id: string
+    body: unknown
+  } | null
+  error: { code: string; message: string } | null
+}
@@ -0,0 +1,92 @@
+import type { Context } from "hono"
+
+import consola from "consola"
+
+import { HTTPError } from "~/lib/error"
+import { getFile } from "~/lib/file-store"
+
+import type { BatchCreatePayload } from "./batches-types"
+
+import {
+  cancelBatch,
+  getBatch,
+  listBatches,
+  submitBatch,
+  SUPPORTED_ENDPOINTS,
+} from "./runner"
+
+const DEFAULT_LIST_LIMIT = 20
+const MAX_LIST_LIMIT = 100
+
+export async function handleCreateBatch(c: Context) {
+  const payload = await c.req.json<BatchCreatePayload>()
+
+  if (!SUPPORTED_ENDPOINTS.has(payload.endpoint)) {
+    throw invalidRequest(
+      `Unsupported endpoint '${payload.endpoint}'. Supported endpoints: ${[...SUPPORTED_ENDPOINTS].join(", ")}`,
+    )
+  }
+  if ((payload.completion_window as string) !== "24h") {
+    throw invalidRequest("completion_window must be '24h'")
+  }
+  if (!(await getFile(payload.input_file_id))) {
+    throw new HTTPError(
+      "Input file not found",
+      Response.json(
+        { message: `No such File object: ${payload.input_file_id}` },
+        { status: 404 },
+      ),
+    )
+  }
+
+  const batch = await submitBatch(payload)
+  consola.info(`Created batch ${batch.id} for ${batch.endpoint}`)
+  return c.json(batch)
+}
+
+export function handleListBatches(c: Context) {
+  const after = c.req.query("after")
+  const limit = Math.min(
+    Math.max(Number(c.req.query("limit") ?? DEFAULT_LIST_LIMIT) || 1, 1),
+    MAX_LIST_LIMIT,
+  )
+
+  let batches = listBatches()
+  if (after) {
+    const start = batches.findIndex((batch) => batch.id === after)
+    batches = start === -1 ? [] : batches.slice(start + 1)
+  }
+
+  const data = batches.slice(0, limit)
+  return c.json({
+    object: "list",
+    data,
+    first_id: data.at(0)?.id ?? null,
+    last_id: data.at(-1)?.id ?? null,
+    has_more: batches.length > limit,
+  })
+}
+
+export function handleGetBatch(c: Context) {
+  const batch = getBatch(c.req.param("id"))
+  if (!batch) throw batchNotFound(c.req.param("id"))
+  return c.json(batch)
+}
+
+export async function handleCancelBatch(c: Context) {
+  const batch = await cancelBatch(c.req.param("id"))
+  if (!batch) throw batchNotFound(c.req.param("id"))
+  return c.json(batch)
+}
+
+const invalidRequest = (message: string) =>
+  new HTTPError(
+    "Invalid batch request",
+    Response.json({ message }, { status: 400 }),
+  )
+
+const batchNotFound = (id: string) =>
+  new HTTPError(
+    "Batch not found",
+    Response.json({ message: `No such Batch object: ${id}` }, { status: 404 }),
+  )
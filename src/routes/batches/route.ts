@@ -0,0 +1,38 @@
+import { Hono } from "hono"
+
+import { forwardError } from "~/lib/error"
+
+import {
+  handleCancelBatch,
+  handleCreateBatch,
+  handleGetBatch,
+  handleListBatches,
+} from "./handler"
+
+export const batchRoutes = new Hono()
+
+batchRoutes.post("/", async (c) => {
+  try {
+    return await handleCreateBatch(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+batchRoutes.get("/", (c) => handleListBatches(c))
+
+batchRoutes.get("/:id", async (c) => {
+  try {
+    return handleGetBatch(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+batchRoutes.post("/:id/cancel", async (c) => {
+  try {
+    return await handleCancelBatch(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
@@ -0,0 +1,417 @@
+import consola from "consola"
+import { randomUUID } from "node:crypto"
+
+import { createBatchJobs, runBatchJob } from "~/lib/batch-jobs"
+import { HTTPError } from "~/lib/error"
+import { createFile, readFileContent } from "~/lib/file-store"
+import { toJsonl } from "~/lib/json-files"
+import { resolveModel } from "~/lib/model-aliases"
+import { isNonStreaming } from "~/lib/utils"
+import {
+  createChatCompletions,
+  type ChatCompletionsPayload,
+} from "~/services/copilot/create-chat-completions"
+import {
+  createEmbeddings,
+  encodeEmbeddings,
+  type EmbeddingRequest,
+} from "~/services/copilot/create-embeddings"
+
+import type {
+  Batch,
+  BatchCreatePayload,
+  BatchError,
+  BatchRequestLine,
+  BatchResponseLine,
+  BatchStatus,
+} from "./batches-types"
+
+import {
+  appendBatchLog,
+  loadBatches,
+  readBatchLog,
+  saveBatch,
+  type BatchLog,
+} from "./store"
+
+export const SUPPORTED_ENDPOINTS = new Set<string>([
+  "/v1/chat/completions",
+  "/v1/embeddings",
+])
+
+const BATCH_EXPIRY_SECONDS = 24 * 60 * 60
+
+const STATUS_TIMESTAMPS: Partial<Record<BatchStatus, keyof Batch>> = {
+  in_progress: "in_progress_at",
+  finalizing: "finalizing_at",
+  completed: "completed_at",
+  failed: "failed_at",
+  expired: "expired_at",
+  cancelling: "cancelling_at",
+  cancelled: "cancelled_at",
+}
+
+// Where each result log ends up once the batch is finalized
+const RESULT_FILES = {
+  output: { field: "output_file_id", suffix: "output" },
+  errors: { field: "error_file_id", suffix: "error" },
+} as const
+
+type ResultFileField = (typeof RESULT_FILES)[BatchLog]["field"]
+
+const TERMINAL_STATUSES = new Set<BatchStatus>([
+  "failed",
+  "completed",
+  "expired",
+  "cancelled",
+])
+
+const jobs = createBatchJobs<Batch>({
+  label: "batch",
+  load: loadBatches,
+  isEnded: (batch) => TERMINAL_STATUSES.has(batch.status),
+  process: processBatch,
+})
+
+export const initBatches = jobs.init
+export const stopBatches = jobs.stop
+
+const now = () => Math.floor(Date.now() / 1000)
+
+export async function submitBatch(payload: BatchCreatePayload): Promise<Batch> {
+  const createdAt = now()
+  const batch: Batch = {
+    id: `batch_${randomUUID().replaceAll("-", "")}`,
+    object: "batch",
+    endpoint: payload.endpoint,
+    errors: null,
+    input_file_id: payload.input_file_id,
+    completion_window: payload.completion_window,
+    status: "validating",
+    output_file_id: null,
+    error_file_id: null,
+    created_at: createdAt,
+    in_progress_at: null,
+    expires_at: createdAt + BATCH_EXPIRY_SECONDS,
+    finalizing_at: null,
+    completed_at: null,
+    failed_at: null,
+    expired_at: null,
+    cancelling_at: null,
+    cancelled_at: null,
+    request_counts: { total: 0, completed: 0, failed: 0 },
+    metadata: payload.metadata ?? null,
+  }
+
+  await saveBatch(batch)
+  jobs.submit(batch)
+
+  return batch
+}
+
+export function getBatch(id: string): Batch | undefined {
+  return jobs.get(id)
+}
+
+// Newest first, like the OpenAI API
+export function listBatches(): Array<Batch> {
+  return jobs.all().sort((a, b) => b.created_at - a.created_at)
+}
+
+export async function cancelBatch(id: string): Promise<Batch | undefined> {
+  const batch = jobs.get(id)
+  if (
+    !batch
+    || (batch.status !== "validating" && batch.status !== "in_progress")
+  ) {
+    return batch
+  }
+
+  setStatus(batch, "cancelling")
+  await saveBatch(batch)
+  return batch
+}
+
+/**
+ * Parses and validates an input file. Every line must be a JSON request for
+ * the batch endpoint with a unique custom_id; line numbers are 1-based.
+ */
+export function parseBatchInput(
+  content: string,
+  endpoint: string,
+): { requests: Array<BatchRequestLine>; errors: Array<BatchError> } {
+  const requests: Array<BatchRequestLine> = []
+  const errors: Array<BatchError> = []
+  const customIds = new Set<string>()
+
+  for (const [index, rawLine] of content.split("\n").entries()) {
+    if (rawLine.trim().length === 0) continue
+    const line = index + 1
+
+    let request: UnvalidatedRequestLine
+    try {
+      request = JSON.parse(rawLine) as UnvalidatedRequestLine
+    } catch {
+      errors.push({ code: "invalid_json_line", message: "Invalid JSON", line })
+      continue
+    }
+
+    const error = validateRequestLine(request, endpoint, customIds)
+    if (error) {
+      errors.push({ ...error, line })
+      continue
+    }
+
+    customIds.add(request.custom_id as string)
+    requests.push(request as unknown as BatchRequestLine)
+  }
+
+  if (requests.length === 0 && errors.length === 0) {
+    errors.push({ code: "empty_file", message: "The input file is empty" })
+  }
+
+  return { requests, errors }
+}
+
+type UnvalidatedRequestLine = { [K in keyof BatchRequestLine]?: unknown }
+
+function validateRequestLine(
+  request: UnvalidatedRequestLine,
+  endpoint: string,
+  customIds: Set<string>,
+): BatchError | undefined {
+  if (typeof request.custom_id !== "string" || !request.custom_id) {
+    return {
+      code: "missing_required_parameter",
+      message: "Missing custom_id",
+      param: "custom_id",
+    }
+  }
+  if (customIds.has(request.custom_id)) {
+    return {
+      code: "duplicate_custom_id",
+      message: `Duplicate custom_id '${request.custom_id}'`,
+      param: "custom_id",
+    }
+  }
+  if (request.url !== endpoint) {
+    return {
+      code: "mismatched_endpoint",
+      message: `The url '${String(request.url)}' does not match the batch endpoint '${endpoint}'`,
+      param: "url",
+    }
+  }
+  if (typeof request.body !== "object" || request.body === null) {
+    return {
+      code: "missing_required_parameter",
+      message: "Missing body",
+      param: "body",
+    }
+  }
+  return undefined
+}
+
+async function processBatch(batch: Batch): Promise<void> {
+  const content = await readFileContent(batch.input_file_id)
+  const { requests, errors } =
+    content ?
+      parseBatchInput(content.toString("utf8"), batch.endpoint)
+    : {
+        requests: [],
+        errors: [
+          {
+            code: "file_not_found",
+            message: `Input file ${batch.input_file_id} no longer exists`,
+          },
+        ],
+      }
+
+  if (errors.length > 0) {
+    failBatch(batch, errors)
+    await saveBatch(batch)
+    consola.warn(`Batch ${batch.id} failed validation`)
+    return
+  }
+
+  // Requests that already have a result were run before a restart; the counts
+  // on disk may lag behind the logs after a crash
+  const output = await readBatchLog(batch.id, "output")
+  const failures = await readBatchLog(batch.id, "errors")
+  startBatch(batch, {
+    total: requests.length,
+    completed: output.length,
+    failed: failures.length,
+  })
+  await saveBatch(batch)
+
+  const finished = new Set(
+    [...output, ...failures].map((line) => line.custom_id),
+  )
+  // A batch that got as far as finalizing has nothing left to run
+  const pending =
+    batch.status === "finalizing" ?
+      []
+    : requests.filter((request) => !finished.has(request.custom_id))
+
+  const ran = await jobs.runRequests(pending, async (request) => {
+    if (batch.cancelling_at !== null || now() > batch.expires_at) return
+
+    const line = await runBatchRequest(request)
+    const failed = line.response?.status_code !== 200
+    await appendBatchLog(batch.id, failed ? "errors" : "output", line)
+    countResult(batch, failed)
+    await saveBatch(batch)
+  })
+  if (!ran) return
+
+  await finalizeBatch(batch)
+}
+
+async function finalizeBatch(batch: Batch): Promise<void> {
+  if (batch.status !== "finalizing") {
+    setStatus(batch, "finalizing")
+    await saveBatch(batch)
+  }
+
+  // Each file is recorded as soon as it exists, so a batch resumed part way
+  // through finalizing does not store its results twice
+  for (const log of ["output", "errors"] as const) {
+    const { field } = RESULT_FILES[log]
+    if (batch[field] !== null) continue
+    setResultFile(batch, field, await storeBatchLog(batch.id, log))
+    await saveBatch(batch)
+  }
+
+  endBatch(batch)
+  await saveBatch(batch)
+  consola.info(
+    `Batch ${batch.id} ${batch.status}:`,
+    JSON.stringify(batch.request_counts),
+  )
+}
+
+// Copies a result log into the file store; null when the log is empty
+async function storeBatchLog(
+  id: string,
+  log: BatchLog,
+): Promise<string | null> {
+  const lines = await readBatchLog(id, log)
+  if (lines.length === 0) return null
+
+  const file = await createFile({
+    filename: `${id}_${RESULT_FILES[log].suffix}.jsonl`,
+    purpose: "batch_output",
+    content: toJsonl(lines),
+  })
+  return file.id
+}
+
+async function runBatchRequest(
+  request: BatchRequestLine,
+): Promise<BatchResponseLine> {
+  const id = `batch_req_${randomUUID().replaceAll("-", "")}`
+  const requestId = `req_${randomUUID().replaceAll("-", "")}`
+
+  try {
+    const body = await executeRequest(request)
+    return {
+      id,
+      custom_id: request.custom_id,
+      response: { status_code: 200, request_id: requestId, body },
+      error: null,
+    }
+  } catch (error) {
+    consola.warn(`Batch request ${request.custom_id} failed:`, error)
+    if (error instanceof HTTPError) {
+      return {
+        id,
+        custom_id: request.custom_id,
+        response: {
+          status_code: error.response.status,
+          request_id: requestId,
+          body: await readErrorBody(error.response),
+        },
+        error: null,
+      }
+    }
+    return {
+      id,
+      custom_id: request.custom_id,
+      response: null,
+      error: {
+        code: "server_error",
+        message: error instanceof Error ? error.message : String(error),
+      },
+    }
+  }
+}
+
+async function executeRequest(request: BatchRequestLine): Promise<unknown> {
+  if (request.url === "/v1/embeddings") {
+    const body = request.body as unknown as EmbeddingRequest
+    const model = resolveModel(body.model)
+    const response = await runBatchJob({ model }, () =>
+      createEmbeddings({ ...body, model }),
+    )
+    return encodeEmbeddings(response, body.encoding_format)
+  }
+
+  const body = request.body as unknown as ChatCompletionsPayload
+  const payload = { ...body, model: resolveModel(body.model), stream: false }
+  const response = await runBatchJob({ model: payload.model, payload }, () =>
+    createChatCompletions(payload),
+  )
+  if (!isNonStreaming(response)) {
+    throw new Error("Expected a non-streaming response from Copilot")
+  }
+  return response
+}
+
+async function readErrorBody(response: Response): Promise<unknown> {
+  const text = await response.text()
+  try {
+    return JSON.parse(text)
+  } catch {
+    return { error: { message: text, type: "error" } }
+  }
+}
+
+function setStatus(batch: Batch, status: BatchStatus): void {
+  batch.status = status
+  const timestampField = STATUS_TIMESTAMPS[status]
+  if (timestampField) {
+    ;(batch as unknown as Record<string, number>)[timestampField] = now()
+  }
+}
+
+function setResultFile(
+  batch: Batch,
+  field: ResultFileField,
+  fileId: string | null,
+): void {
+  batch[field] = fileId
+}
+
+function failBatch(batch: Batch, errors: Array<BatchError>): void {
+  batch.errors = { object: "list", data: errors }
+  setStatus(batch, "failed")
+}
+
+function startBatch(batch: Batch, counts: Batch["request_counts"]): void {
+  batch.request_counts = counts
+  if (batch.status === "validating") setStatus(batch, "in_progress")
+}
+
+function countResult(batch: Batch, failed: boolean): void {
+  if (failed) batch.request_counts.failed += 1
+  else batch.request_counts.completed += 1
+}
+
+// The final status is derived from the batch itself so that a batch resumed
+// in the middle of finalizing still ends up in the right state
+function endBatch(batch: Batch): void {
+  const { total, completed, failed } = batch.request_counts
+  if (batch.cancelling_at !== null) setStatus(batch, "cancelled")
+  else if (completed + failed < total) setStatus(batch, "expired")
+  else setStatus(batch, "completed")
+}
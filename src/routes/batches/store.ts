@@ -0,0 +1,70 @@
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import {
+  parseJsonl,
+  readJsonFile,
+  toJsonl,
+  writeJsonFile,
+} from "~/lib/json-files"
+import { PATHS } from "~/lib/paths"
+
+import type { Batch, BatchResponseLine } from "./batches-types"
+
+// Each batch lives in its own directory while it runs:
+//   batch.json    batch object, rewritten as requests finish
+//   output.jsonl  successful responses, appended
+//   errors.jsonl  failed responses, appended
+// The two result logs are copied into the file store when the batch ends.
+
+export type BatchLog = "output" | "errors"
+
+const batchDir = (id: string) => path.join(PATHS.BATCHES_DIR, id)
+const batchPath = (id: string) => path.join(batchDir(id), "batch.json")
+const logPath = (id: string, log: BatchLog) =>
+  path.join(batchDir(id), `${log}.jsonl`)
+
+export async function saveBatch(batch: Batch): Promise<void> {
+  await fs.mkdir(batchDir(batch.id), { recursive: true })
+  await writeJsonFile(batchPath(batch.id), batch)
+}
+
+export async function loadBatches(): Promise<Array<Batch>> {
+  let entries: Array<string>
+  try {
+    entries = await fs.readdir(PATHS.BATCHES_DIR)
+  } catch {
+    return []
+  }
+
+  const batches: Array<Batch> = []
+  for (const id of entries) {
+    try {
+      batches.push(await readJsonFile<Batch>(batchPath(id)))
+    } catch {
+      // Incomplete or foreign directory; ignore it
+    }
+  }
+  return batches
+}
+
+export async function readBatchLog(
+  id: string,
+  log: BatchLog,
+): Promise<Array<BatchResponseLine>> {
+  try {
+    return parseJsonl<BatchResponseLine>(
+      await fs.readFile(logPath(id, log), "utf8"),
+    )
+  } catch {
+    return []
+  }
+}
+
+export async function appendBatchLog(
+  id: string,
+  log: BatchLog,
+  line: BatchResponseLine,
+): Promise<void> {
+  await fs.appendFile(logPath(id, log), toJsonl([line]))
+}
@@ -4,21 +4,28 @@ import consola from "consola"
 import { streamSSE, type SSEMessage } from "hono/streaming"
 
 import { awaitApproval } from "~/lib/approval"
+import { resolveRequestModel } from "~/lib/model-aliases"
 import { checkRateLimit } from "~/lib/rate-limit"
+import { queueRequest } from "~/lib/request-queue"
+import {
+  createCachedChatCompletions,
+  getCachedCompletion,
+} from "~/lib/response-cache"
 import { state } from "~/lib/state"
 import { getTokenCount } from "~/lib/tokenizer"
-import { isNullish } from "~/lib/utils"
+import { createUpstreamAbort } from "~/lib/upstream-abort"
+import { isNonStreaming, isNullish } from "~/lib/utils"
+import { type ChatCompletionsPayload } from "~/services/copilot/create-chat-completions"
+
 import {
-  createChatCompletions,
-  type ChatCompletionResponse,
-  type ChatCompletionsPayload,
-} from "~/services/copilot/create-chat-completions"
+  createStructuredCompletion,
+  prepareStructuredOutput,
+} from "./structured-output"
 
 export async function handleCompletion(c: Context) {
-  await checkRateLimit(state)
-
   let payload = await c.req.json<ChatCompletionsPayload>()
   consola.debug("Request payload:", JSON.stringify(payload).slice(-400))
+  payload = { ...payload, model: resolveRequestModel(c, payload.model) }
 
   // Find the selected model
   const selectedModel = state.models?.data.find(
@@ -37,8 +44,6 @@ export async function handleCompletion(c: Context) {
     consola.warn("Failed to calculate token count:", error)
   }
 
-  if (state.manualApprove) await awaitApproval()
-
   if (isNullish(payload.max_tokens)) {
     payload = {
       ...payload,
@@ -47,22 +52,47 @@ export async function handleCompletion(c: Context) {
     consola.debug("Set max_tokens to:", JSON.stringify(payload.max_tokens))
   }
 
-  const response = await createChatCompletions(payload)
+  const { output, payload: prepared } = prepareStructuredOutput(
+    payload,
+    selectedModel,
+  )
+  // A cached answer never reaches Copilot, so it skips the limits and queue
+  const cached = await getCachedCompletion(c, prepared)
+  if (!cached) await checkRateLimit(c, prepared)
+
+  if (state.manualApprove) await awaitApproval()
+  if (!cached) await queueRequest(c, prepared)
+
+  const upstream = createUpstreamAbort(c)
+  const response =
+    cached
+    ?? (await createCachedChatCompletions(c, prepared, {
+      signal: upstream.signal,
+      complete:
+        output
+        && ((structuredPayload, options) =>
+          createStructuredCompletion(structuredPayload, output, options)),
+    }))
 
   if (isNonStreaming(response)) {
+    upstream.finish()
     consola.debug("Non-streaming response:", JSON.stringify(response))
     return c.json(response)
   }
 
   consola.debug("Streaming response")
   return streamSSE(c, async (stream) => {
-    for await (const chunk of response) {
-      consola.debug("Streaming chunk:", JSON.stringify(chunk))
-      await stream.writeSSE(chunk as SSEMessage)
+    stream.onAbort(upstream.cancel)
+    try {
+      for await (const chunk of response) {
+        consola.debug("Streaming chunk:", JSON.stringify(chunk))
+        await stream.writeSSE(chunk as SSEMessage)
+      }
+    } catch (error) {
+      // The upstream read fails once cancelled; the client is already gone
+      if (!stream.aborted) throw error
+    } finally {
+      upstream.finish()
     }
   })
 }
-
-const isNonStreaming = (
-  response: Awaited<ReturnType<typeof createChatCompletions>>,
-): response is ChatCompletionResponse => Object.hasOwn(response, "choices")
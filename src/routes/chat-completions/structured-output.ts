@@ -0,0 +1,314 @@
+import type { ServerSentEventMessage } from "fetch-event-stream"
+
+import consola from "consola"
+
+import { HTTPError } from "~/lib/error"
+import { validateJsonSchema, type JsonSchema } from "~/lib/json-schema"
+import { state } from "~/lib/state"
+import { isNonStreaming } from "~/lib/utils"
+import {
+  createChatCompletions,
+  type ChatCompletionChunk,
+  type ChatCompletionResponse,
+  type ChatCompletionsPayload,
+} from "~/services/copilot/create-chat-completions"
+import { type Model } from "~/services/copilot/get-models"
+
+// Enough for the model to see what went wrong without drowning the retry
+const MAX_REPORTED_ERRORS = 20
+
+export interface StructuredOutput {
+  name: string
+  schema: JsonSchema
+  strict: boolean
+}
+
+type CompletionOptions = Parameters<typeof createChatCompletions>[1]
+
+type Usage = ChatCompletionResponse["usage"]
+
+/**
+ * Picks the json_schema response_format off a request. Models that support
+ * structured outputs receive it unchanged; the rest get the schema as a
+ * system instruction and are switched to plain JSON mode.
+ */
+export function prepareStructuredOutput(
+  payload: ChatCompletionsPayload,
+  model: Model | undefined,
+): { payload: ChatCompletionsPayload; output?: StructuredOutput } {
+  const format = payload.response_format
+  if (format?.type !== "json_schema") {
+    return { payload }
+  }
+
+  const output: StructuredOutput = {
+    name: format.json_schema.name ?? "response",
+    schema: format.json_schema.schema ?? {},
+    strict: format.json_schema.strict ?? false,
+  }
+  if (model?.capabilities.supports.structured_outputs) {
+    return { payload, output }
+  }
+
+  return {
+    payload: {
+      ...payload,
+      messages: [
+        {
+          role: "system",
+          content: schemaInstruction(output, format.json_schema.description),
+        },
+        ...payload.messages,
+      ],
+      response_format: { type: "json_object" },
+    },
+    output,
+  }
+}
+
+/**
+ * Runs the completion and validates its output against the schema, retrying
+ * with the validation errors fed back up to `state.structuredOutputRetries`
+ * times. Output wrapped in a code fence or surrounded by prose is repaired
+ * locally rather than retried, and the usage reported covers every attempt.
+ * Streams are passed through as they arrive and validated once they end.
+ */
+export async function createStructuredCompletion(
+  payload: ChatCompletionsPayload,
+  output: StructuredOutput,
+  options: CompletionOptions = {},
+): ReturnType<typeof createChatCompletions> {
+  if (payload.stream) {
+    const response = await createChatCompletions(payload, options)
+    return isNonStreaming(response) ? response : (
+        validateStream(response, output)
+      )
+  }
+
+  let messages = payload.messages
+  let usage: Usage
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await createChatCompletions(
+      { ...payload, messages },
+      options,
+    )
+    // Never a stream here, since none was asked for
+    if (!isNonStreaming(response)) return response
+
+    const completion = withUsageSoFar(response, usage)
+    usage = completion.usage
+
+    // Tool calls are not subject to the response format
+    const message = completion.choices.at(0)?.message
+    if (message?.tool_calls?.length) {
+      return completion
+    }
+    const content = message?.content ?? ""
+
+    const { text, errors } = checkOutput(content, output.schema)
+    if (errors.length === 0) {
+      return text === content ? completion : withContent(completion, text)
+    }
+
+    consola.warn(
+      `Structured output '${output.name}' failed validation (attempt ${attempt + 1}):`,
+      errors.join("; "),
+    )
+    if (attempt >= state.structuredOutputRetries) {
+      return giveUp(completion, output, errors)
+    }
+
+    messages = [
+      ...messages,
+      { role: "assistant", content },
+      { role: "user", content: retryInstruction(errors) },
+    ]
+  }
+}
+
+/**
+ * Parses `content` as JSON and validates it, also trying the contents of a
+ * code fence and the outermost braces when the raw text does not parse
+ */
+export function checkOutput(
+  content: string,
+  schema: JsonSchema,
+): { text: string; errors: Array<string> } {
+  let parseError = ""
+  for (const candidate of repairCandidates(content)) {
+    try {
+      const value: unknown = JSON.parse(candidate)
+      return { text: candidate, errors: validateJsonSchema(value, schema) }
+    } catch (error) {
+      parseError ||= (error as Error).message
+    }
+  }
+  return {
+    text: content,
+    errors: [`Response is not valid JSON: ${parseError}`],
+  }
+}
+
+function repairCandidates(content: string): Array<string> {
+  const candidates = [content]
+  const fenced = /```[a-z]*\n([\s\S]*?)```/i.exec(content)
+  if (fenced) {
+    candidates.push(fenced[1].trim())
+  }
+  const start = content.search(/[[{]/)
+  const end = Math.max(content.lastIndexOf("}"), content.lastIndexOf("]"))
+  if (start !== -1 && end > start) {
+    candidates.push(content.slice(start, end + 1))
+  }
+  return candidates
+}
+
+function giveUp(
+  completion: ChatCompletionResponse,
+  output: StructuredOutput,
+  errors: Array<string>,
+): ChatCompletionResponse {
+  if (!output.strict) {
+    return completion
+  }
+  const message = mismatchMessage(
+    output,
+    `after ${state.structuredOutputRetries + 1} attempts`,
+    errors,
+  )
+  throw new HTTPError(
+    "Structured output validation failed",
+    Response.json(
+      { error: { message, type: "invalid_response" } },
+      { status: 502 },
+    ),
+  )
+}
+
+/**
+ * Yields the chunks untouched while collecting the text, then checks it
+ * once the stream ends. By then the client already has the output, so a
+ * mismatch can't be repaired or retried: strict schemas get an error event
+ * before `[DONE]` and the rest only a warning in the log.
+ */
+async function* validateStream(
+  events: AsyncIterable<ServerSentEventMessage>,
+  output: StructuredOutput,
+): AsyncGenerator<ServerSentEventMessage> {
+  let content = ""
+  let calledTools = false
+  let done: ServerSentEventMessage | undefined
+
+  for await (const event of events) {
+    if (event.data === "[DONE]") {
+      done = event
+      continue
+    }
+    const delta = firstChoice(parseChunk(event))?.delta
+    calledTools ||= Boolean(delta?.tool_calls?.length)
+    content += delta?.content ?? ""
+    yield event
+  }
+
+  const errors = calledTools ? [] : streamErrors(content, output.schema)
+  if (errors.length > 0) {
+    consola.warn(
+      `Streamed structured output '${output.name}' failed validation:`,
+      errors.join("; "),
+    )
+    if (output.strict) {
+      const message = mismatchMessage(output, "in the stream", errors)
+      yield {
+        data: JSON.stringify({ error: { message, type: "invalid_response" } }),
+      }
+    }
+  }
+  if (done) yield done
+}
+
+function streamErrors(content: string, schema: JsonSchema): Array<string> {
+  const { text, errors } = checkOutput(content, schema)
+  // The client got the unrepaired text
+  return text === content ? errors : (
+      ["Response has text or a code fence around the JSON", ...errors]
+    )
+}
+
+function mismatchMessage(
+  output: StructuredOutput,
+  when: string,
+  errors: Array<string>,
+): string {
+  return `Model output did not match the '${output.name}' schema ${when}: ${errors.slice(0, MAX_REPORTED_ERRORS).join("; ")}`
+}
+
+// Retries are billed too, so each attempt's usage is added to the last
+function withUsageSoFar(
+  completion: ChatCompletionResponse,
+  previous: Usage,
+): ChatCompletionResponse {
+  const { usage } = completion
+  if (!previous || !usage) {
+    return completion
+  }
+  const cached =
+    (previous.prompt_tokens_details?.cached_tokens ?? 0)
+    + (usage.prompt_tokens_details?.cached_tokens ?? 0)
+  return {
+    ...completion,
+    usage: {
+      prompt_tokens: previous.prompt_tokens + usage.prompt_tokens,
+      completion_tokens: previous.completion_tokens + usage.completion_tokens,
+      total_tokens: previous.total_tokens + usage.total_tokens,
+      prompt_tokens_details: cached > 0 ? { cached_tokens: cached } : undefined,
+    },
+  }
+}
+
+function withContent(
+  completion: ChatCompletionResponse,
+  content: string,
+): ChatCompletionResponse {
+  const [first, ...rest] = completion.choices
+  return {
+    ...completion,
+    choices: [{ ...first, message: { ...first.message, content } }, ...rest],
+  }
+}
+
+function parseChunk(
+  event: ServerSentEventMessage,
+): ChatCompletionChunk | undefined {
+  if (!event.data || event.data === "[DONE]") return undefined
+  try {
+    return JSON.parse(event.data) as ChatCompletionChunk
+  } catch {
+    return undefined
+  }
+}
+
+const firstChoice = (chunk: ChatCompletionChunk | undefined) =>
+  chunk?.choices.find((choice) => choice.index === 0)
+
+function schemaInstruction(
+  output: StructuredOutput,
+  description: string | undefined,
+): string {
+  return [
+    `Respond with a single JSON value that conforms to the JSON schema "${output.name}" below.`,
+    description,
+    "Output only the JSON: no code fences, comments or surrounding text.",
+    JSON.stringify(output.schema, null, 2),
+  ]
+    .filter(Boolean)
+    .join("\n\n")
+}
+
+function retryInstruction(errors: Array<string>): string {
+  return [
+    "Your previous response did not match the required JSON schema:",
+    ...errors.slice(0, MAX_REPORTED_ERRORS).map((error) => `- ${error}`),
+    "Respond again with only the corrected JSON.",
+  ].join("\n")
+}
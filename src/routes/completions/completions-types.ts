@@ -0,0 +1,38 @@
+// OpenAI legacy text completions API Types
+
+export interface CompletionsPayload {
+  model: string
+  prompt: string | Array<string>
+  suffix?: string | null
+  max_tokens?: number | null
+  stop?: string | Array<string> | null
+  n?: number | null
+  echo?: boolean | null
+  stream?: boolean | null
+  temperature?: number | null
+  top_p?: number | null
+  frequency_penalty?: number | null
+  presence_penalty?: number | null
+  seed?: number | null
+  user?: string | null
+}
+
+export interface CompletionChoice {
+  text: string
+  index: number
+  logprobs: null
+  finish_reason: "stop" | "length" | "content_filter" | null
+}
+
+export interface CompletionResponse {
+  id: string
+  object: "text_completion"
+  created: number
+  model: string
+  choices: Array<CompletionChoice>
+  usage?: {
+    prompt_tokens: number
+    completion_tokens: number
+    total_tokens: number
+  }
+}
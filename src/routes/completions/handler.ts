@@ -0,0 +1,150 @@
+import type { Context } from "hono"
+
+import consola from "consola"
+import { streamSSE } from "hono/streaming"
+
+import { awaitApproval } from "~/lib/approval"
+import { HTTPError } from "~/lib/error"
+import {
+  resolveRequestModel,
+  setResolvedModelHeader,
+} from "~/lib/model-aliases"
+import { checkRateLimit } from "~/lib/rate-limit"
+import { queueRequest } from "~/lib/request-queue"
+import { state } from "~/lib/state"
+import { createUpstreamAbort } from "~/lib/upstream-abort"
+import { isNonStreaming } from "~/lib/utils"
+import {
+  createChatCompletions,
+  type ChatCompletionChunk,
+  type ChatCompletionResponse,
+} from "~/services/copilot/create-chat-completions"
+
+import {
+  type CompletionResponse,
+  type CompletionsPayload,
+} from "./completions-types"
+import {
+  normalizePrompts,
+  translateChunkToCompletion,
+  translateToCompletion,
+  translateToOpenAI,
+} from "./translation"
+
+export async function handleTextCompletion(c: Context) {
+  const request = await c.req.json<CompletionsPayload>()
+  consola.debug("Completions request payload:", JSON.stringify(request))
+  const payload = { ...request, model: resolveRequestModel(c, request.model) }
+
+  const prompts = normalizePrompts(payload.prompt)
+  if (prompts.length === 0 || prompts.some((p) => typeof p !== "string")) {
+    throw new HTTPError(
+      "Unsupported prompt",
+      Response.json(
+        { message: "prompt must be a string or an array of strings" },
+        { status: 400 },
+      ),
+    )
+  }
+  // One limit check and queue slot cover every prompt the request fans out to
+  const combined = translateToOpenAI(payload, prompts.join("\n"))
+  await checkRateLimit(c, combined)
+
+  if (state.manualApprove) await awaitApproval()
+  await queueRequest(c, combined)
+
+  // Only calls made before the response starts can still change its headers
+  const onFallback = (model: string) => setResolvedModelHeader(c, model)
+  // One signal covers every prompt's upstream call
+  const upstream = createUpstreamAbort(c)
+  const { signal } = upstream
+
+  if (!payload.stream) {
+    const responses: Array<ChatCompletionResponse> = []
+    try {
+      for (const prompt of prompts) {
+        const response = await createChatCompletions(
+          translateToOpenAI(payload, prompt),
+          { signal, onFallback },
+        )
+        if (isNonStreaming(response)) responses.push(response)
+      }
+    } finally {
+      upstream.finish()
+    }
+
+    const completion = translateToCompletion(responses, payload)
+    consola.debug("Non-streaming completion:", JSON.stringify(completion))
+    return c.json(completion)
+  }
+
+  // Open the first upstream stream before responding so that request errors
+  // still reach the client as a regular error response
+  const firstResponse = await createChatCompletions(
+    translateToOpenAI(payload, prompts[0]),
+    { signal, onFallback },
+  )
+
+  consola.debug("Streaming completion")
+  return streamSSE(c, async (stream) => {
+    const choicesPerPrompt = payload.n ?? 1
+    stream.onAbort(upstream.cancel)
+
+    try {
+      for (const [promptIndex, prompt] of prompts.entries()) {
+        const indexOffset = promptIndex * choicesPerPrompt
+        const response =
+          promptIndex === 0 ? firstResponse : (
+            await createChatCompletions(translateToOpenAI(payload, prompt), {
+              signal,
+            })
+          )
+        if (isNonStreaming(response)) continue
+
+        if (payload.echo) {
+          await stream.writeSSE({
+            data: JSON.stringify(echoChunk(payload, prompt, indexOffset)),
+          })
+        }
+
+        for await (const rawEvent of response) {
+          if (rawEvent.data === "[DONE]") break
+          if (!rawEvent.data) continue
+
+          const chunk = JSON.parse(rawEvent.data) as ChatCompletionChunk
+          await stream.writeSSE({
+            data: JSON.stringify(
+              translateChunkToCompletion(chunk, indexOffset),
+            ),
+          })
+        }
+      }
+
+      await stream.writeSSE({ data: "[DONE]" })
+    } catch (error) {
+      // The upstream read fails once cancelled; the client is already gone
+      if (!stream.aborted) throw error
+    } finally {
+      upstream.finish()
+    }
+  })
+}
+
+function echoChunk(
+  payload: CompletionsPayload,
+  prompt: string,
+  indexOffset: number,
+): CompletionResponse {
+  return {
+    id: "cmpl-echo",
+    object: "text_completion",
+    created: Math.floor(Date.now() / 1000),
+    model: payload.model,
+    choices: Array.from({ length: payload.n ?? 1 }, (_, index) => ({
+      text: prompt,
+      index: indexOffset + index,
+      logprobs: null,
+      finish_reason: null,
+    })),
+  }
+}
@@ -0,0 +1,15 @@
+import { Hono } from "hono"
+
+import { forwardError } from "~/lib/error"
+
+import { handleTextCompletion } from "./handler"
+
+export const textCompletionRoutes = new Hono()
+
+textCompletionRoutes.post("/", async (c) => {
+  try {
+    return await handleTextCompletion(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
@@ -0,0 +1,152 @@
+import {
+  type ChatCompletionChunk,
+  type ChatCompletionResponse,
+  type ChatCompletionsPayload,
+  type Message,
+} from "~/services/copilot/create-chat-completions"
+
+import {
+  type CompletionChoice,
+  type CompletionResponse,
+  type CompletionsPayload,
+} from "./completions-types"
+
+const FIM_PREFIX = "<|fim_prefix|>"
+const FIM_SUFFIX = "<|fim_suffix|>"
+const FIM_MIDDLE = "<|fim_middle|>"
+
+const FIM_INSTRUCTIONS = [
+  "You are a code completion engine.",
+  `The user message contains a document split by ${FIM_PREFIX}, ${FIM_SUFFIX} and ${FIM_MIDDLE} markers.`,
+  `Reply with only the text that belongs at ${FIM_MIDDLE}, so that prefix + reply + suffix forms the complete document.`,
+  "Do not repeat the prefix or the suffix, do not explain, and do not wrap the reply in markdown code fences.",
+].join(" ")
+
+const CONTINUATION_INSTRUCTIONS = [
+  "You are a text completion engine.",
+  "Continue the user's text exactly where it ends.",
+  "Reply with only the continuation: do not repeat the text, do not explain, and do not wrap the reply in markdown code fences.",
+].join(" ")
+
+/**
+ * Builds the chat messages for a single prompt. Prompts with a `suffix` are
+ * wrapped in a fill-in-the-middle template; plain prompts are continued.
+ */
+export function buildCompletionMessages(
+  prompt: string,
+  suffix: CompletionsPayload["suffix"],
+): Array<Message> {
+  if (suffix) {
+    return [
+      { role: "system", content: FIM_INSTRUCTIONS },
+      {
+        role: "user",
+        content: `${FIM_PREFIX}${prompt}${FIM_SUFFIX}${suffix}${FIM_MIDDLE}`,
+      },
+    ]
+  }
+
+  return [
+    { role: "system", content: CONTINUATION_INSTRUCTIONS },
+    { role: "user", content: prompt },
+  ]
+}
+
+export const normalizePrompts = (
+  prompt: CompletionsPayload["prompt"],
+): Array<string> => (typeof prompt === "string" ? [prompt] : prompt)
+
+export function translateToOpenAI(
+  payload: CompletionsPayload,
+  prompt: string,
+): ChatCompletionsPayload {
+  return {
+    model: payload.model,
+    messages: buildCompletionMessages(prompt, payload.suffix),
+    max_tokens: payload.max_tokens,
+    stop: payload.stop,
+    n: payload.n,
+    stream: payload.stream,
+    temperature: payload.temperature,
+    top_p: payload.top_p,
+    frequency_penalty: payload.frequency_penalty,
+    presence_penalty: payload.presence_penalty,
+    seed: payload.seed,
+    user: payload.user,
+  }
+}
+
+const toCompletionId = (id: string) =>
+  id.startsWith("chatcmpl-") ? id.replace("chatcmpl-", "cmpl-") : `cmpl-${id}`
+
+const mapFinishReason = (
+  finishReason:
+    | ChatCompletionResponse["choices"][number]["finish_reason"]
+    | null,
+): CompletionChoice["finish_reason"] =>
+  finishReason === "tool_calls" ? "stop" : finishReason
+
+/**
+ * Converts the chat responses for every prompt into one text completion.
+ * Choice indexes follow the OpenAI layout: prompt index * n + choice index.
+ */
+export function translateToCompletion(
+  responses: Array<ChatCompletionResponse>,
+  payload: CompletionsPayload,
+): CompletionResponse {
+  const prompts = normalizePrompts(payload.prompt)
+  const choicesPerPrompt = payload.n ?? 1
+
+  const choices = responses.flatMap((response, promptIndex) =>
+    response.choices.map((choice) => ({
+      text: `${payload.echo ? prompts[promptIndex] : ""}${choice.message.content ?? ""}`,
+      index: promptIndex * choicesPerPrompt + choice.index,
+      logprobs: null,
+      finish_reason: mapFinishReason(choice.finish_reason),
+    })),
+  )
+
+  const usage = responses.reduce(
+    (total, response) => ({
+      prompt_tokens: total.prompt_tokens + (response.usage?.prompt_tokens ?? 0),
+      completion_tokens:
+        total.completion_tokens + (response.usage?.completion_tokens ?? 0),
+      total_tokens: total.total_tokens + (response.usage?.total_tokens ?? 0),
+    }),
+    { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  )
+
+  return {
+    id: toCompletionId(responses[0]?.id ?? ""),
+    object: "text_completion",
+    created: responses[0]?.created ?? Math.floor(Date.now() / 1000),
+    model: responses[0]?.model ?? payload.model,
+    choices,
+    usage,
+  }
+}
+
+export function translateChunkToCompletion(
+  chunk: ChatCompletionChunk,
+  indexOffset: number,
+): CompletionResponse {
+  return {
+    id: toCompletionId(chunk.id),
+    object: "text_completion",
+    created: chunk.created,
+    model: chunk.model,
+    choices: chunk.choices.map((choice) => ({
+      text: choice.delta.content ?? "",
+      index: indexOffset + choice.index,
+      logprobs: null,
+      finish_reason: mapFinishReason(choice.finish_reason),
+    })),
+    ...(chunk.usage && {
+      usage: {
+        prompt_tokens: chunk.usage.prompt_tokens,
+        completion_tokens: chunk.usage.completion_tokens,
+        total_tokens: chunk.usage.total_tokens,
+      },
+    }),
+  }
+}
@@ -1,8 +1,12 @@
 import { Hono } from "hono"
 
+import { getEmbeddingsCacheStats } from "~/lib/embeddings-cache"
 import { forwardError } from "~/lib/error"
+import { resolveRequestModel } from "~/lib/model-aliases"
+import { withUpstreamAbort } from "~/lib/upstream-abort"
 import {
   createEmbeddings,
+  encodeEmbeddings,
   type EmbeddingRequest,
 } from "~/services/copilot/create-embeddings"
 
@@ -10,11 +14,16 @@ export const embeddingRoutes = new Hono()
 
 embeddingRoutes.post("/", async (c) => {
   try {
-    const paylod = await c.req.json<EmbeddingRequest>()
-    const response = await createEmbeddings(paylod)
+    const request = await c.req.json<EmbeddingRequest>()
+    const paylod = { ...request, model: resolveRequestModel(c, request.model) }
+    const response = await withUpstreamAbort(c, (signal) =>
+      createEmbeddings(paylod, { signal }),
+    )
 
-    return c.json(response)
+    return c.json(encodeEmbeddings(response, paylod.encoding_format))
   } catch (error) {
     return await forwardError(c, error)
   }
 })
+
+embeddingRoutes.get("/cache", (c) => c.json(getEmbeddingsCacheStats()))
@@ -0,0 +1,93 @@
+import type { Context } from "hono"
+
+import consola from "consola"
+
+import { HTTPError } from "~/lib/error"
+import {
+  createFile,
+  deleteFile,
+  getFile,
+  listFiles,
+  readFileContent,
+} from "~/lib/file-store"
+
+const DEFAULT_LIST_LIMIT = 10_000
+
+export async function handleUploadFile(c: Context) {
+  const body = await c.req.parseBody()
+  const file = body.file
+  const purpose = body.purpose
+
+  if (!(file instanceof File)) {
+    throw invalidRequest("A 'file' field with the file contents is required")
+  }
+  if (typeof purpose !== "string" || !purpose) {
+    throw invalidRequest("A 'purpose' field is required")
+  }
+
+  const created = await createFile({
+    filename: file.name,
+    purpose,
+    content: new Uint8Array(await file.arrayBuffer()),
+  })
+  consola.info(`Stored file ${created.id} (${created.bytes} bytes)`)
+  return c.json(created)
+}
+
+export async function handleListFiles(c: Context) {
+  const purpose = c.req.query("purpose")
+  const after = c.req.query("after")
+  const limit = Math.max(
+    Number(c.req.query("limit") ?? DEFAULT_LIST_LIMIT) || 1,
+    1,
+  )
+
+  let files = await listFiles()
+  if (c.req.query("order") === "asc") files.reverse()
+  if (purpose) files = files.filter((file) => file.purpose === purpose)
+  if (after) {
+    const start = files.findIndex((file) => file.id === after)
+    files = start === -1 ? [] : files.slice(start + 1)
+  }
+
+  const data = files.slice(0, limit)
+  return c.json({
+    object: "list",
+    data,
+    first_id: data.at(0)?.id ?? null,
+    last_id: data.at(-1)?.id ?? null,
+    has_more: files.length > limit,
+  })
+}
+
+export async function handleGetFile(c: Context) {
+  const file = await getFile(c.req.param("id"))
+  if (!file) throw fileNotFound(c.req.param("id"))
+  return c.json(file)
+}
+
+export async function handleDeleteFile(c: Context) {
+  const id = c.req.param("id")
+  if (!(await deleteFile(id))) throw fileNotFound(id)
+  return c.json({ id, object: "file", deleted: true })
+}
+
+export async function handleFileContent(c: Context) {
+  const content = await readFileContent(c.req.param("id"))
+  if (!content) throw fileNotFound(c.req.param("id"))
+  return c.body(new Uint8Array(content), 200, {
+    "content-type": "application/octet-stream",
+  })
+}
+
+const invalidRequest = (message: string) =>
+  new HTTPError(
+    "Invalid file request",
+    Response.json({ message }, { status: 400 }),
+  )
+
+const fileNotFound = (id: string) =>
+  new HTTPError(
+    "File not found",
+    Response.json({ message: `No such File object: ${id}` }, { status: 404 }),
+  )
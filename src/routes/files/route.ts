@@ -0,0 +1,53 @@
+import { Hono } from "hono"
+
+import { forwardError } from "~/lib/error"
+
+import {
+  handleDeleteFile,
+  handleFileContent,
+  handleGetFile,
+  handleListFiles,
+  handleUploadFile,
+} from "./handler"
+
+export const fileRoutes = new Hono()
+
+fileRoutes.post("/", async (c) => {
+  try {
+    return await handleUploadFile(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+fileRoutes.get("/", async (c) => {
+  try {
+    return await handleListFiles(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+fileRoutes.get("/:id", async (c) => {
+  try {
+    return await handleGetFile(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+fileRoutes.delete("/:id", async (c) => {
+  try {
+    return await handleDeleteFile(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+fileRoutes.get("/:id/content", async (c) => {
+  try {
+    return await handleFileContent(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
@@ -0,0 +1,51 @@
+import type { Context } from "hono"
+
+import consola from "consola"
+
+import { state } from "~/lib/state"
+import { getTokenCount } from "~/lib/tokenizer"
+
+import { type GeminiCountTokensPayload } from "./gemini-types"
+import { translateToOpenAI } from "./non-stream-translation"
+
+/**
+ * Handles token counting for Gemini contents
+ */
+export async function handleCountTokens(c: Context, model: string) {
+  try {
+    const geminiPayload = await c.req.json<GeminiCountTokensPayload>()
+
+    // Requests either carry bare contents or a full generateContent request
+    const openAIPayload = translateToOpenAI(
+      geminiPayload.generateContentRequest ?? {
+        contents: geminiPayload.contents ?? [],
+      },
+      model,
+    )
+
+    const selectedModel = state.models?.data.find(
+      (candidate) => candidate.id === model,
+    )
+
+    if (!selectedModel) {
+      consola.warn("Model not found, returning default token count")
+      return c.json({
+        totalTokens: 1,
+      })
+    }
+
+    const tokenCount = await getTokenCount(openAIPayload, selectedModel)
+    const totalTokens = tokenCount.input + tokenCount.output
+
+    consola.info("Token count:", totalTokens)
+
+    return c.json({
+      totalTokens,
+    })
+  } catch (error) {
+    consola.error("Error counting tokens:", error)
+    return c.json({
+      totalTokens: 1,
+    })
+  }
+}
@@ -0,0 +1,34 @@
+import type { Context } from "hono"
+
+import { HTTPError } from "~/lib/error"
+import { withUpstreamAbort } from "~/lib/upstream-abort"
+import { createEmbeddings } from "~/services/copilot/create-embeddings"
+
+import {
+  type GeminiEmbedContentPayload,
+  type GeminiEmbedContentResponse,
+} from "./gemini-types"
+
+export async function handleEmbedContent(c: Context, model: string) {
+  const payload = await c.req.json<GeminiEmbedContentPayload>()
+
+  const text = payload.content.parts.map((part) => part.text ?? "").join("\n")
+  if (!text) {
+    throw new HTTPError(
+      "Unsupported embed content",
+      Response.json(
+        { message: "content must contain at least one text part" },
+        { status: 400 },
+      ),
+    )
+  }
+
+  const response = await withUpstreamAbort(c, (signal) =>
+    createEmbeddings({ model, input: text }, { signal }),
+  )
+
+  const embedding: GeminiEmbedContentResponse = {
+    embedding: { values: response.data[0]?.embedding ?? [] },
+  }
+  return c.json(embedding)
+}
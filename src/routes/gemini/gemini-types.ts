@@ -0,0 +1,139 @@
+// Gemini API Types
+
+export interface GeminiGenerateContentPayload {
+  contents: Array<GeminiContent>
+  systemInstruction?: GeminiContent
+  tools?: Array<GeminiTool>
+  toolConfig?: GeminiToolConfig
+  generationConfig?: GeminiGenerationConfig
+  safetySettings?: Array<unknown>
+}
+
+export interface GeminiContent {
+  role?: "user" | "model" | "function"
+  parts: Array<GeminiPart>
+}
+
+export interface GeminiPart {
+  text?: string
+  // Marks a text part as model reasoning
+  thought?: boolean
+  thoughtSignature?: string
+  inlineData?: GeminiBlob
+  fileData?: {
+    mimeType?: string
+    fileUri: string
+  }
+  functionCall?: GeminiFunctionCall
+  functionResponse?: GeminiFunctionResponse
+}
+
+export interface GeminiBlob {
+  mimeType: string
+  data: string
+}
+
+export interface GeminiFunctionCall {
+  id?: string
+  name: string
+  args?: Record<string, unknown>
+}
+
+export interface GeminiFunctionResponse {
+  id?: string
+  name: string
+  response: Record<string, unknown>
+}
+
+export interface GeminiTool {
+  functionDeclarations?: Array<GeminiFunctionDeclaration>
+}
+
+export interface GeminiFunctionDeclaration {
+  name: string
+  description?: string
+  parameters?: Record<string, unknown>
+  parametersJsonSchema?: Record<string, unknown>
+}
+
+export interface GeminiToolConfig {
+  functionCallingConfig?: {
+    mode?: "AUTO" | "ANY" | "NONE" | "MODE_UNSPECIFIED"
+    allowedFunctionNames?: Array<string>
+  }
+}
+
+export interface GeminiGenerationConfig {
+  temperature?: number
+  topP?: number
+  topK?: number
+  candidateCount?: number
+  maxOutputTokens?: number
+  stopSequences?: Array<string>
+  presencePenalty?: number
+  frequencyPenalty?: number
+  seed?: number
+  responseMimeType?: string
+}
+
+export type GeminiFinishReason =
+  | "STOP"
+  | "MAX_TOKENS"
+  | "SAFETY"
+  | "OTHER"
+  | "FINISH_REASON_UNSPECIFIED"
+
+export interface GeminiCandidate {
+  content: {
+    role: "model"
+    parts: Array<GeminiPart>
+  }
+  finishReason?: GeminiFinishReason
+  index: number
+}
+
+export interface GeminiUsageMetadata {
+  promptTokenCount: number
+  candidatesTokenCount: number
+  totalTokenCount: number
+  cachedContentTokenCount?: number
+}
+
+export interface GeminiGenerateContentResponse {
+  candidates: Array<GeminiCandidate>
+  usageMetadata?: GeminiUsageMetadata
+  modelVersion: string
+  responseId: string
+}
+
+export interface GeminiCountTokensPayload {
+  contents?: Array<GeminiContent>
+  generateContentRequest?: GeminiGenerateContentPayload
+}
+
+export interface GeminiEmbedContentPayload {
+  content: GeminiContent
+  taskType?: string
+  title?: string
+  outputDimensionality?: number
+}
+
+export interface GeminiEmbedContentResponse {
+  embedding: {
+    values: Array<number>
+  }
+}
+
+// Gemini sends each function call as one complete part, so streamed tool call
+// fragments are collected per choice until the choice finishes
+export interface GeminiStreamState {
+  toolCalls: {
+    [choiceIndex: number]: {
+      [openAIToolIndex: number]: {
+        id: string
+        name: string
+        arguments: string
+      }
+    }
+  }
+}
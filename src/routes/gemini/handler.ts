@@ -0,0 +1,130 @@
+import type { Context } from "hono"
+import type { StreamingApi } from "hono/utils/stream"
+
+import consola from "consola"
+import { stream as honoStream, streamSSE } from "hono/streaming"
+
+import { awaitApproval } from "~/lib/approval"
+import { setResolvedModelHeader } from "~/lib/model-aliases"
+import { checkRateLimit } from "~/lib/rate-limit"
+import { queueRequest } from "~/lib/request-queue"
+import { state } from "~/lib/state"
+import { createUpstreamAbort, type UpstreamAbort } from "~/lib/upstream-abort"
+import { isNonStreaming } from "~/lib/utils"
+import {
+  createChatCompletions,
+  type ChatCompletionChunk,
+} from "~/services/copilot/create-chat-completions"
+
+import {
+  type GeminiGenerateContentPayload,
+  type GeminiStreamState,
+} from "./gemini-types"
+import { translateToGemini, translateToOpenAI } from "./non-stream-translation"
+import { translateChunkToGemini } from "./stream-translation"
+
+export async function handleGenerateContent(
+  c: Context,
+  model: string,
+  stream: boolean,
+) {
+  const geminiPayload = await c.req.json<GeminiGenerateContentPayload>()
+  consola.debug("Gemini request payload:", JSON.stringify(geminiPayload))
+
+  // Usage only arrives at the end of a stream when asked for, and Gemini
+  // clients read it from the last event's usageMetadata
+  const openAIPayload = {
+    ...translateToOpenAI(geminiPayload, model),
+    stream,
+    stream_options: stream ? { include_usage: true } : undefined,
+  }
+  consola.debug(
+    "Translated OpenAI request payload:",
+    JSON.stringify(openAIPayload),
+  )
+  await checkRateLimit(c, openAIPayload)
+
+  if (state.manualApprove) {
+    await awaitApproval()
+  }
+  await queueRequest(c, openAIPayload)
+
+  const upstream = createUpstreamAbort(c)
+  const response = await createChatCompletions(openAIPayload, {
+    signal: upstream.signal,
+    onFallback: (model) => setResolvedModelHeader(c, model),
+  })
+
+  if (isNonStreaming(response)) {
+    upstream.finish()
+    consola.debug(
+      "Non-streaming response from Copilot:",
+      JSON.stringify(response).slice(-400),
+    )
+    const geminiResponse = translateToGemini(response)
+    consola.debug("Translated Gemini response:", JSON.stringify(geminiResponse))
+    return c.json(geminiResponse)
+  }
+
+  const translateStream = async function* () {
+    const streamState: GeminiStreamState = { toolCalls: {} }
+
+    for await (const rawEvent of response) {
+      consola.debug("Copilot raw stream event:", JSON.stringify(rawEvent))
+      if (rawEvent.data === "[DONE]") {
+        break
+      }
+
+      if (!rawEvent.data) {
+        continue
+      }
+
+      const chunk = JSON.parse(rawEvent.data) as ChatCompletionChunk
+      yield* translateChunkToGemini(chunk, streamState)
+    }
+  }
+
+  // The Gemini SDKs ask for server-sent events with `alt=sse`; without it
+  // the stream is a single JSON array that is written out element by element
+  if (c.req.query("alt") === "sse") {
+    consola.debug("Streaming response from Copilot as SSE")
+    return streamSSE(c, async (stream) => {
+      await whileConnected(stream, upstream, async () => {
+        for await (const event of translateStream()) {
+          consola.debug("Translated Gemini event:", JSON.stringify(event))
+          await stream.writeSSE({ data: JSON.stringify(event) })
+        }
+      })
+    })
+  }
+
+  consola.debug("Streaming response from Copilot as a JSON array")
+  c.header("Content-Type", "application/json")
+  return honoStream(c, async (stream) => {
+    await whileConnected(stream, upstream, async () => {
+      let first = true
+      for await (const event of translateStream()) {
+        await stream.write(`${first ? "[" : ",\n"}${JSON.stringify(event)}`)
+        first = false
+      }
+      await stream.write(first ? "[]" : "]")
+    })
+  })
+}
+
+// Cancels the upstream request when the client disconnects mid-stream
+async function whileConnected(
+  stream: StreamingApi,
+  upstream: UpstreamAbort,
+  write: () => Promise<void>,
+): Promise<void> {
+  stream.onAbort(upstream.cancel)
+  try {
+    await write()
+  } catch (error) {
+    // The upstream read fails once cancelled; the client is already gone
+    if (!stream.aborted) throw error
+  } finally {
+    upstream.finish()
+  }
+}
@@ -0,0 +1,310 @@
+import {
+  type ChatCompletionResponse,
+  type ChatCompletionsPayload,
+  type ContentPart,
+  type Message,
+  type Tool,
+  type ToolCall,
+} from "~/services/copilot/create-chat-completions"
+
+import {
+  type GeminiContent,
+  type GeminiFinishReason,
+  type GeminiGenerateContentPayload,
+  type GeminiGenerateContentResponse,
+  type GeminiPart,
+  type GeminiTool,
+  type GeminiToolConfig,
+  type GeminiUsageMetadata,
+} from "./gemini-types"
+
+// Payload translation
+
+export function translateToOpenAI(
+  payload: GeminiGenerateContentPayload,
+  model: string,
+): ChatCompletionsPayload {
+  const config = payload.generationConfig
+
+  return {
+    model,
+    messages: translateGeminiContentsToOpenAI(
+      payload.contents,
+      payload.systemInstruction,
+    ),
+    max_tokens: config?.maxOutputTokens,
+    stop: config?.stopSequences,
+    n: config?.candidateCount,
+    temperature: config?.temperature,
+    top_p: config?.topP,
+    presence_penalty: config?.presencePenalty,
+    frequency_penalty: config?.frequencyPenalty,
+    seed: config?.seed,
+    response_format:
+      config?.responseMimeType === "application/json" ?
+        { type: "json_object" }
+      : undefined,
+    tools: translateGeminiToolsToOpenAI(payload.tools),
+    tool_choice: translateGeminiToolConfigToOpenAI(payload.toolConfig),
+  }
+}
+
+function translateGeminiContentsToOpenAI(
+  contents: Array<GeminiContent>,
+  systemInstruction: GeminiContent | undefined,
+): Array<Message> {
+  const messages: Array<Message> = []
+
+  const systemText = systemInstruction && getTextContent(systemInstruction)
+  if (systemText) {
+    messages.push({ role: "system", content: systemText })
+  }
+
+  // Gemini matches function responses to calls by name; OpenAI needs the
+  // call id, so remember the ids handed out for each name in call order
+  const pendingCallIds = new Map<string, Array<string>>()
+
+  for (const content of contents) {
+    if (content.role === "model") {
+      messages.push(
+        handleModelContent(content, pendingCallIds, messages.length),
+      )
+    } else {
+      messages.push(...handleUserContent(content, pendingCallIds))
+    }
+  }
+
+  return messages
+}
+
+function handleModelContent(
+  content: GeminiContent,
+  pendingCallIds: Map<string, Array<string>>,
+  messageIndex: number,
+): Message {
+  const toolCalls: Array<ToolCall> = content.parts
+    .filter((part) => part.functionCall)
+    .map((part, callIndex) => {
+      const call = part.functionCall as NonNullable<GeminiPart["functionCall"]>
+      const id = call.id ?? `call_${messageIndex}_${callIndex}`
+      pendingCallIds.set(call.name, [
+        ...(pendingCallIds.get(call.name) ?? []),
+        id,
+      ])
+      return {
+        id,
+        type: "function",
+        function: {
+          name: call.name,
+          arguments: JSON.stringify(call.args ?? {}),
+        },
+      }
+    })
+
+  return {
+    role: "assistant",
+    content: getTextContent(content) || null,
+    ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+  }
+}
+
+function handleUserContent(
+  content: GeminiContent,
+  pendingCallIds: Map<string, Array<string>>,
+): Array<Message> {
+  const messages: Array<Message> = []
+
+  // Tool results must directly follow the assistant message that made the
+  // calls, so they go before any other user content
+  for (const part of content.parts) {
+    if (!part.functionResponse) continue
+    const { name, response } = part.functionResponse
+    const id = part.functionResponse.id ?? pendingCallIds.get(name)?.shift()
+    messages.push({
+      role: "tool",
+      tool_call_id: id ?? `call_${name}`,
+      content: JSON.stringify(response),
+    })
+  }
+
+  const otherParts = content.parts.filter((part) => !part.functionResponse)
+  if (otherParts.length > 0) {
+    messages.push({ role: "user", content: mapUserParts(otherParts) })
+  }
+
+  return messages
+}
+
+function mapUserParts(parts: Array<GeminiPart>): string | Array<ContentPart> {
+  const hasMedia = parts.some((part) => part.inlineData || part.fileData)
+  if (!hasMedia) {
+    return parts.map((part) => part.text ?? "").join("\n\n")
+  }
+
+  const contentParts: Array<ContentPart> = []
+  for (const part of parts) {
+    if (part.text !== undefined) {
+      contentParts.push({ type: "text", text: part.text })
+    } else if (part.inlineData) {
+      contentParts.push({
+        type: "image_url",
+        image_url: {
+          url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
+        },
+      })
+    } else if (part.fileData) {
+      contentParts.push({
+        type: "image_url",
+        image_url: { url: part.fileData.fileUri },
+      })
+    }
+  }
+  return contentParts
+}
+
+// Reasoning parts are the model's own notes and are not sent back upstream
+const getTextContent = (content: GeminiContent): string =>
+  content.parts
+    .filter((part) => part.text !== undefined && !part.thought)
+    .map((part) => part.text)
+    .join("\n\n")
+
+function translateGeminiToolsToOpenAI(
+  tools: Array<GeminiTool> | undefined,
+): Array<Tool> | undefined {
+  const declarations = tools?.flatMap((tool) => tool.functionDeclarations ?? [])
+  if (!declarations || declarations.length === 0) {
+    return undefined
+  }
+  return declarations.map((declaration) => ({
+    type: "function",
+    function: {
+      name: declaration.name,
+      description: declaration.description,
+      parameters: normalizeSchema(
+        declaration.parametersJsonSchema
+          ?? declaration.parameters ?? { type: "object", properties: {} },
+      ) as Record<string, unknown>,
+    },
+  }))
+}
+
+/**
+ * Gemini schemas use upper-case OpenAPI type names ("OBJECT", "STRING");
+ * JSON Schema expects them in lower case.
+ */
+export function normalizeSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) {
+    return schema.map((item) => normalizeSchema(item))
+  }
+  if (typeof schema !== "object" || schema === null) {
+    return schema
+  }
+
+  return Object.fromEntries(
+    Object.entries(schema).map(([key, value]) => [
+      key,
+      key === "type" && typeof value === "string" ?
+        value.toLowerCase()
+      : normalizeSchema(value),
+    ]),
+  )
+}
+
+function translateGeminiToolConfigToOpenAI(
+  toolConfig: GeminiToolConfig | undefined,
+): ChatCompletionsPayload["tool_choice"] {
+  const config = toolConfig?.functionCallingConfig
+  switch (config?.mode) {
+    case "ANY": {
+      if (config.allowedFunctionNames?.length === 1) {
+        return {
+          type: "function",
+          function: { name: config.allowedFunctionNames[0] },
+        }
+      }
+      return "required"
+    }
+    case "NONE": {
+      return "none"
+    }
+    case "AUTO": {
+      return "auto"
+    }
+    default: {
+      return undefined
+    }
+  }
+}
+
+// Response translation
+
+export function translateToGemini(
+  response: ChatCompletionResponse,
+): GeminiGenerateContentResponse {
+  return {
+    candidates: response.choices.map((choice) => {
+      const parts: Array<GeminiPart> = []
+      if (choice.message.reasoning_text) {
+        parts.push({ text: choice.message.reasoning_text, thought: true })
+      }
+      if (choice.message.content) {
+        parts.push({ text: choice.message.content })
+      }
+      for (const toolCall of choice.message.tool_calls ?? []) {
+        parts.push({
+          functionCall: {
+            id: toolCall.id,
+            name: toolCall.function.name,
+            args: parseToolArguments(toolCall.function.arguments),
+          },
+        })
+      }
+
+      return {
+        content: { role: "model", parts },
+        finishReason: mapOpenAIFinishReasonToGemini(choice.finish_reason),
+        index: choice.index,
+      }
+    }),
+    usageMetadata: response.usage && mapOpenAIUsageToGemini(response.usage),
+    modelVersion: response.model,
+    responseId: response.id,
+  }
+}
+
+export function parseToolArguments(
+  argumentsJson: string,
+): Record<string, unknown> {
+  if (!argumentsJson) return {}
+  return JSON.parse(argumentsJson) as Record<string, unknown>
+}
+
+export function mapOpenAIFinishReasonToGemini(
+  finishReason: "stop" | "length" | "tool_calls" | "content_filter" | null,
+): GeminiFinishReason | undefined {
+  if (finishReason === null) {
+    return undefined
+  }
+  const reasonMap = {
+    stop: "STOP",
+    length: "MAX_TOKENS",
+    tool_calls: "STOP",
+    content_filter: "SAFETY",
+  } as const
+  return reasonMap[finishReason]
+}
+
+export function mapOpenAIUsageToGemini(
+  usage: NonNullable<ChatCompletionResponse["usage"]>,
+): GeminiUsageMetadata {
+  const cachedTokens = usage.prompt_tokens_details?.cached_tokens
+  return {
+    promptTokenCount: usage.prompt_tokens,
+    candidatesTokenCount: usage.completion_tokens,
+    totalTokenCount: usage.total_tokens,
+    ...(cachedTokens !== undefined && {
+      cachedContentTokenCount: cachedTokens,
+    }),
+  }
+}
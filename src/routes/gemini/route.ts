@@ -0,0 +1,46 @@
+import { Hono } from "hono"
+
+import { forwardError, HTTPError } from "~/lib/error"
+import { resolveRequestModel } from "~/lib/model-aliases"
+
+import { handleCountTokens } from "./count-tokens-handler"
+import { handleEmbedContent } from "./embed-handler"
+import { handleGenerateContent } from "./handler"
+
+export const geminiRoutes = new Hono()
+
+// Gemini puts the method after the model id: `/models/{model}:{method}`
+geminiRoutes.post("/:target", async (c) => {
+  try {
+    const target = c.req.param("target")
+    const separator = target.lastIndexOf(":")
+    const model = resolveRequestModel(c, target.slice(0, separator))
+    const method = target.slice(separator + 1)
+
+    switch (separator === -1 ? undefined : method) {
+      case "generateContent": {
+        return await handleGenerateContent(c, model, false)
+      }
+      case "streamGenerateContent": {
+        return await handleGenerateContent(c, model, true)
+      }
+      case "countTokens": {
+        return await handleCountTokens(c, model)
+      }
+      case "embedContent": {
+        return await handleEmbedContent(c, model)
+      }
+      default: {
+        throw new HTTPError(
+          "Unsupported Gemini method",
+          Response.json(
+            { message: `Unsupported method in '${target}'` },
+            { status: 404 },
+          ),
+        )
+      }
+    }
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
@@ -0,0 +1,90 @@
+import { type ChatCompletionChunk } from "~/services/copilot/create-chat-completions"
+
+import {
+  type GeminiCandidate,
+  type GeminiGenerateContentResponse,
+  type GeminiPart,
+  type GeminiStreamState,
+} from "./gemini-types"
+import {
+  mapOpenAIFinishReasonToGemini,
+  mapOpenAIUsageToGemini,
+  parseToolArguments,
+} from "./non-stream-translation"
+
+export function translateChunkToGemini(
+  chunk: ChatCompletionChunk,
+  state: GeminiStreamState,
+): Array<GeminiGenerateContentResponse> {
+  const candidates: Array<GeminiCandidate> = []
+
+  for (const choice of chunk.choices) {
+    const parts: Array<GeminiPart> = []
+    const { delta } = choice
+
+    if (delta.reasoning_text) {
+      parts.push({ text: delta.reasoning_text, thought: true })
+    }
+    if (delta.content) {
+      parts.push({ text: delta.content })
+    }
+
+    const toolCalls = (state.toolCalls[choice.index] ??= {})
+    collectToolCallDeltas(toolCalls, choice)
+
+    if (choice.finish_reason) {
+      parts.push(...flushToolCalls(toolCalls))
+      state.toolCalls[choice.index] = {}
+    }
+
+    if (parts.length === 0 && !choice.finish_reason) continue
+
+    candidates.push({
+      content: { role: "model", parts },
+      finishReason: mapOpenAIFinishReasonToGemini(choice.finish_reason),
+      index: choice.index,
+    })
+  }
+
+  if (candidates.length === 0 && !chunk.usage) {
+    return []
+  }
+
+  return [
+    {
+      candidates,
+      usageMetadata: chunk.usage && mapOpenAIUsageToGemini(chunk.usage),
+      modelVersion: chunk.model,
+      responseId: chunk.id,
+    },
+  ]
+}
+
+type ChunkChoice = ChatCompletionChunk["choices"][number]
+type PendingToolCalls = GeminiStreamState["toolCalls"][number]
+
+function collectToolCallDeltas(
+  toolCalls: PendingToolCalls,
+  choice: ChunkChoice,
+): void {
+  for (const toolCall of choice.delta.tool_calls ?? []) {
+    const entry = (toolCalls[toolCall.index] ??= {
+      id: toolCall.id ?? `call_${choice.index}_${toolCall.index}`,
+      name: "",
+      arguments: "",
+    })
+    if (toolCall.function?.name) entry.name = toolCall.function.name
+    if (toolCall.function?.arguments) {
+      entry.arguments += toolCall.function.arguments
+    }
+  }
+}
+
+const flushToolCalls = (toolCalls: PendingToolCalls): Array<GeminiPart> =>
+  Object.values(toolCalls).map((toolCall) => ({
+    functionCall: {
+      id: toolCall.id,
+      name: toolCall.name,
+      args: parseToolArguments(toolCall.arguments),
+    },
+  }))
@@ -1,3 +1,5 @@
+import { type JsonScan } from "~/lib/json-repair"
+
 // Anthropic API Types
 
 export interface AnthropicMessagesPayload {
@@ -19,31 +21,62 @@ export interface AnthropicMessagesPayload {
     name?: string
   }
   thinking?: {
-    type: "enabled"
+    type: "enabled" | "disabled"
     budget_tokens?: number
   }
   service_tier?: "auto" | "standard_only"
 }
 
+export interface AnthropicCacheControl {
+  type: "ephemeral"
+  ttl?: "5m" | "1h"
+}
+
 export interface AnthropicTextBlock {
   type: "text"
   text: string
+  cache_control?: AnthropicCacheControl | null
+}
+
+export type AnthropicImageMediaType =
+  | "image/jpeg"
+  | "image/png"
+  | "image/gif"
+  | "image/webp"
+
+export interface AnthropicBase64ImageSource {
+  type: "base64"
+  media_type: AnthropicImageMediaType
+  data: string
 }
 
 export interface AnthropicImageBlock {
   type: "image"
-  source: {
-    type: "base64"
-    media_type: "image/jpeg" | "image/png" | "image/gif" | "image/webp"
-    data: string
-  }
+  source: AnthropicBase64ImageSource | { type: "url"; url: string }
+  cache_control?: AnthropicCacheControl | null
+}
+
+export interface AnthropicDocumentBlock {
+  type: "document"
+  source:
+    | { type: "base64"; media_type: "application/pdf"; data: string }
+    | { type: "text"; media_type: "text/plain"; data: string }
+    | {
+        type: "content"
+        content: string | Array<AnthropicTextBlock | AnthropicImageBlock>
+      }
+  title?: string | null
+  context?: string | null
+  citations?: { enabled?: boolean }
+  cache_control?: AnthropicCacheControl | null
 }
 
 export interface AnthropicToolResultBlock {
   type: "tool_result"
   tool_use_id: string
-  content: string
+  content?: string | Array<AnthropicTextBlock | AnthropicImageBlock>
   is_error?: boolean
+  cache_control?: AnthropicCacheControl | null
 }
 
 export interface AnthropicToolUseBlock {
@@ -51,16 +84,19 @@ export interface AnthropicToolUseBlock {
   id: string
   name: string
   input: Record<string, unknown>
+  cache_control?: AnthropicCacheControl | null
 }
 
 export interface AnthropicThinkingBlock {
   type: "thinking"
   thinking: string
+  signature?: string
 }
 
 export type AnthropicUserContentBlock =
   | AnthropicTextBlock
   | AnthropicImageBlock
+  | AnthropicDocumentBlock
   | AnthropicToolResultBlock
 
 export type AnthropicAssistantContentBlock =
@@ -84,6 +120,7 @@ export interface AnthropicTool {
   name: string
   description?: string
   input_schema: Record<string, unknown>
+  cache_control?: AnthropicCacheControl | null
 }
 
 export interface AnthropicResponse {
@@ -130,10 +167,10 @@ export interface AnthropicContentBlockStartEvent {
   index: number
   content_block:
     | { type: "text"; text: string }
-    | (Omit<AnthropicToolUseBlock, "input"> & {
+    | (Omit<AnthropicToolUseBlock, "input" | "cache_control"> & {
         input: Record<string, unknown>
       })
-    | { type: "thinking"; thinking: string }
+    | { type: "thinking"; thinking: string; signature?: string }
 }
 
 export interface AnthropicContentBlockDeltaEvent {
@@ -196,11 +233,35 @@ export interface AnthropicStreamState {
   messageStartSent: boolean
   contentBlockIndex: number
   contentBlockOpen: boolean
+  thinkingBlockOpen: boolean
+  // Held back until the usage-only chunk that follows the finish chunk
+  pendingMessageDelta?: AnthropicMessageDeltaEvent
+  // Everything generated so far, to estimate usage if none is reported
+  outputText: string
+  // Local count of the prompt, reported in message_start as Copilot's own
+  // usage only comes at the end
+  estimatedInputTokens?: number
+  // The request's stop sequences, enforced on the streamed text
+  stopSequences?: Array<string>
+  // Text held back because it may be the start of a stop sequence
+  heldText?: string
+  // Set once a stop sequence has ended the message
+  stopSequence?: string
   toolCalls: {
     [openAIToolIndex: number]: {
       id: string
       name: string
       anthropicBlockIndex: number
+      // Everything received so far
+      arguments: string
+      // How much of it has gone out in input_json_delta events
+      sent: number
+      // What closed the sent text into an object when it went out
+      closing: string
+      scan: JsonScan
+      // Held for repair when the block closes, as it didn't start as a
+      // JSON object
+      buffered: boolean
     }
   }
 }
@@ -0,0 +1,116 @@
+import type { Context } from "hono"
+
+import consola from "consola"
+
+import { HTTPError } from "~/lib/error"
+import { toJsonl } from "~/lib/json-files"
+import { paginateById } from "~/lib/utils"
+
+import type { MessageBatch, MessageBatchCreatePayload } from "./batch-types"
+
+import {
+  cancelMessageBatch,
+  getMessageBatch,
+  listMessageBatches,
+  submitMessageBatch,
+} from "./batch-runner"
+import { readBatchResults } from "./batch-store"
+
+export async function handleCreateBatch(c: Context) {
+  const payload = await c.req.json<MessageBatchCreatePayload>()
+
+  const requests = Array.isArray(payload.requests) ? payload.requests : []
+  if (requests.length === 0) {
+    throw invalidRequest("requests must be a non-empty array")
+  }
+
+  const customIds = new Set<string>()
+  for (const request of requests) {
+    if (typeof request.custom_id !== "string" || !request.custom_id) {
+      throw invalidRequest("Every request needs a custom_id")
+    }
+    if (customIds.has(request.custom_id)) {
+      throw invalidRequest(`Duplicate custom_id '${request.custom_id}'`)
+    }
+    customIds.add(request.custom_id)
+  }
+
+  const batch = await submitMessageBatch(requests)
+  consola.info(
+    `Created message batch ${batch.id} with ${requests.length} requests`,
+  )
+  return c.json(withResultsUrl(c, batch))
+}
+
+// Batches are listed newest first: after_id pages towards older batches,
+// before_id pages back towards newer ones
+export function handleListBatches(c: Context) {
+  const { data, hasMore } = paginateById(listMessageBatches(), {
+    limit: c.req.query("limit"),
+    afterId: c.req.query("after_id"),
+    beforeId: c.req.query("before_id"),
+  })
+
+  return c.json({
+    data: data.map((batch) => withResultsUrl(c, batch)),
+    has_more: hasMore,
+    first_id: data.at(0)?.id ?? null,
+    last_id: data.at(-1)?.id ?? null,
+  })
+}
+
+export function handleGetBatch(c: Context) {
+  const batch = getMessageBatch(c.req.param("id"))
+  if (!batch) throw batchNotFound(c.req.param("id"))
+  return c.json(withResultsUrl(c, batch))
+}
+
+export async function handleCancelBatch(c: Context) {
+  const batch = await cancelMessageBatch(c.req.param("id"))
+  if (!batch) throw batchNotFound(c.req.param("id"))
+  return c.json(withResultsUrl(c, batch))
+}
+
+export async function handleBatchResults(c: Context) {
+  const batch = getMessageBatch(c.req.param("id"))
+  if (!batch) throw batchNotFound(c.req.param("id"))
+
+  if (batch.processing_status !== "ended") {
+    throw invalidRequest(
+      `Message batch ${batch.id} is still ${batch.processing_status}; results are available once it has ended`,
+    )
+  }
+
+  const results = await readBatchResults(batch.id)
+  return c.body(toJsonl(results), 200, {
+    "content-type": "application/x-jsonl",
+  })
+}
+
+// results_url is only meaningful once the batch has ended, and points back at
+// whichever address the client used to reach the proxy
+function withResultsUrl(c: Context, batch: MessageBatch): MessageBatch {
+  if (batch.processing_status !== "ended") return batch
+
+  const origin = new URL(c.req.url).origin
+  const prefix = c.req.path.startsWith("/v1/") ? "/v1" : ""
+  return {
+    ...batch,
+    results_url: `${origin}${prefix}/messages/batches/${batch.id}/results`,
+  }
+}
+
+const invalidRequest = (message: string) =>
+  new HTTPError(
+    "Invalid message batch request",
+    Response.json({ message }, { status: 400 }),
+  )
+
+const batchNotFound = (id: string) =>
+  new HTTPError(
+    "Message batch not found",
+    Response.json(
+      { message: `Message batch '${id}' not found` },
+      { status: 404 },
+    ),
+  )
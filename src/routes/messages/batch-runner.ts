@@ -0,0 +1,182 @@
+import consola from "consola"
+import { randomUUID } from "node:crypto"
+
+import { createBatchJobs, runBatchJob } from "~/lib/batch-jobs"
+import { HTTPError } from "~/lib/error"
+
+import type {
+  MessageBatch,
+  MessageBatchIndividualResponse,
+  MessageBatchRequest,
+  MessageBatchResult,
+} from "./batch-types"
+
+import {
+  appendBatchResult,
+  createBatchFiles,
+  loadBatches,
+  readBatchRequests,
+  readBatchResults,
+  saveBatch,
+} from "./batch-store"
+import { createAnthropicMessage } from "./handler"
+import { translateToOpenAI } from "./non-stream-translation"
+import { mapStatusToAnthropicErrorType } from "./utils"
+
+// Batches expire 24 hours after creation, matching the Anthropic API
+const BATCH_EXPIRY_MS = 24 * 60 * 60 * 1000
+
+const jobs = createBatchJobs<MessageBatch>({
+  label: "message batch",
+  load: loadBatches,
+  isEnded: (batch) => batch.processing_status === "ended",
+  process: processBatch,
+})
+
+export const initMessageBatches = jobs.init
+export const stopMessageBatches = jobs.stop
+
+export async function submitMessageBatch(
+  requests: Array<MessageBatchRequest>,
+): Promise<MessageBatch> {
+  const now = Date.now()
+  const batch: MessageBatch = {
+    id: `msgbatch_${randomUUID().replaceAll("-", "")}`,
+    type: "message_batch",
+    processing_status: "in_progress",
+    request_counts: {
+      processing: requests.length,
+      succeeded: 0,
+      errored: 0,
+      canceled: 0,
+      expired: 0,
+    },
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + BATCH_EXPIRY_MS).toISOString(),
+    ended_at: null,
+    archived_at: null,
+    cancel_initiated_at: null,
+    results_url: null,
+  }
+
+  await createBatchFiles(batch, requests)
+  jobs.submit(batch)
+
+  return batch
+}
+
+export function getMessageBatch(id: string): MessageBatch | undefined {
+  return jobs.get(id)
+}
+
+// Newest first, like the Anthropic API
+export function listMessageBatches(): Array<MessageBatch> {
+  return jobs.all().sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+export async function cancelMessageBatch(
+  id: string,
+): Promise<MessageBatch | undefined> {
+  const batch = jobs.get(id)
+  if (!batch || batch.processing_status !== "in_progress") {
+    return batch
+  }
+
+  batch.processing_status = "canceling"
+  batch.cancel_initiated_at = new Date().toISOString()
+  await saveBatch(batch)
+  return batch
+}
+
+async function processBatch(batch: MessageBatch): Promise<void> {
+  const requests = await readBatchRequests(batch.id)
+  const results = await readBatchResults(batch.id)
+  const finished = new Set(results.map((result) => result.custom_id))
+
+  // Counts on disk may lag behind the results file after a crash
+  recountResults(batch, requests.length, results)
+  await saveBatch(batch)
+
+  const pending = requests.filter((request) => !finished.has(request.custom_id))
+
+  const ran = await jobs.runRequests(pending, async (request) => {
+    const result = await runBatchRequest(batch, request)
+    await appendBatchResult(batch.id, { custom_id: request.custom_id, result })
+    countResult(batch, result)
+    await saveBatch(batch)
+  })
+  if (!ran) return
+
+  endBatch(batch)
+  await saveBatch(batch)
+  consola.info(
+    `Message batch ${batch.id} ended:`,
+    JSON.stringify(batch.request_counts),
+  )
+}
+
+function recountResults(
+  batch: MessageBatch,
+  total: number,
+  results: Array<MessageBatchIndividualResponse>,
+): void {
+  batch.request_counts = {
+    processing: total,
+    succeeded: 0,
+    errored: 0,
+    canceled: 0,
+    expired: 0,
+  }
+  for (const { result } of results) countResult(batch, result)
+}
+
+function countResult(batch: MessageBatch, result: MessageBatchResult): void {
+  batch.request_counts.processing -= 1
+  batch.request_counts[result.type] += 1
+}
+
+function endBatch(batch: MessageBatch): void {
+  batch.processing_status = "ended"
+  batch.ended_at = new Date().toISOString()
+}
+
+async function runBatchRequest(
+  batch: MessageBatch,
+  request: MessageBatchRequest,
+): Promise<MessageBatchResult> {
+  if (batch.processing_status === "canceling") {
+    return { type: "canceled" }
+  }
+  if (Date.now() > Date.parse(batch.expires_at)) {
+    return { type: "expired" }
+  }
+
+  try {
+    const payload = translateToOpenAI(request.params)
+    const message = await runBatchJob({ model: payload.model, payload }, () =>
+      createAnthropicMessage(request.params),
+    )
+    return { type: "succeeded", message }
+  } catch (error) {
+    consola.warn(`Batch request ${request.custom_id} failed:`, error)
+    return {
+      type: "errored",
+      error: { type: "error", error: await toAnthropicError(error) },
+    }
+  }
+}
+
+async function toAnthropicError(
+  error: unknown,
+): Promise<{ type: string; message: string }> {
+  if (error instanceof HTTPError) {
+    return {
+      type: mapStatusToAnthropicErrorType(error.response.status),
+      message: await error.response.text(),
+    }
+  }
+  return {
+    type: "api_error",
+    message: error instanceof Error ? error.message : String(error),
+  }
+}
@@ -0,0 +1,86 @@
+import fs from "node:fs/promises"
+import path from "node:path"
+
+import {
+  parseJsonl,
+  readJsonFile,
+  toJsonl,
+  writeJsonFile,
+} from "~/lib/json-files"
+import { PATHS } from "~/lib/paths"
+
+import type {
+  MessageBatch,
+  MessageBatchIndividualResponse,
+  MessageBatchRequest,
+} from "./batch-types"
+
+// Each batch lives in its own directory:
+//   batch.json      batch metadata, rewritten as results come in
+//   requests.jsonl  the submitted requests, written once
+//   results.jsonl   one line per finished request, appended
+
+const batchDir = (id: string) => path.join(PATHS.MESSAGE_BATCHES_DIR, id)
+const batchPath = (id: string) => path.join(batchDir(id), "batch.json")
+const requestsPath = (id: string) => path.join(batchDir(id), "requests.jsonl")
+const resultsPath = (id: string) => path.join(batchDir(id), "results.jsonl")
+
+export async function createBatchFiles(
+  batch: MessageBatch,
+  requests: Array<MessageBatchRequest>,
+): Promise<void> {
+  await fs.mkdir(batchDir(batch.id), { recursive: true })
+  await fs.writeFile(requestsPath(batch.id), toJsonl(requests))
+  await fs.writeFile(resultsPath(batch.id), "")
+  await saveBatch(batch)
+}
+
+export function saveBatch(batch: MessageBatch): Promise<void> {
+  return writeJsonFile(batchPath(batch.id), batch)
+}
+
+export async function loadBatches(): Promise<Array<MessageBatch>> {
+  let entries: Array<string>
+  try {
+    entries = await fs.readdir(PATHS.MESSAGE_BATCHES_DIR)
+  } catch {
+    return []
+  }
+
+  const batches: Array<MessageBatch> = []
+  for (const id of entries) {
+    try {
+      batches.push(await readJsonFile<MessageBatch>(batchPath(id)))
+    } catch {
+      // Incomplete or foreign directory; ignore it
+    }
+  }
+  return batches
+}
+
+export async function readBatchRequests(
+  id: string,
+): Promise<Array<MessageBatchRequest>> {
+  return parseJsonl<MessageBatchRequest>(
+    await fs.readFile(requestsPath(id), "utf8"),
+  )
+}
+
+export async function readBatchResults(
+  id: string,
+): Promise<Array<MessageBatchIndividualResponse>> {
+  try {
+    return parseJsonl<MessageBatchIndividualResponse>(
+      await fs.readFile(resultsPath(id), "utf8"),
+    )
+  } catch {
+    return []
+  }
+}
+
+export async function appendBatchResult(
+  id: string,
+  result: MessageBatchIndividualResponse,
+): Promise<void> {
+  await fs.appendFile(resultsPath(id), toJsonl([result]))
+}
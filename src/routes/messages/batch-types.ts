@@ -0,0 +1,53 @@
+// Anthropic Message Batches API Types
+
+import type {
+  AnthropicMessagesPayload,
+  AnthropicResponse,
+} from "./anthropic-types"
+
+export interface MessageBatchRequest {
+  custom_id: string
+  params: AnthropicMessagesPayload
+}
+
+export interface MessageBatchCreatePayload {
+  requests: Array<MessageBatchRequest>
+}
+
+export interface MessageBatchRequestCounts {
+  processing: number
+  succeeded: number
+  errored: number
+  canceled: number
+  expired: number
+}
+
+export interface MessageBatch {
+  id: string
+  type: "message_batch"
+  processing_status: "in_progress" | "canceling" | "ended"
+  request_counts: MessageBatchRequestCounts
+  created_at: string
+  expires_at: string
+  ended_at: string | null
+  archived_at: string | null
+  cancel_initiated_at: string | null
+  results_url: string | null
+}
+
+export type MessageBatchResult =
+  | { type: "succeeded"; message: AnthropicResponse }
+  | {
+      type: "errored"
+      error: {
+        type: "error"
+        error: { type: string; message: string }
+      }
+    }
+  | { type: "canceled" }
+  | { type: "expired" }
+
+export interface MessageBatchIndividualResponse {
+  custom_id: string
+  result: MessageBatchResult
+}
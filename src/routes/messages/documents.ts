@@ -0,0 +1,145 @@
+import { HTTPError } from "~/lib/error"
+import { extractPdfText } from "~/lib/pdf"
+import { state } from "~/lib/state"
+import { getTokenCount } from "~/lib/tokenizer"
+import { type ContentPart } from "~/services/copilot/create-chat-completions"
+
+import {
+  type AnthropicDocumentBlock,
+  type AnthropicMessagesPayload,
+} from "./anthropic-types"
+import { toImagePart } from "./image-sources"
+
+// Copilot has no document input, so documents are sent as text. Translation
+// and the size check both need a document's parts; cache them per block so a
+// PDF is only extracted once per request.
+const documentParts = new WeakMap<AnthropicDocumentBlock, Array<ContentPart>>()
+
+export function translateDocument(
+  block: AnthropicDocumentBlock,
+): Array<ContentPart> {
+  let parts = documentParts.get(block)
+  if (!parts) {
+    parts = buildDocumentParts(block)
+    documentParts.set(block, parts)
+  }
+  return parts
+}
+
+export const documentHasImages = (block: AnthropicDocumentBlock) =>
+  translateDocument(block).some((part) => part.type === "image_url")
+
+/**
+ * The document as a single string, for messages that carry no images
+ */
+export const documentText = (block: AnthropicDocumentBlock) =>
+  translateDocument(block)
+    .flatMap((part) => (part.type === "text" ? [part.text] : []))
+    .join("\n\n")
+
+function buildDocumentParts(block: AnthropicDocumentBlock): Array<ContentPart> {
+  const header = [
+    block.title && `Document: ${block.title}`,
+    block.context && `Context: ${block.context}`,
+  ]
+    .filter(Boolean)
+    .join("\n")
+  const withHeader = (body: string) => (header ? `${header}\n\n${body}` : body)
+
+  const { source } = block
+  switch (source.type) {
+    case "base64": {
+      // Base64 documents must be PDFs
+      const mediaType: string = source.media_type
+      if (mediaType !== "application/pdf") {
+        throw invalidDocument(`Unsupported document media type '${mediaType}'`)
+      }
+      return [{ type: "text", text: withHeader(extractPdfPages(source.data)) }]
+    }
+    case "text": {
+      return [{ type: "text", text: withHeader(source.data) }]
+    }
+    case "content": {
+      const blocks =
+        typeof source.content === "string" ?
+          [{ type: "text" as const, text: source.content }]
+        : source.content
+      const parts = blocks.map(
+        (contentBlock): ContentPart =>
+          contentBlock.type === "text" ?
+            { type: "text", text: contentBlock.text }
+          : toImagePart(contentBlock),
+      )
+      return header ? [{ type: "text", text: header }, ...parts] : parts
+    }
+    default: {
+      throw invalidDocument(
+        `Unsupported document source type '${(source as { type: string }).type}'`,
+      )
+    }
+  }
+}
+
+// Page markers let the model cite and navigate pages the way it would with
+// native PDF support
+function extractPdfPages(data: string): string {
+  let pages: Array<string>
+  try {
+    pages = extractPdfText(Buffer.from(data, "base64"))
+  } catch (error) {
+    throw invalidDocument(
+      `Could not read PDF document: ${(error as Error).message}`,
+    )
+  }
+
+  return pages
+    .map(
+      (text, index) =>
+        `--- Page ${index + 1} ---\n${text || "[No extractable text on this page]"}`,
+    )
+    .join("\n\n")
+}
+
+/**
+ * Rejects requests with a document that could never fit the model's prompt,
+ * rather than letting Copilot fail with a less helpful error
+ */
+export async function checkDocumentSizes(
+  payload: AnthropicMessagesPayload,
+  modelId: string,
+): Promise<void> {
+  const model = state.models?.data.find((m) => m.id === modelId)
+  const limit =
+    model?.capabilities.limits.max_prompt_tokens
+    ?? model?.capabilities.limits.max_context_window_tokens
+  if (!model || !limit) {
+    return
+  }
+
+  const documents = payload.messages.flatMap((message) =>
+    Array.isArray(message.content) ?
+      message.content.filter(
+        (block): block is AnthropicDocumentBlock => block.type === "document",
+      )
+    : [],
+  )
+
+  for (const [index, document] of documents.entries()) {
+    const { input } = await getTokenCount(
+      {
+        model: model.id,
+        messages: [{ role: "user", content: documentText(document) }],
+      },
+      model,
+    )
+    if (input > limit) {
+      const name = document.title ? `'${document.title}'` : `#${index + 1}`
+      throw invalidDocument(
+        `Document ${name} is about ${input} tokens, which exceeds the ${limit} token prompt limit of model '${model.id}'`,
+      )
+    }
+  }
+}
+
+const invalidDocument = (message: string) =>
+  new HTTPError("Invalid document", Response.json({ message }, { status: 400 }))
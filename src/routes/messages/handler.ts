@@ -1,51 +1,84 @@
 import type { Context } from "hono"
 
 import consola from "consola"
-import { streamSSE } from "hono/streaming"
+import { streamSSE, type SSEStreamingApi } from "hono/streaming"
 
 import { awaitApproval } from "~/lib/approval"
+import { setResolvedModelHeader } from "~/lib/model-aliases"
 import { checkRateLimit } from "~/lib/rate-limit"
+import { queueRequest } from "~/lib/request-queue"
+import {
+  createCachedChatCompletions,
+  getCachedCompletion,
+} from "~/lib/response-cache"
 import { state } from "~/lib/state"
+import { getTokenCount } from "~/lib/tokenizer"
+import { createUpstreamAbort } from "~/lib/upstream-abort"
+import { isNonStreaming } from "~/lib/utils"
 import {
   createChatCompletions,
-  type ChatCompletionChunk,
-  type ChatCompletionResponse,
+  type ChatCompletionsPayload,
 } from "~/services/copilot/create-chat-completions"
 
 import {
   type AnthropicMessagesPayload,
+  type AnthropicMessageDeltaEvent,
+  type AnthropicResponse,
+  type AnthropicStreamEventData,
   type AnthropicStreamState,
 } from "./anthropic-types"
+import { checkDocumentSizes } from "./documents"
+import { inlineImageUrls } from "./image-sources"
 import {
   translateToAnthropic,
   translateToOpenAI,
 } from "./non-stream-translation"
-import { translateChunkToAnthropicEvents } from "./stream-translation"
+import {
+  closeOpenContentBlock,
+  flushMessageDelta,
+  parseStreamChunk,
+  translateChunkToAnthropicEvents,
+  translateErrorToAnthropicErrorEvent,
+} from "./stream-translation"
 
 export async function handleCompletion(c: Context) {
-  await checkRateLimit(state)
-
   const anthropicPayload = await c.req.json<AnthropicMessagesPayload>()
   consola.debug("Anthropic request payload:", JSON.stringify(anthropicPayload))
 
+  await inlineImageUrls(anthropicPayload)
   const openAIPayload = translateToOpenAI(anthropicPayload)
+  setResolvedModelHeader(c, openAIPayload.model)
   consola.debug(
     "Translated OpenAI request payload:",
     JSON.stringify(openAIPayload),
   )
+  await checkDocumentSizes(anthropicPayload, openAIPayload.model)
+  // A cached answer never reaches Copilot, so it skips the limits and queue
+  const cached = await getCachedCompletion(c, openAIPayload)
+  if (!cached) await checkRateLimit(c, openAIPayload)
 
   if (state.manualApprove) {
     await awaitApproval()
   }
+  if (!cached) await queueRequest(c, openAIPayload)
 
-  const response = await createChatCompletions(openAIPayload)
+  const upstream = createUpstreamAbort(c)
+  const response =
+    cached
+    ?? (await createCachedChatCompletions(c, openAIPayload, {
+      signal: upstream.signal,
+    }))
 
   if (isNonStreaming(response)) {
+    upstream.finish()
     consola.debug(
       "Non-streaming response from Copilot:",
       JSON.stringify(response).slice(-400),
     )
-    const anthropicResponse = translateToAnthropic(response)
+    const anthropicResponse = translateToAnthropic(
+      response,
+      anthropicPayload.stop_sequences,
+    )
     consola.debug(
       "Translated Anthropic response:",
       JSON.stringify(anthropicResponse),
@@ -54,38 +87,143 @@ export async function handleCompletion(c: Context) {
   }
 
   consola.debug("Streaming response from Copilot")
+  const requestId = c.get("requestId")
+  const estimatedInputTokens = await estimateInputTokens(openAIPayload)
   return streamSSE(c, async (stream) => {
     const streamState: AnthropicStreamState = {
       messageStartSent: false,
       contentBlockIndex: 0,
       contentBlockOpen: false,
+      thinkingBlockOpen: false,
       toolCalls: {},
+      outputText: "",
+      estimatedInputTokens,
+      stopSequences: anthropicPayload.stop_sequences,
     }
+    stream.onAbort(upstream.cancel)
 
-    for await (const rawEvent of response) {
-      consola.debug("Copilot raw stream event:", JSON.stringify(rawEvent))
-      if (rawEvent.data === "[DONE]") {
-        break
-      }
+    try {
+      for await (const rawEvent of response) {
+        consola.debug("Copilot raw stream event:", JSON.stringify(rawEvent))
+        if (rawEvent.data === "[DONE]") {
+          break
+        }
 
-      if (!rawEvent.data) {
-        continue
-      }
+        if (!rawEvent.data) {
+          continue
+        }
 
-      const chunk = JSON.parse(rawEvent.data) as ChatCompletionChunk
-      const events = translateChunkToAnthropicEvents(chunk, streamState)
+        const chunk = parseStreamChunk(rawEvent)
+        await writeEvents(
+          stream,
+          translateChunkToAnthropicEvents(chunk, streamState),
+        )
+        // A stop sequence the model ran past ends the message here, so the
+        // rest of its output isn't wanted
+        if (streamState.stopSequence !== undefined) {
+          upstream.stop()
+          break
+        }
+      }
 
-      for (const event of events) {
-        consola.debug("Translated Anthropic event:", JSON.stringify(event))
-        await stream.writeSSE({
-          event: event.type,
-          data: JSON.stringify(event),
-        })
+      if (streamState.pendingMessageDelta) {
+        consola.debug("Copilot reported no usage, estimating it")
+        const usage = await estimateUsage(openAIPayload, streamState)
+        await writeEvents(stream, flushMessageDelta(streamState, usage))
+      }
+    } catch (error) {
+      // Nobody is left to tell once the client has gone, and the upstream
+      // read fails because it was cancelled
+      if (stream.aborted) {
+        return
       }
+      consola.error(`Copilot stream failed for request ${requestId}:`, error)
+      await writeEvents(stream, [
+        ...closeOpenContentBlock(streamState),
+        translateErrorToAnthropicErrorEvent(error),
+      ])
+    } finally {
+      upstream.finish()
     }
   })
 }
 
-const isNonStreaming = (
-  response: Awaited<ReturnType<typeof createChatCompletions>>,
-): response is ChatCompletionResponse => Object.hasOwn(response, "choices")
+// Claude Code's context meter relies on stream usage, so message_start
+// carries a local count of the prompt until Copilot reports the real one
+async function estimateInputTokens(
+  payload: ChatCompletionsPayload,
+): Promise<number> {
+  const model = state.models?.data.find((m) => m.id === payload.model)
+  if (!model) {
+    return 0
+  }
+
+  try {
+    // The prompt's earlier assistant turns are input to this request, even
+    // though getTokenCount reports them as output
+    const prompt = await getTokenCount(payload, model)
+    return prompt.input + prompt.output
+  } catch (error) {
+    consola.warn("Failed to estimate input tokens:", error)
+    return 0
+  }
+}
+
+// A stream without reported usage gets a local estimate rather than zeros
+async function estimateUsage(
+  payload: ChatCompletionsPayload,
+  streamState: AnthropicStreamState,
+): Promise<AnthropicMessageDeltaEvent["usage"]> {
+  const input_tokens = streamState.estimatedInputTokens ?? 0
+  const model = state.models?.data.find((m) => m.id === payload.model)
+  if (!model) {
+    return { input_tokens, output_tokens: 0 }
+  }
+
+  const completion = await getTokenCount(
+    {
+      model: model.id,
+      messages: [{ role: "assistant", content: streamState.outputText }],
+    },
+    model,
+  )
+  return {
+    input_tokens,
+    output_tokens: completion.output,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+  }
+}
+
+async function writeEvents(
+  stream: SSEStreamingApi,
+  events: Array<AnthropicStreamEventData>,
+) {
+  for (const event of events) {
+    consola.debug("Translated Anthropic event:", JSON.stringify(event))
+    await stream.writeSSE({
+      event: event.type,
+      data: JSON.stringify(event),
+    })
+  }
+}
+
+/**
+ * Runs a request through the same translation pipeline without streaming.
+ * Used for batch requests, which have no client connection to stream to.
+ */
+export async function createAnthropicMessage(
+  anthropicPayload: AnthropicMessagesPayload,
+): Promise<AnthropicResponse> {
+  await inlineImageUrls(anthropicPayload)
+  const openAIPayload = translateToOpenAI({
+    ...anthropicPayload,
+    stream: false,
+  })
+  await checkDocumentSizes(anthropicPayload, openAIPayload.model)
+  const response = await createChatCompletions(openAIPayload)
+  if (!isNonStreaming(response)) {
+    throw new Error("Expected a non-streaming response from Copilot")
+  }
+  return translateToAnthropic(response, anthropicPayload.stop_sequences)
+}
@@ -0,0 +1,254 @@
+import consola from "consola"
+import dns from "node:dns/promises"
+import net from "node:net"
+
+import { HTTPError } from "~/lib/error"
+import { type ContentPart } from "~/services/copilot/create-chat-completions"
+
+import {
+  type AnthropicBase64ImageSource,
+  type AnthropicImageBlock,
+  type AnthropicImageMediaType,
+  type AnthropicMessagesPayload,
+  type AnthropicUserContentBlock,
+} from "./anthropic-types"
+
+// Anthropic's own limit for a single image
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+const IMAGE_FETCH_TIMEOUT_MS = 30_000
+const MAX_REDIRECTS = 5
+
+// Loopback, private, shared, link-local, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new net.BlockList()
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(prefix, bits, "ipv4")
+}
+for (const [prefix, bits] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(prefix, bits, "ipv6")
+}
+
+const SUPPORTED_MEDIA_TYPES = new Set<string>([
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+])
+
+export const toImagePart = (block: AnthropicImageBlock): ContentPart => ({
+  type: "image_url",
+  image_url: {
+    url:
+      block.source.type === "url" ?
+        block.source.url
+      : `data:${block.source.media_type};base64,${block.source.data}`,
+  },
+})
+
+/**
+ * Downloads every `url` image source in the request and inlines it as
+ * base64, so Copilot receives the image data rather than a link it may not
+ * be able to reach. Only public addresses are fetched. Fetches go through
+ * the global dispatcher, which honours the proxy settings. Blocks are
+ * updated in place.
+ */
+export async function inlineImageUrls(
+  payload: AnthropicMessagesPayload,
+): Promise<void> {
+  const blocks = payload.messages.flatMap((message) =>
+    message.role === "user" && Array.isArray(message.content) ?
+      collectImageBlocks(message.content)
+    : [],
+  )
+
+  // The same screenshot is often attached more than once
+  const urls = new Set(
+    blocks.flatMap((block) =>
+      block.source.type === "url" ? [block.source.url] : [],
+    ),
+  )
+  if (urls.size === 0) {
+    return
+  }
+
+  const sources = new Map(
+    await Promise.all(
+      [...urls].map(async (url) => [url, await fetchImage(url)] as const),
+    ),
+  )
+  for (const block of blocks) {
+    if (block.source.type === "url") {
+      block.source = sources.get(block.source.url) ?? block.source
+    }
+  }
+}
+
+function collectImageBlocks(
+  blocks: Array<AnthropicUserContentBlock>,
+): Array<AnthropicImageBlock> {
+  return blocks.flatMap((block) => {
+    switch (block.type) {
+      case "image": {
+        return [block]
+      }
+      case "tool_result": {
+        return Array.isArray(block.content) ?
+            block.content.filter((item) => item.type === "image")
+          : []
+      }
+      case "document": {
+        return (
+            block.source.type === "content"
+              && Array.isArray(block.source.content)
+          ) ?
+            block.source.content.filter((item) => item.type === "image")
+          : []
+      }
+      default: {
+        return []
+      }
+    }
+  })
+}
+
+async function fetchImage(url: string): Promise<AnthropicBase64ImageSource> {
+  const response = await fetchPublicUrl(url)
+  if (!response.ok) {
+    await response.body?.cancel()
+    throw invalidImage(`Could not fetch image ${url}: HTTP ${response.status}`)
+  }
+
+  const mediaType = response.headers
+    .get("content-type")
+    ?.split(";")[0]
+    .trim()
+    .toLowerCase()
+  if (!mediaType || !SUPPORTED_MEDIA_TYPES.has(mediaType)) {
+    await response.body?.cancel()
+    throw invalidImage(
+      `Unsupported image type '${mediaType ?? "unknown"}' at ${url}`,
+    )
+  }
+
+  const data = await readWithLimit(response, url)
+  return {
+    type: "base64",
+    media_type: mediaType as AnthropicImageMediaType,
+    data: data.toString("base64"),
+  }
+}
+
+// Redirects are followed by hand so every hop gets the same destination
+// check as the URL the client sent
+async function fetchPublicUrl(url: string): Promise<Response> {
+  const signal = AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS)
+  let target = url
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await checkDestination(target)
+    consola.debug("Fetching image:", target)
+    let response: Response
+    try {
+      response = await fetch(target, { signal, redirect: "manual" })
+    } catch (error) {
+      throw invalidImage(
+        `Could not fetch image ${url}: ${(error as Error).message}`,
+      )
+    }
+
+    const location = response.headers.get("location")
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response
+    }
+    await response.body?.cancel()
+    target = new URL(location, target).href
+  }
+  throw invalidImage(`Too many redirects fetching image ${url}`)
+}
+
+/**
+ * Only public http(s) hosts may be fetched. Without this a client could make
+ * the proxy read from loopback, link-local (cloud metadata) or private
+ * addresses on its network. Hostnames are resolved first and rejected when
+ * any of their addresses is private.
+ */
+async function checkDestination(url: string): Promise<void> {
+  if (!URL.canParse(url) || !/^https?:$/.test(new URL(url).protocol)) {
+    throw invalidImage(`Image URL must be an http or https URL: ${url}`)
+  }
+
+  const host = new URL(url).hostname.replaceAll(/^\[|\]$/g, "")
+  let addresses: Array<{ address: string; family: number }>
+  try {
+    addresses =
+      net.isIP(host) ?
+        [{ address: host, family: net.isIP(host) }]
+      : await dns.lookup(host, { all: true })
+  } catch (error) {
+    throw invalidImage(
+      `Could not resolve image host ${host}: ${(error as Error).message}`,
+    )
+  }
+
+  if (
+    addresses.length === 0
+    || addresses.some(({ address, family }) =>
+      isPrivateAddress(address, family),
+    )
+  ) {
+    throw invalidImage(`Image URL must point to a public address: ${url}`)
+  }
+}
+
+const isPrivateAddress = (address: string, family: number) =>
+  PRIVATE_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4")
+
+// Content-Length can be missing or wrong, so the body is counted as it
+// arrives and the download abandoned once it is too large
+async function readWithLimit(response: Response, url: string): Promise<Buffer> {
+  const tooLarge = () =>
+    invalidImage(
+      `Image at ${url} is larger than the ${MAX_IMAGE_BYTES / 1024 / 1024} MB limit`,
+    )
+
+  if (Number(response.headers.get("content-length")) > MAX_IMAGE_BYTES) {
+    await response.body?.cancel()
+    throw tooLarge()
+  }
+  if (!response.body) {
+    return Buffer.alloc(0)
+  }
+
+  const reader =
+    response.body.getReader() as ReadableStreamDefaultReader<Uint8Array>
+  const chunks: Array<Uint8Array> = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > MAX_IMAGE_BYTES) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+const invalidImage = (message: string) =>
+  new HTTPError("Invalid image", Response.json({ message }, { status: 400 }))
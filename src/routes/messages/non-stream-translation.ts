@@ -1,3 +1,5 @@
+import { resolveModel } from "~/lib/model-aliases"
+import { state } from "~/lib/state"
 import {
   type ChatCompletionResponse,
   type ChatCompletionsPayload,
@@ -22,50 +24,132 @@ import {
   type AnthropicUserContentBlock,
   type AnthropicUserMessage,
 } from "./anthropic-types"
-import { mapOpenAIStopReasonToAnthropic } from "./utils"
+import { documentHasImages, documentText, translateDocument } from "./documents"
+import { toImagePart } from "./image-sources"
+import { applyStopSequences } from "./stop-sequences"
+import {
+  mapOpenAIStopReasonToAnthropic,
+  mapOpenAIUsageToAnthropic,
+  parseToolInput,
+} from "./utils"
 
 // Payload translation
 
 export function translateToOpenAI(
   payload: AnthropicMessagesPayload,
 ): ChatCompletionsPayload {
+  const model = resolveModel(payload.model)
+  const promptCaching = supportsPromptCaching(model)
+
   return {
-    model: translateModelName(payload.model),
+    model,
     messages: translateAnthropicMessagesToOpenAI(
       payload.messages,
       payload.system,
+      promptCaching,
     ),
     max_tokens: payload.max_tokens,
+    // Also enforced on the response, as some models ignore `stop`
     stop: payload.stop_sequences,
     stream: payload.stream,
+    // Without this Copilot streams carry no usage for message_delta
+    stream_options: payload.stream ? { include_usage: true } : undefined,
     temperature: payload.temperature,
     top_p: payload.top_p,
     user: payload.metadata?.user_id,
-    tools: translateAnthropicToolsToOpenAI(payload.tools),
+    tools: translateAnthropicToolsToOpenAI(payload.tools, promptCaching),
     tool_choice: translateAnthropicToolChoiceToOpenAI(payload.tool_choice),
+    ...translateThinkingToOpenAI(payload),
+  }
+}
+
+// Budgets used by Claude Code's "think" (4k), "think hard" (10k) and
+// "ultrathink" (32k) modes land in low, medium and high respectively
+const LOW_EFFORT_MAX_BUDGET = 4096
+const MEDIUM_EFFORT_MAX_BUDGET = 16384
+
+function translateThinkingToOpenAI(
+  payload: AnthropicMessagesPayload,
+): Pick<ChatCompletionsPayload, "reasoning_effort" | "thinking_budget"> {
+  if (payload.thinking?.type !== "enabled") {
+    return {}
+  }
+
+  const model = state.models?.data.find(
+    (m) => m.id === resolveModel(payload.model),
+  )
+  const supports = model?.capabilities.supports
+  const budget = payload.thinking.budget_tokens
+
+  if (supports?.max_thinking_budget !== undefined) {
+    const requested = budget ?? supports.max_thinking_budget
+    return {
+      thinking_budget: Math.min(
+        Math.max(requested, supports.min_thinking_budget ?? 0),
+        supports.max_thinking_budget,
+      ),
+    }
+  }
+
+  if (supports?.reasoning_effort && supports.reasoning_effort.length > 0) {
+    const effort = mapThinkingBudgetToReasoningEffort(budget)
+    return supports.reasoning_effort.includes(effort) ?
+        { reasoning_effort: effort }
+      : {}
   }
+
+  // Model is not reasoning-capable; sending either field would be rejected
+  return {}
 }
 
-function translateModelName(model: string): string {
-  // Subagent requests use a specific model number which Copilot doesn't support
-  if (model.startsWith("claude-sonnet-4-")) {
-    return model.replace(/^claude-sonnet-4-.*/, "claude-sonnet-4")
-  } else if (model.startsWith("claude-opus-")) {
-    return model.replace(/^claude-opus-4-.*/, "claude-opus-4")
+export function mapThinkingBudgetToReasoningEffort(
+  budgetTokens: number | undefined,
+): "low" | "medium" | "high" {
+  if (budgetTokens === undefined) {
+    return "medium"
+  }
+  if (budgetTokens <= LOW_EFFORT_MAX_BUDGET) {
+    return "low"
   }
-  return model
+  if (budgetTokens <= MEDIUM_EFFORT_MAX_BUDGET) {
+    return "medium"
+  }
+  return "high"
+}
+
+// Copilot only honors cache breakpoints for Claude-family models
+function supportsPromptCaching(model: string): boolean {
+  const selectedModel = state.models?.data.find((m) => m.id === model)
+  const family = selectedModel?.capabilities.family ?? model
+  return family.startsWith("claude")
+}
+
+// A message gets a cache breakpoint when any block it was built from has one
+function cacheControlFor(
+  blocks: Array<AnthropicUserContentBlock | AnthropicAssistantContentBlock>,
+  promptCaching: boolean,
+): Pick<Message, "copilot_cache_control"> {
+  return (
+      promptCaching
+        && blocks.some(
+          (block) => "cache_control" in block && block.cache_control,
+        )
+    ) ?
+      { copilot_cache_control: { type: "ephemeral" } }
+    : {}
 }
 
 function translateAnthropicMessagesToOpenAI(
   anthropicMessages: Array<AnthropicMessage>,
   system: string | Array<AnthropicTextBlock> | undefined,
+  promptCaching: boolean,
 ): Array<Message> {
-  const systemMessages = handleSystemPrompt(system)
+  const systemMessages = handleSystemPrompt(system, promptCaching)
 
   const otherMessages = anthropicMessages.flatMap((message) =>
     message.role === "user" ?
-      handleUserMessage(message)
-    : handleAssistantMessage(message),
+      handleUserMessage(message, promptCaching)
+    : handleAssistantMessage(message, promptCaching),
   )
 
   return [...systemMessages, ...otherMessages]
@@ -73,6 +157,7 @@ function translateAnthropicMessagesToOpenAI(
 
 function handleSystemPrompt(
   system: string | Array<AnthropicTextBlock> | undefined,
+  promptCaching: boolean,
 ): Array<Message> {
   if (!system) {
     return []
@@ -82,11 +167,20 @@ function handleSystemPrompt(
     return [{ role: "system", content: system }]
   } else {
     const systemText = system.map((block) => block.text).join("\n\n")
-    return [{ role: "system", content: systemText }]
+    return [
+      {
+        role: "system",
+        content: systemText,
+        ...cacheControlFor(system, promptCaching),
+      },
+    ]
   }
 }
 
-function handleUserMessage(message: AnthropicUserMessage): Array<Message> {
+function handleUserMessage(
+  message: AnthropicUserMessage,
+  promptCaching: boolean,
+): Array<Message> {
   const newMessages: Array<Message> = []
 
   if (Array.isArray(message.content)) {
@@ -103,7 +197,8 @@ function handleUserMessage(message: AnthropicUserMessage): Array<Message> {
       newMessages.push({
         role: "tool",
         tool_call_id: block.tool_use_id,
-        content: mapContent(block.content),
+        content: mapToolResultContent(block),
+        ...cacheControlFor([block], promptCaching),
       })
     }
 
@@ -111,6 +206,7 @@ function handleUserMessage(message: AnthropicUserMessage): Array<Message> {
       newMessages.push({
         role: "user",
         content: mapContent(otherBlocks),
+        ...cacheControlFor(otherBlocks, promptCaching),
       })
     }
   } else {
@@ -125,6 +221,7 @@ function handleUserMessage(message: AnthropicUserMessage): Array<Message> {
 
 function handleAssistantMessage(
   message: AnthropicAssistantMessage,
+  promptCaching: boolean,
 ): Array<Message> {
   if (!Array.isArray(message.content)) {
     return [
@@ -147,10 +244,22 @@ function handleAssistantMessage(
     (block): block is AnthropicThinkingBlock => block.type === "thinking",
   )
 
+  // Thinking we produced from upstream reasoning carries a signature and is
+  // returned as reasoning; anything else is folded into the text content
+  const signedThinking = thinkingBlocks.find((b) => b.signature)
+  const reasoning =
+    signedThinking ?
+      {
+        reasoning_text: thinkingBlocks.map((b) => b.thinking).join("\n\n"),
+        reasoning_opaque: signedThinking.signature,
+      }
+    : {}
+  const cacheControl = cacheControlFor(message.content, promptCaching)
+
   // Combine text and thinking blocks, as OpenAI doesn't have separate thinking blocks
   const allTextContent = [
     ...textBlocks.map((b) => b.text),
-    ...thinkingBlocks.map((b) => b.thinking),
+    ...(signedThinking ? [] : thinkingBlocks.map((b) => b.thinking)),
   ].join("\n\n")
 
   return toolUseBlocks.length > 0 ?
@@ -166,16 +275,37 @@ function handleAssistantMessage(
               arguments: JSON.stringify(toolUse.input),
             },
           })),
+          ...reasoning,
+          ...cacheControl,
         },
       ]
     : [
         {
           role: "assistant",
-          content: mapContent(message.content),
+          content:
+            signedThinking ? allTextContent : mapContent(message.content),
+          ...reasoning,
+          ...cacheControl,
         },
       ]
 }
 
+// Copilot has no error flag on tool messages, so failures are spelled out
+// in the content for the model to see
+const TOOL_ERROR_MARKER = "[Tool error]"
+
+function mapToolResultContent(
+  block: AnthropicToolResultBlock,
+): string | Array<ContentPart> {
+  const content = mapContent(block.content ?? "") ?? ""
+  if (!block.is_error) {
+    return content
+  }
+  return typeof content === "string" ?
+      `${TOOL_ERROR_MARKER} ${content}`
+    : [{ type: "text", text: TOOL_ERROR_MARKER }, ...content]
+}
+
 function mapContent(
   content:
     | string
@@ -188,14 +318,29 @@ function mapContent(
     return null
   }
 
-  const hasImage = content.some((block) => block.type === "image")
+  const hasImage = content.some(
+    (block) =>
+      block.type === "image"
+      || (block.type === "document" && documentHasImages(block)),
+  )
   if (!hasImage) {
     return content
-      .filter(
-        (block): block is AnthropicTextBlock | AnthropicThinkingBlock =>
-          block.type === "text" || block.type === "thinking",
-      )
-      .map((block) => (block.type === "text" ? block.text : block.thinking))
+      .flatMap((block) => {
+        switch (block.type) {
+          case "text": {
+            return [block.text]
+          }
+          case "thinking": {
+            return [block.thinking]
+          }
+          case "document": {
+            return [documentText(block)]
+          }
+          default: {
+            return []
+          }
+        }
+      })
       .join("\n\n")
   }
 
@@ -213,12 +358,12 @@ function mapContent(
         break
       }
       case "image": {
-        contentParts.push({
-          type: "image_url",
-          image_url: {
-            url: `data:${block.source.media_type};base64,${block.source.data}`,
-          },
-        })
+        contentParts.push(toImagePart(block))
+
+        break
+      }
+      case "document": {
+        contentParts.push(...translateDocument(block))
 
         break
       }
@@ -230,6 +375,7 @@ function mapContent(
 
 function translateAnthropicToolsToOpenAI(
   anthropicTools: Array<AnthropicTool> | undefined,
+  promptCaching: boolean,
 ): Array<Tool> | undefined {
   if (!anthropicTools) {
     return undefined
@@ -241,6 +387,10 @@ function translateAnthropicToolsToOpenAI(
       description: tool.description,
       parameters: tool.input_schema,
     },
+    ...(promptCaching
+      && tool.cache_control && {
+        copilot_cache_control: { type: "ephemeral" as const },
+      }),
   }))
 }
 
@@ -280,8 +430,10 @@ function translateAnthropicToolChoiceToOpenAI(
 
 export function translateToAnthropic(
   response: ChatCompletionResponse,
+  stopSequences?: Array<string>,
 ): AnthropicResponse {
   // Merge content from all choices
+  const allThinkingBlocks: Array<AnthropicThinkingBlock> = []
   const allTextBlocks: Array<AnthropicTextBlock> = []
   const allToolUseBlocks: Array<AnthropicToolUseBlock> = []
   let stopReason: "stop" | "length" | "tool_calls" | "content_filter" | null =
@@ -290,9 +442,11 @@ export function translateToAnthropic(
 
   // Process all choices to extract text and tool use blocks
   for (const choice of response.choices) {
+    const thinkingBlocks = getAnthropicThinkingBlocks(choice.message)
     const textBlocks = getAnthropicTextBlocks(choice.message.content)
     const toolUseBlocks = getAnthropicToolUseBlocks(choice.message.tool_calls)
 
+    allThinkingBlocks.push(...thinkingBlocks)
     allTextBlocks.push(...textBlocks)
     allToolUseBlocks.push(...toolUseBlocks)
 
@@ -302,28 +456,34 @@ export function translateToAnthropic(
     }
   }
 
-  // Note: GitHub Copilot doesn't generate thinking blocks, so we don't include them in responses
-
-  return {
-    id: response.id,
-    type: "message",
-    role: "assistant",
-    model: response.model,
-    content: [...allTextBlocks, ...allToolUseBlocks],
-    stop_reason: mapOpenAIStopReasonToAnthropic(stopReason),
-    stop_sequence: null,
-    usage: {
-      input_tokens:
-        (response.usage?.prompt_tokens ?? 0)
-        - (response.usage?.prompt_tokens_details?.cached_tokens ?? 0),
-      output_tokens: response.usage?.completion_tokens ?? 0,
-      ...(response.usage?.prompt_tokens_details?.cached_tokens
-        !== undefined && {
-        cache_read_input_tokens:
-          response.usage.prompt_tokens_details.cached_tokens,
-      }),
+  return applyStopSequences(
+    {
+      id: response.id,
+      type: "message",
+      role: "assistant",
+      model: response.model,
+      content: [...allThinkingBlocks, ...allTextBlocks, ...allToolUseBlocks],
+      stop_reason: mapOpenAIStopReasonToAnthropic(stopReason),
+      stop_sequence: null,
+      usage: mapOpenAIUsageToAnthropic(response.usage),
     },
+    stopSequences,
+  )
+}
+
+function getAnthropicThinkingBlocks(
+  message: ChatCompletionResponse["choices"][number]["message"],
+): Array<AnthropicThinkingBlock> {
+  if (!message.reasoning_text && !message.reasoning_opaque) {
+    return []
   }
+  return [
+    {
+      type: "thinking",
+      thinking: message.reasoning_text ?? "",
+      signature: message.reasoning_opaque ?? "",
+    },
+  ]
 }
 
 function getAnthropicTextBlocks(
@@ -352,6 +512,6 @@ function getAnthropicToolUseBlocks(
     type: "tool_use",
     id: toolCall.id,
     name: toolCall.function.name,
-    input: JSON.parse(toolCall.function.arguments) as Record<string, unknown>,
+    input: parseToolInput(toolCall.function.name, toolCall.function.arguments),
   }))
 }
@@ -2,6 +2,13 @@ import { Hono } from "hono"
 
 import { forwardError } from "~/lib/error"
 
+import {
+  handleBatchResults,
+  handleCancelBatch,
+  handleCreateBatch,
+  handleGetBatch,
+  handleListBatches,
+} from "./batch-handler"
 import { handleCountTokens } from "./count-tokens-handler"
 import { handleCompletion } from "./handler"
 
@@ -22,3 +29,37 @@ messageRoutes.post("/count_tokens", async (c) => {
     return await forwardError(c, error)
   }
 })
+
+messageRoutes.post("/batches", async (c) => {
+  try {
+    return await handleCreateBatch(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+messageRoutes.get("/batches", (c) => handleListBatches(c))
+
+messageRoutes.get("/batches/:id", async (c) => {
+  try {
+    return handleGetBatch(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+messageRoutes.post("/batches/:id/cancel", async (c) => {
+  try {
+    return await handleCancelBatch(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+messageRoutes.get("/batches/:id/results", async (c) => {
+  try {
+    return await handleBatchResults(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
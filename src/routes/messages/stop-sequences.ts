@@ -0,0 +1,89 @@
+import {
+  type AnthropicResponse,
+  type AnthropicTextBlock,
+} from "./anthropic-types"
+
+export interface StopSequenceMatch {
+  index: number
+  sequence: string
+}
+
+/**
+ * Finds the earliest stop sequence in `text`. When several start at the same
+ * place the longest wins, matching what a client scanning the text would see.
+ */
+export function findStopSequence(
+  text: string,
+  stopSequences: Array<string>,
+): StopSequenceMatch | undefined {
+  let match: StopSequenceMatch | undefined
+  for (const sequence of stopSequences) {
+    if (!sequence) continue
+    const index = text.indexOf(sequence)
+    if (index === -1) continue
+    if (
+      !match
+      || index < match.index
+      || (index === match.index && sequence.length > match.sequence.length)
+    ) {
+      match = { index, sequence }
+    }
+  }
+  return match
+}
+
+/**
+ * Length of the longest tail of `text` that could be the start of a stop
+ * sequence. A stream holds this much back until the next chunk shows whether
+ * the sequence completes.
+ */
+export function partialStopSequenceLength(
+  text: string,
+  stopSequences: Array<string>,
+): number {
+  let longest = 0
+  for (const sequence of stopSequences) {
+    const max = Math.min(sequence.length - 1, text.length)
+    for (let length = max; length > longest; length--) {
+      if (text.endsWith(sequence.slice(0, length))) {
+        longest = length
+        break
+      }
+    }
+  }
+  return longest
+}
+
+/**
+ * Cuts a translated response at the first stop sequence in its text. Blocks
+ * after the match are dropped, since the model would have stopped there.
+ */
+export function applyStopSequences(
+  response: AnthropicResponse,
+  stopSequences: Array<string> | undefined,
+): AnthropicResponse {
+  if (!stopSequences?.length) {
+    return response
+  }
+
+  for (const [position, block] of response.content.entries()) {
+    if (block.type !== "text") continue
+    const match = findStopSequence(block.text, stopSequences)
+    if (!match) continue
+
+    const truncated: AnthropicTextBlock = {
+      ...block,
+      text: block.text.slice(0, match.index),
+    }
+    return {
+      ...response,
+      content: [
+        ...response.content.slice(0, position),
+        ...(truncated.text ? [truncated] : []),
+      ],
+      stop_reason: "stop_sequence",
+      stop_sequence: match.sequence,
+    }
+  }
+  return response
+}
@@ -1,21 +1,137 @@
+import { HTTPError } from "~/lib/error"
+import {
+  closingSuffix,
+  scanJson,
+  sendableLength,
+  startJsonScan,
+} from "~/lib/json-repair"
 import { type ChatCompletionChunk } from "~/services/copilot/create-chat-completions"
 
 import {
+  type AnthropicMessageDeltaEvent,
   type AnthropicStreamEventData,
   type AnthropicStreamState,
 } from "./anthropic-types"
-import { mapOpenAIStopReasonToAnthropic } from "./utils"
+import { findStopSequence, partialStopSequenceLength } from "./stop-sequences"
+import {
+  invalidToolInput,
+  isJsonObject,
+  mapOpenAIStopReasonToAnthropic,
+  mapOpenAIUsageToAnthropic,
+  mapStatusToAnthropicErrorType,
+  parseToolInput,
+} from "./utils"
+
+type StreamToolCall = AnthropicStreamState["toolCalls"][number]
 
-function isToolBlockOpen(state: AnthropicStreamState): boolean {
+function openToolCall(state: AnthropicStreamState) {
   if (!state.contentBlockOpen) {
-    return false
+    return undefined
   }
   // Check if the current block index corresponds to any known tool call
-  return Object.values(state.toolCalls).some(
+  return Object.values(state.toolCalls).find(
     (tc) => tc.anthropicBlockIndex === state.contentBlockIndex,
   )
 }
 
+/**
+ * Closes the open content block. A tool call gets whatever its arguments
+ * still need to parse first.
+ */
+function stopContentBlock(
+  state: AnthropicStreamState,
+): Array<AnthropicStreamEventData> {
+  const events: Array<AnthropicStreamEventData> = []
+  const toolCall = openToolCall(state)
+  if (toolCall) {
+    const rest = finishToolArguments(toolCall)
+    if (rest) events.push(inputJsonDelta(toolCall, rest))
+  }
+  events.push({ type: "content_block_stop", index: state.contentBlockIndex })
+  state.contentBlockOpen = false
+  state.thinkingBlockOpen = false
+  return events
+}
+
+/**
+ * Sends as much of a tool call's arguments as can go out as they stream.
+ * Text only goes out once it can be closed into an object, so a call that
+ * goes wrong later can still end with valid input. Arguments that don't
+ * start as a JSON object, e.g. in a code fence, are held for repair when
+ * the block closes.
+ */
+function forwardToolArguments(
+  toolCall: StreamToolCall,
+): Array<AnthropicStreamEventData> {
+  const start = toolCall.arguments.trimStart()
+  if (toolCall.buffered || !start) return []
+  if (!start.startsWith("{")) {
+    toolCall.buffered = true
+    return []
+  }
+
+  const scan = scanJson(toolCall.scan, toolCall.arguments)
+  const length = sendableLength(scan)
+  if (length <= toolCall.sent) return []
+  const text = toolCall.arguments.slice(0, length)
+  const closing = closingSuffix(scan, text)
+  if (!parsesAsObject(text + closing)) return []
+
+  const partial = toolCall.arguments.slice(toolCall.sent, length)
+  toolCall.sent = length
+  toolCall.closing = closing
+  return [inputJsonDelta(toolCall, partial)]
+}
+
+// What the arguments sent so far still need to parse: the rest of them,
+// closed if they were cut off, or the whole repaired input when none was
+// sent
+function finishToolArguments(toolCall: StreamToolCall): string {
+  if (toolCall.sent === 0) {
+    return JSON.stringify(parseToolInput(toolCall.name, toolCall.arguments))
+  }
+
+  const length = sendableLength(toolCall.scan)
+  const text = toolCall.arguments.slice(0, length)
+  const closing = closingSuffix(toolCall.scan, text)
+  let message = "Tool arguments must be a JSON object"
+  try {
+    if (isJsonObject(JSON.parse(text + closing))) {
+      return toolCall.arguments.slice(toolCall.sent, length) + closing
+    }
+  } catch (error) {
+    message = `Tool arguments are not valid JSON: ${(error as Error).message}`
+  }
+
+  // What was sent can't be taken back, so it is closed as it stood, with
+  // the error object added to mark the call as failed
+  const marker = JSON.stringify(
+    invalidToolInput(toolCall.name, message, toolCall.arguments),
+  )
+  const sent = toolCall.arguments.slice(0, toolCall.sent)
+  const separator = sent.trim() === "{" ? "" : ","
+  return toolCall.closing.slice(0, -1) + separator + marker.slice(1)
+}
+
+function parsesAsObject(json: string): boolean {
+  try {
+    return isJsonObject(JSON.parse(json))
+  } catch {
+    return false
+  }
+}
+
+function inputJsonDelta(
+  toolCall: StreamToolCall,
+  partialJson: string,
+): AnthropicStreamEventData {
+  return {
+    type: "content_block_delta",
+    index: toolCall.anthropicBlockIndex,
+    delta: { type: "input_json_delta", partial_json: partialJson },
+  }
+}
+
 // eslint-disable-next-line max-lines-per-function, complexity
 export function translateChunkToAnthropicEvents(
   chunk: ChatCompletionChunk,
@@ -23,14 +139,23 @@ export function translateChunkToAnthropicEvents(
 ): Array<AnthropicStreamEventData> {
   const events: Array<AnthropicStreamEventData> = []
 
-  if (chunk.choices.length === 0) {
-    return events
+  // With include_usage, usage arrives in a final chunk without choices. Once
+  // a stop sequence has ended the message only that usage is still wanted.
+  if (chunk.choices.length === 0 || hasStopped(state)) {
+    return chunk.usage ?
+        flushMessageDelta(state, mapOpenAIUsageToAnthropic(chunk.usage))
+      : events
   }
 
   const choice = chunk.choices[0]
   const { delta } = choice
 
   if (!state.messageStartSent) {
+    const usage = mapOpenAIUsageToAnthropic(chunk.usage)
+    if (!chunk.usage) {
+      // Corrected in message_delta once Copilot reports usage
+      usage.input_tokens = state.estimatedInputTokens ?? 0
+    }
     events.push({
       type: "message_start",
       message: {
@@ -42,30 +167,22 @@ export function translateChunkToAnthropicEvents(
         stop_reason: null,
         stop_sequence: null,
         usage: {
-          input_tokens:
-            (chunk.usage?.prompt_tokens ?? 0)
-            - (chunk.usage?.prompt_tokens_details?.cached_tokens ?? 0),
+          ...usage,
           output_tokens: 0, // Will be updated in message_delta when finished
-          ...(chunk.usage?.prompt_tokens_details?.cached_tokens
-            !== undefined && {
-            cache_read_input_tokens:
-              chunk.usage.prompt_tokens_details.cached_tokens,
-          }),
         },
       },
     })
     state.messageStartSent = true
   }
 
-  if (delta.content) {
-    if (isToolBlockOpen(state)) {
-      // A tool block was open, so close it before starting a text block.
-      events.push({
-        type: "content_block_stop",
-        index: state.contentBlockIndex,
-      })
+  state.outputText += delta.reasoning_text ?? ""
+
+  if (delta.reasoning_text || delta.reasoning_opaque) {
+    events.push(...flushHeldText(state))
+    if (state.contentBlockOpen && !state.thinkingBlockOpen) {
+      // Reasoning after text or tool output starts a new thinking block
+      events.push(...stopContentBlock(state))
       state.contentBlockIndex++
-      state.contentBlockOpen = false
     }
 
     if (!state.contentBlockOpen) {
@@ -73,35 +190,53 @@ export function translateChunkToAnthropicEvents(
         type: "content_block_start",
         index: state.contentBlockIndex,
         content_block: {
-          type: "text",
-          text: "",
+          type: "thinking",
+          thinking: "",
         },
       })
       state.contentBlockOpen = true
+      state.thinkingBlockOpen = true
     }
 
-    events.push({
-      type: "content_block_delta",
-      index: state.contentBlockIndex,
-      delta: {
-        type: "text_delta",
-        text: delta.content,
-      },
-    })
+    if (delta.reasoning_text) {
+      events.push({
+        type: "content_block_delta",
+        index: state.contentBlockIndex,
+        delta: {
+          type: "thinking_delta",
+          thinking: delta.reasoning_text,
+        },
+      })
+    }
+
+    if (delta.reasoning_opaque) {
+      events.push({
+        type: "content_block_delta",
+        index: state.contentBlockIndex,
+        delta: {
+          type: "signature_delta",
+          signature: delta.reasoning_opaque,
+        },
+      })
+    }
+  }
+
+  if (delta.content) {
+    events.push(...appendText(state, delta.content))
+    if (hasStopped(state)) {
+      return events
+    }
   }
 
   if (delta.tool_calls) {
+    events.push(...flushHeldText(state))
     for (const toolCall of delta.tool_calls) {
       if (toolCall.id && toolCall.function?.name) {
         // New tool call starting.
         if (state.contentBlockOpen) {
           // Close any previously open block.
-          events.push({
-            type: "content_block_stop",
-            index: state.contentBlockIndex,
-          })
+          events.push(...stopContentBlock(state))
           state.contentBlockIndex++
-          state.contentBlockOpen = false
         }
 
         const anthropicBlockIndex = state.contentBlockIndex
@@ -109,6 +244,11 @@ export function translateChunkToAnthropicEvents(
           id: toolCall.id,
           name: toolCall.function.name,
           anthropicBlockIndex,
+          arguments: "",
+          sent: 0,
+          closing: "",
+          scan: startJsonScan(),
+          buffered: false,
         }
 
         events.push({
@@ -125,66 +265,225 @@ export function translateChunkToAnthropicEvents(
       }
 
       if (toolCall.function?.arguments) {
+        state.outputText += toolCall.function.arguments
         const toolCallInfo = state.toolCalls[toolCall.index]
         // Tool call can still be empty
         // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
         if (toolCallInfo) {
-          events.push({
-            type: "content_block_delta",
-            index: toolCallInfo.anthropicBlockIndex,
-            delta: {
-              type: "input_json_delta",
-              partial_json: toolCall.function.arguments,
-            },
-          })
+          toolCallInfo.arguments += toolCall.function.arguments
+          events.push(...forwardToolArguments(toolCallInfo))
         }
       }
     }
   }
 
   if (choice.finish_reason) {
+    events.push(...flushHeldText(state))
     if (state.contentBlockOpen) {
-      events.push({
-        type: "content_block_stop",
-        index: state.contentBlockIndex,
-      })
-      state.contentBlockOpen = false
+      events.push(...stopContentBlock(state))
     }
 
-    events.push(
-      {
-        type: "message_delta",
-        delta: {
-          stop_reason: mapOpenAIStopReasonToAnthropic(choice.finish_reason),
-          stop_sequence: null,
-        },
-        usage: {
-          input_tokens:
-            (chunk.usage?.prompt_tokens ?? 0)
-            - (chunk.usage?.prompt_tokens_details?.cached_tokens ?? 0),
-          output_tokens: chunk.usage?.completion_tokens ?? 0,
-          ...(chunk.usage?.prompt_tokens_details?.cached_tokens
-            !== undefined && {
-            cache_read_input_tokens:
-              chunk.usage.prompt_tokens_details.cached_tokens,
-          }),
-        },
+    state.pendingMessageDelta = {
+      type: "message_delta",
+      delta: {
+        stop_reason: mapOpenAIStopReasonToAnthropic(choice.finish_reason),
+        stop_sequence: null,
       },
-      {
-        type: "message_stop",
+    }
+    // Some models report usage on the finish chunk itself
+    if (chunk.usage) {
+      events.push(
+        ...flushMessageDelta(state, mapOpenAIUsageToAnthropic(chunk.usage)),
+      )
+    }
+  }
+
+  return events
+}
+
+/**
+ * Adds streamed text, cutting it at the first stop sequence. A tail that may
+ * be the start of a sequence is held back until the next chunk decides it.
+ */
+function appendText(
+  state: AnthropicStreamState,
+  content: string,
+): Array<AnthropicStreamEventData> {
+  const stopSequences = state.stopSequences ?? []
+  const text = (state.heldText ?? "") + content
+  state.heldText = ""
+
+  const match = findStopSequence(text, stopSequences)
+  if (match) {
+    const events = textEvents(state, text.slice(0, match.index))
+    if (state.contentBlockOpen) {
+      events.push(...stopContentBlock(state))
+    }
+    state.stopSequence = match.sequence
+    state.pendingMessageDelta = {
+      type: "message_delta",
+      delta: { stop_reason: "stop_sequence", stop_sequence: match.sequence },
+    }
+    return events
+  }
+
+  const held = partialStopSequenceLength(text, stopSequences)
+  state.heldText = text.slice(text.length - held)
+  return textEvents(state, text.slice(0, text.length - held))
+}
+
+const hasStopped = (state: AnthropicStreamState) =>
+  state.stopSequence !== undefined
+
+function flushHeldText(
+  state: AnthropicStreamState,
+): Array<AnthropicStreamEventData> {
+  const text = state.heldText ?? ""
+  state.heldText = ""
+  return textEvents(state, text)
+}
+
+function textEvents(
+  state: AnthropicStreamState,
+  text: string,
+): Array<AnthropicStreamEventData> {
+  if (!text) {
+    return []
+  }
+
+  const events: Array<AnthropicStreamEventData> = []
+  if (openToolCall(state) || state.thinkingBlockOpen) {
+    // A tool or thinking block was open, so close it before starting a text block.
+    events.push(...stopContentBlock(state))
+    state.contentBlockIndex++
+  }
+
+  if (!state.contentBlockOpen) {
+    events.push({
+      type: "content_block_start",
+      index: state.contentBlockIndex,
+      content_block: {
+        type: "text",
+        text: "",
       },
-    )
+    })
+    state.contentBlockOpen = true
   }
 
+  events.push({
+    type: "content_block_delta",
+    index: state.contentBlockIndex,
+    delta: {
+      type: "text_delta",
+      text,
+    },
+  })
+  // Counted as it goes out, so text cut by a stop sequence isn't estimated
+  state.outputText += text
   return events
 }
 
-export function translateErrorToAnthropicErrorEvent(): AnthropicStreamEventData {
+/**
+ * Emits the held `message_delta` with the given usage, then `message_stop`.
+ * The handler calls this with an estimate when the stream ends without
+ * usage.
+ */
+export function flushMessageDelta(
+  state: AnthropicStreamState,
+  usage: AnthropicMessageDeltaEvent["usage"],
+): Array<AnthropicStreamEventData> {
+  const messageDelta = state.pendingMessageDelta
+  if (!messageDelta) {
+    return []
+  }
+  state.pendingMessageDelta = undefined
+  return [{ ...messageDelta, usage }, { type: "message_stop" }]
+}
+
+/**
+ * An error reported by Copilot partway through a stream, either as an error
+ * payload in place of a chunk or as an SSE `error` event
+ */
+export class UpstreamStreamError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.status = status
+  }
+}
+
+interface UpstreamErrorPayload {
+  error: {
+    message?: string
+    type?: string
+    code?: string | number
+    status?: number
+  }
+}
+
+/**
+ * Parses a stream event into a chunk, throwing `UpstreamStreamError` when
+ * Copilot sent an error instead
+ */
+export function parseStreamChunk(rawEvent: {
+  event?: string
+  data?: string
+}): ChatCompletionChunk {
+  const parsed = JSON.parse(rawEvent.data ?? "") as
+    | ChatCompletionChunk
+    | UpstreamErrorPayload
+  if ("error" in parsed) {
+    throw new UpstreamStreamError(
+      parsed.error.message ?? "Copilot reported an error during streaming",
+      upstreamErrorStatus(parsed.error),
+    )
+  }
+  if (rawEvent.event === "error") {
+    throw new UpstreamStreamError(rawEvent.data ?? "Stream error", 500)
+  }
+  return parsed
+}
+
+// Error payloads carry the HTTP status either as a number or only implied by
+// their code, e.g. `rate_limited`
+function upstreamErrorStatus(error: UpstreamErrorPayload["error"]): number {
+  if (typeof error.status === "number") return error.status
+  if (typeof error.code === "number") return error.code
+
+  const kind = `${error.type ?? ""} ${error.code ?? ""}`
+  if (/rate.?limit/i.test(kind)) return 429
+  if (/overload|capacity|unavailable/i.test(kind)) return 529
+  return 500
+}
+
+/**
+ * Closes the content block a failed stream left open, so clients see a
+ * well-formed sequence before the error event
+ */
+export function closeOpenContentBlock(
+  state: AnthropicStreamState,
+): Array<AnthropicStreamEventData> {
+  return state.contentBlockOpen ? stopContentBlock(state) : []
+}
+
+export function translateErrorToAnthropicErrorEvent(
+  error: unknown,
+): AnthropicStreamEventData {
+  let status = 500
+  if (error instanceof UpstreamStreamError) {
+    status = error.status
+  } else if (error instanceof HTTPError) {
+    status = error.response.status
+  }
   return {
     type: "error",
     error: {
-      type: "api_error",
-      message: "An unexpected error occurred during streaming.",
+      type: mapStatusToAnthropicErrorType(status),
+      message:
+        error instanceof Error && error.message ?
+          error.message
+        : "An unexpected error occurred during streaming.",
     },
   }
 }
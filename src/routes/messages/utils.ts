@@ -1,3 +1,8 @@
+import consola from "consola"
+
+import { parseJsonLenient } from "~/lib/json-repair"
+import { type ChatCompletionResponse } from "~/services/copilot/create-chat-completions"
+
 import { type AnthropicResponse } from "./anthropic-types"
 
 export function mapOpenAIStopReasonToAnthropic(
@@ -14,3 +19,100 @@ export function mapOpenAIStopReasonToAnthropic(
   } as const
   return stopReasonMap[finishReason]
 }
+
+/**
+ * Maps OpenAI usage onto Anthropic's, always reporting both cache fields.
+ * Copilot reports cache reads as `cached_tokens` but has no counter for cache
+ * writes, so `cache_creation_input_tokens` is 0 rather than left out.
+ */
+export function mapOpenAIUsageToAnthropic(
+  usage: ChatCompletionResponse["usage"],
+): AnthropicResponse["usage"] {
+  const cachedTokens = usage?.prompt_tokens_details?.cached_tokens ?? 0
+  return {
+    input_tokens: (usage?.prompt_tokens ?? 0) - cachedTokens,
+    output_tokens: usage?.completion_tokens ?? 0,
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: cachedTokens,
+  }
+}
+
+export function mapStatusToAnthropicErrorType(status: number): string {
+  switch (status) {
+    case 400: {
+      return "invalid_request_error"
+    }
+    case 401: {
+      return "authentication_error"
+    }
+    case 403: {
+      return "permission_error"
+    }
+    case 404: {
+      return "not_found_error"
+    }
+    case 413: {
+      return "request_too_large"
+    }
+    case 429: {
+      return "rate_limit_error"
+    }
+    case 503:
+    case 529: {
+      return "overloaded_error"
+    }
+    default: {
+      return "api_error"
+    }
+  }
+}
+
+/**
+ * Parses a tool call's arguments, repairing malformed JSON. Arguments that
+ * cannot be recovered are replaced by an error object, so one bad tool call
+ * reaches the client as a failed call instead of failing the whole response.
+ */
+export function parseToolInput(
+  toolName: string,
+  args: string,
+): Record<string, unknown> {
+  let input: unknown
+  try {
+    input = parseJsonLenient(args)
+  } catch (error) {
+    return invalidToolInput(
+      toolName,
+      `Tool arguments are not valid JSON: ${(error as Error).message}`,
+      args,
+    )
+  }
+  if (!isJsonObject(input)) {
+    return invalidToolInput(
+      toolName,
+      "Tool arguments must be a JSON object",
+      args,
+    )
+  }
+  return input
+}
+
+/**
+ * The input a tool call gets in place of arguments that could not be
+ * recovered, carrying them as they were sent.
+ */
+export function invalidToolInput(
+  toolName: string,
+  message: string,
+  args: string,
+): { error: { type: string; message: string }; raw_arguments: string } {
+  consola.warn(`Unrecoverable arguments for tool '${toolName}':`, args)
+  return {
+    error: { type: "invalid_tool_arguments", message },
+    raw_arguments: args,
+  }
+}
+
+export const isJsonObject = (
+  value: unknown,
+): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
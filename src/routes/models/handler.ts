@@ -0,0 +1,123 @@
+import type { Context } from "hono"
+
+import type { Model } from "~/services/copilot/get-models"
+
+import { state } from "~/lib/state"
+import { cacheModels, paginateById } from "~/lib/utils"
+
+// Copilot models carry no creation date
+const CREATED_AT = new Date(0).toISOString()
+
+export async function handleListModels(c: Context) {
+  const models = await getModels()
+
+  if (isAnthropicRequest(c)) {
+    const { data, hasMore } = paginateById(models, {
+      limit: c.req.query("limit"),
+      afterId: c.req.query("after_id"),
+      beforeId: c.req.query("before_id"),
+    })
+    return c.json({
+      data: data.map((model) => toAnthropicModel(model)),
+      has_more: hasMore,
+      first_id: data.at(0)?.id ?? null,
+      last_id: data.at(-1)?.id ?? null,
+    })
+  }
+
+  return c.json({
+    object: "list",
+    data: models.map((model) => toOpenAIModel(model)),
+    has_more: false,
+  })
+}
+
+export async function handleGetModel(c: Context) {
+  const id = c.req.param("id")
+  const model = (await getModels()).find((candidate) => candidate.id === id)
+
+  if (isAnthropicRequest(c)) {
+    if (!model) {
+      return c.json(
+        {
+          type: "error",
+          error: { type: "not_found_error", message: `model: ${id}` },
+        },
+        404,
+      )
+    }
+    return c.json(toAnthropicModel(model))
+  }
+
+  if (!model) {
+    return c.json(
+      {
+        error: {
+          message: `The model '${id}' does not exist`,
+          type: "invalid_request_error",
+          param: null,
+          code: "model_not_found",
+        },
+      },
+      404,
+    )
+  }
+  return c.json(toOpenAIModel(model))
+}
+
+// Anthropic SDKs always send `anthropic-version`; `x-api-key` is how they
+// authenticate, where OpenAI clients use a bearer token
+const isAnthropicRequest = (c: Context) =>
+  c.req.header("anthropic-version") !== undefined
+  || c.req.header("x-api-key") !== undefined
+
+async function getModels(): Promise<Array<Model>> {
+  if (!state.models) {
+    // This should be handled by startup logic, but as a fallback.
+    await cacheModels()
+  }
+  return state.models?.data ?? []
+}
+
+/**
+ * The limits and feature flags clients need to pick a model, shared by both
+ * listing formats
+ */
+function describeModel(model: Model) {
+  const { limits, supports } = model.capabilities
+  return {
+    context_window: limits.max_context_window_tokens ?? null,
+    max_prompt_tokens: limits.max_prompt_tokens ?? null,
+    max_output_tokens: limits.max_output_tokens ?? null,
+    capabilities: {
+      type: model.capabilities.type,
+      family: model.capabilities.family,
+      tool_calls: supports.tool_calls ?? false,
+      parallel_tool_calls: supports.parallel_tool_calls ?? false,
+      vision: supports.vision ?? false,
+      streaming: supports.streaming ?? false,
+      reasoning:
+        Boolean(supports.reasoning_effort?.length)
+        || supports.max_thinking_budget !== undefined,
+    },
+  }
+}
+
+const toOpenAIModel = (model: Model) => ({
+  id: model.id,
+  object: "model",
+  type: "model",
+  created: 0, // No date available from source
+  created_at: CREATED_AT,
+  owned_by: model.vendor,
+  display_name: model.name,
+  ...describeModel(model),
+})
+
+const toAnthropicModel = (model: Model) => ({
+  type: "model",
+  id: model.id,
+  display_name: model.name,
+  created_at: CREATED_AT,
+  ...describeModel(model),
+})
@@ -0,0 +1,33 @@
+import type { Context } from "hono"
+
+import { resolveRequestModel } from "~/lib/model-aliases"
+import { withUpstreamAbort } from "~/lib/upstream-abort"
+import { createEmbeddings } from "~/services/copilot/create-embeddings"
+
+import { type OllamaEmbedPayload } from "./ollama-types"
+import { normalizeModelName } from "./translation"
+
+export async function handleEmbed(c: Context) {
+  const payload = await c.req.json<OllamaEmbedPayload>()
+  const startedAt = Date.now()
+
+  const response = await withUpstreamAbort(c, (signal) =>
+    createEmbeddings(
+      {
+        model: resolveRequestModel(c, normalizeModelName(payload.model)),
+        input: payload.input,
+      },
+      { signal },
+    ),
+  )
+
+  return c.json({
+    model: payload.model,
+    embeddings: response.data
+      .toSorted((a, b) => a.index - b.index)
+      .map((embedding) => embedding.embedding),
+    total_duration: (Date.now() - startedAt) * 1_000_000,
+    load_duration: 0,
+    prompt_eval_count: response.usage.prompt_tokens,
+  })
+}
@@ -0,0 +1,176 @@
+import type { Context } from "hono"
+
+import consola from "consola"
+import { stream as honoStream } from "hono/streaming"
+
+import { awaitApproval } from "~/lib/approval"
+import {
+  resolveRequestModel,
+  setResolvedModelHeader,
+} from "~/lib/model-aliases"
+import { checkRateLimit } from "~/lib/rate-limit"
+import { queueRequest } from "~/lib/request-queue"
+import { state } from "~/lib/state"
+import { createUpstreamAbort } from "~/lib/upstream-abort"
+import { isNonStreaming } from "~/lib/utils"
+import {
+  createChatCompletions,
+  type ChatCompletionChunk,
+  type ChatCompletionResponse,
+  type ChatCompletionsPayload,
+} from "~/services/copilot/create-chat-completions"
+
+import {
+  type OllamaChatPayload,
+  type OllamaGeneratePayload,
+  type OllamaStreamState,
+} from "./ollama-types"
+import {
+  createDoneStats,
+  translateChatToOpenAI,
+  translateChunkToOllamaDelta,
+  translateGenerateToOpenAI,
+  translateToOllamaChat,
+  translateToOllamaGenerate,
+  type OllamaDelta,
+} from "./translation"
+
+export async function handleChat(c: Context) {
+  const payload = await c.req.json<OllamaChatPayload>()
+  consola.debug("Ollama chat payload:", JSON.stringify(payload))
+
+  return handleOllamaCompletion(c, translateChatToOpenAI(payload), {
+    complete: (response, startedAt) =>
+      translateToOllamaChat(response, payload.model, startedAt),
+    delta: (delta) => ({
+      model: payload.model,
+      created_at: new Date().toISOString(),
+      message: {
+        role: "assistant",
+        content: delta.content,
+        ...(delta.thinking && { thinking: delta.thinking }),
+        ...(delta.toolCalls && { tool_calls: delta.toolCalls }),
+      },
+      done: false,
+    }),
+    done: (streamState, startedAt) => ({
+      model: payload.model,
+      created_at: new Date().toISOString(),
+      message: { role: "assistant", content: "" },
+      done: true,
+      ...createDoneStats(streamState, startedAt),
+    }),
+  })
+}
+
+export async function handleGenerate(c: Context) {
+  const payload = await c.req.json<OllamaGeneratePayload>()
+  consola.debug("Ollama generate payload:", JSON.stringify(payload))
+
+  // An empty prompt is how Ollama clients ask for a model to be preloaded
+  if (!payload.prompt && !payload.suffix) {
+    return c.json({
+      model: payload.model,
+      created_at: new Date().toISOString(),
+      response: "",
+      done: true,
+      done_reason: "load",
+    })
+  }
+
+  return handleOllamaCompletion(c, translateGenerateToOpenAI(payload), {
+    complete: (response, startedAt) =>
+      translateToOllamaGenerate(response, payload.model, startedAt),
+    delta: (delta) => ({
+      model: payload.model,
+      created_at: new Date().toISOString(),
+      response: delta.content,
+      ...(delta.thinking && { thinking: delta.thinking }),
+      done: false,
+    }),
+    done: (streamState, startedAt) => ({
+      model: payload.model,
+      created_at: new Date().toISOString(),
+      response: "",
+      done: true,
+      ...createDoneStats(streamState, startedAt),
+    }),
+  })
+}
+
+interface OllamaResponseBuilders {
+  complete: (response: ChatCompletionResponse, startedAt: number) => unknown
+  delta: (delta: OllamaDelta) => unknown
+  done: (streamState: OllamaStreamState, startedAt: number) => unknown
+}
+
+async function handleOllamaCompletion(
+  c: Context,
+  openAIPayload: ChatCompletionsPayload,
+  builders: OllamaResponseBuilders,
+) {
+  const payload = {
+    ...openAIPayload,
+    model: resolveRequestModel(c, openAIPayload.model),
+  }
+  await checkRateLimit(c, payload)
+
+  const startedAt = Date.now()
+  consola.debug("Translated OpenAI request payload:", JSON.stringify(payload))
+
+  if (state.manualApprove) {
+    await awaitApproval()
+  }
+  await queueRequest(c, payload)
+
+  const upstream = createUpstreamAbort(c)
+  const response = await createChatCompletions(payload, {
+    signal: upstream.signal,
+    onFallback: (model) => setResolvedModelHeader(c, model),
+  })
+
+  if (isNonStreaming(response)) {
+    upstream.finish()
+    consola.debug(
+      "Non-streaming response from Copilot:",
+      JSON.stringify(response).slice(-400),
+    )
+    return c.json(builders.complete(response, startedAt))
+  }
+
+  // Ollama streams newline-delimited JSON rather than server-sent events
+  consola.debug("Streaming response from Copilot as NDJSON")
+  c.header("Content-Type", "application/x-ndjson")
+  return honoStream(c, async (stream) => {
+    const streamState: OllamaStreamState = { toolCalls: {} }
+    stream.onAbort(upstream.cancel)
+
+    try {
+      for await (const rawEvent of response) {
+        consola.debug("Copilot raw stream event:", JSON.stringify(rawEvent))
+        if (rawEvent.data === "[DONE]") {
+          break
+        }
+
+        if (!rawEvent.data) {
+          continue
+        }
+
+        const chunk = JSON.parse(rawEvent.data) as ChatCompletionChunk
+        const delta = translateChunkToOllamaDelta(chunk, streamState)
+        if (delta) {
+          await stream.write(`${JSON.stringify(builders.delta(delta))}\n`)
+        }
+      }
+
+      await stream.write(
+        `${JSON.stringify(builders.done(streamState, startedAt))}\n`,
+      )
+    } catch (error) {
+      // The upstream read fails once cancelled; the client is already gone
+      if (!stream.aborted) throw error
+    } finally {
+      upstream.finish()
+    }
+  })
+}
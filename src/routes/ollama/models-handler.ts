@@ -0,0 +1,98 @@
+import type { Context } from "hono"
+
+import { createHash } from "node:crypto"
+
+import type { Model } from "~/services/copilot/get-models"
+
+import { state } from "~/lib/state"
+import { cacheModels } from "~/lib/utils"
+
+import { type OllamaModelDetails } from "./ollama-types"
+import { normalizeModelName } from "./translation"
+
+// Copilot models have no creation date; the epoch keeps listings stable
+const MODIFIED_AT = new Date(0).toISOString()
+
+export async function handleTags(c: Context) {
+  const models = await getModels()
+
+  return c.json({
+    models: models.map((model) => ({
+      name: model.id,
+      model: model.id,
+      modified_at: MODIFIED_AT,
+      size: 0,
+      digest: digestFor(model),
+      details: detailsFor(model),
+    })),
+  })
+}
+
+export async function handleShow(c: Context) {
+  const payload = await c.req.json<{ model?: string; name?: string }>()
+  const requested = payload.model ?? payload.name ?? ""
+
+  const models = await getModels()
+  const model = models.find(
+    (candidate) => candidate.id === normalizeModelName(requested),
+  )
+  if (!model) {
+    return c.json({ error: `model '${requested}' not found` }, 404)
+  }
+
+  const { family, limits } = model.capabilities
+  return c.json({
+    license: "",
+    modelfile: "",
+    parameters: "",
+    template: "",
+    details: detailsFor(model),
+    model_info: {
+      "general.architecture": family,
+      "general.basename": model.id,
+      ...(limits.max_context_window_tokens && {
+        [`${family}.context_length`]: limits.max_context_window_tokens,
+      }),
+      ...(limits.max_output_tokens && {
+        [`${family}.max_output_tokens`]: limits.max_output_tokens,
+      }),
+    },
+    capabilities: capabilitiesFor(model),
+    modified_at: MODIFIED_AT,
+  })
+}
+
+async function getModels(): Promise<Array<Model>> {
+  if (!state.models) {
+    // This should be handled by startup logic, but as a fallback.
+    await cacheModels()
+  }
+  return state.models?.data ?? []
+}
+
+const digestFor = (model: Model) =>
+  createHash("sha256").update(model.id).digest("hex")
+
+const detailsFor = (model: Model): OllamaModelDetails => ({
+  parent_model: "",
+  format: "",
+  family: model.capabilities.family,
+  families: [model.capabilities.family],
+  parameter_size: "",
+  quantization_level: "",
+})
+
+function capabilitiesFor(model: Model): Array<string> {
+  if (model.capabilities.type === "embeddings") {
+    return ["embedding"]
+  }
+
+  const { supports } = model.capabilities
+  const capabilities = ["completion"]
+  if (supports.tool_calls) capabilities.push("tools")
+  if (supports.vision) capabilities.push("vision")
+  if (supports.reasoning_effort?.length || supports.max_thinking_budget) {
+    capabilities.push("thinking")
+  }
+  return capabilities
+}
@@ -0,0 +1,121 @@
+// Ollama API Types
+
+export interface OllamaOptions {
+  temperature?: number
+  top_p?: number
+  top_k?: number
+  num_predict?: number
+  num_ctx?: number
+  stop?: Array<string>
+  seed?: number
+  frequency_penalty?: number
+  presence_penalty?: number
+}
+
+// "json" or a JSON schema
+export type OllamaFormat = "json" | Record<string, unknown>
+
+export interface OllamaToolCall {
+  function: {
+    name: string
+    arguments: Record<string, unknown>
+  }
+}
+
+export interface OllamaMessage {
+  role: "system" | "user" | "assistant" | "tool"
+  content: string
+  thinking?: string
+  // Base64 encoded images, without a data URL prefix
+  images?: Array<string>
+  tool_calls?: Array<OllamaToolCall>
+  tool_name?: string
+}
+
+export interface OllamaTool {
+  type: "function"
+  function: {
+    name: string
+    description?: string
+    parameters?: Record<string, unknown>
+  }
+}
+
+export interface OllamaChatPayload {
+  model: string
+  messages: Array<OllamaMessage>
+  tools?: Array<OllamaTool>
+  format?: OllamaFormat
+  options?: OllamaOptions
+  stream?: boolean
+  think?: boolean
+  keep_alive?: string | number
+}
+
+export interface OllamaGeneratePayload {
+  model: string
+  prompt?: string
+  suffix?: string
+  system?: string
+  images?: Array<string>
+  format?: OllamaFormat
+  options?: OllamaOptions
+  stream?: boolean
+  raw?: boolean
+  keep_alive?: string | number
+}
+
+// Timing and token statistics sent with the final response
+export interface OllamaDoneStats {
+  done_reason?: string
+  total_duration?: number
+  load_duration?: number
+  prompt_eval_count?: number
+  prompt_eval_duration?: number
+  eval_count?: number
+  eval_duration?: number
+}
+
+export interface OllamaChatResponse extends OllamaDoneStats {
+  model: string
+  created_at: string
+  message: OllamaMessage
+  done: boolean
+}
+
+export interface OllamaGenerateResponse extends OllamaDoneStats {
+  model: string
+  created_at: string
+  response: string
+  thinking?: string
+  done: boolean
+}
+
+export interface OllamaEmbedPayload {
+  model: string
+  input: string | Array<string>
+  truncate?: boolean
+  options?: OllamaOptions
+  keep_alive?: string | number
+}
+
+export interface OllamaModelDetails {
+  parent_model: string
+  format: string
+  family: string
+  families: Array<string>
+  parameter_size: string
+  quantization_level: string
+}
+
+export interface OllamaStreamState {
+  toolCalls: {
+    [openAIToolIndex: number]: {
+      name: string
+      arguments: string
+    }
+  }
+  doneReason?: string
+  promptTokens?: number
+  completionTokens?: number
+}
@@ -0,0 +1,54 @@
+import { Hono } from "hono"
+
+import { forwardError } from "~/lib/error"
+
+import { handleEmbed } from "./embed-handler"
+import { handleChat, handleGenerate } from "./handler"
+import { handleShow, handleTags } from "./models-handler"
+
+// Version reported to clients that check for a minimum Ollama release
+const OLLAMA_VERSION = "0.12.0"
+
+export const ollamaRoutes = new Hono()
+
+ollamaRoutes.post("/chat", async (c) => {
+  try {
+    return await handleChat(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+ollamaRoutes.post("/generate", async (c) => {
+  try {
+    return await handleGenerate(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+ollamaRoutes.post("/embed", async (c) => {
+  try {
+    return await handleEmbed(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+ollamaRoutes.get("/tags", async (c) => {
+  try {
+    return await handleTags(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+ollamaRoutes.post("/show", async (c) => {
+  try {
+    return await handleShow(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+ollamaRoutes.get("/version", (c) => c.json({ version: OLLAMA_VERSION }))
@@ -0,0 +1,323 @@
+import {
+  type ChatCompletionChunk,
+  type ChatCompletionResponse,
+  type ChatCompletionsPayload,
+  type ContentPart,
+  type Message,
+  type ToolCall,
+} from "~/services/copilot/create-chat-completions"
+
+import { buildCompletionMessages } from "../completions/translation"
+import {
+  type OllamaChatPayload,
+  type OllamaChatResponse,
+  type OllamaDoneStats,
+  type OllamaFormat,
+  type OllamaGeneratePayload,
+  type OllamaGenerateResponse,
+  type OllamaMessage,
+  type OllamaOptions,
+  type OllamaStreamState,
+  type OllamaToolCall,
+} from "./ollama-types"
+
+// Ollama model names carry a tag; Copilot ids do not
+export const normalizeModelName = (model: string) =>
+  model.replace(/:latest$/, "")
+
+// Payload translation
+
+export function translateChatToOpenAI(
+  payload: OllamaChatPayload,
+): ChatCompletionsPayload {
+  return {
+    model: normalizeModelName(payload.model),
+    messages: translateOllamaMessagesToOpenAI(payload.messages),
+    tools: payload.tools?.map((tool) => ({
+      type: "function",
+      function: {
+        name: tool.function.name,
+        description: tool.function.description,
+        parameters: tool.function.parameters ?? {
+          type: "object",
+          properties: {},
+        },
+      },
+    })),
+    ...translateOptions(payload.options, payload.format),
+    // Ollama streams unless told otherwise
+    stream: payload.stream ?? true,
+  }
+}
+
+export function translateGenerateToOpenAI(
+  payload: OllamaGeneratePayload,
+): ChatCompletionsPayload {
+  const prompt = payload.prompt ?? ""
+
+  const messages: Array<Message> =
+    payload.suffix ?
+      buildCompletionMessages(prompt, payload.suffix)
+    : [
+        ...(payload.system ?
+          [{ role: "system" as const, content: payload.system }]
+        : []),
+        { role: "user", content: mapContent(prompt, payload.images) },
+      ]
+
+  return {
+    model: normalizeModelName(payload.model),
+    messages,
+    ...translateOptions(payload.options, payload.format),
+    stream: payload.stream ?? true,
+  }
+}
+
+function translateOptions(
+  options: OllamaOptions | undefined,
+  format: OllamaFormat | undefined,
+): Partial<ChatCompletionsPayload> {
+  return {
+    temperature: options?.temperature,
+    top_p: options?.top_p,
+    // A negative num_predict means "no limit"
+    max_tokens:
+      options?.num_predict !== undefined && options.num_predict >= 0 ?
+        options.num_predict
+      : undefined,
+    stop: options?.stop,
+    seed: options?.seed,
+    frequency_penalty: options?.frequency_penalty,
+    presence_penalty: options?.presence_penalty,
+    response_format: format ? { type: "json_object" } : undefined,
+  }
+}
+
+function translateOllamaMessagesToOpenAI(
+  messages: Array<OllamaMessage>,
+): Array<Message> {
+  // Ollama tool results carry no call id, only (optionally) the tool name, so
+  // they are matched against the calls still waiting for a result
+  const pendingCalls: Array<{ id: string; name: string }> = []
+
+  return messages.map((message, messageIndex) => {
+    switch (message.role) {
+      case "assistant": {
+        const toolCalls: Array<ToolCall> | undefined = message.tool_calls?.map(
+          (toolCall, callIndex) => {
+            const id = `call_${messageIndex}_${callIndex}`
+            pendingCalls.push({ id, name: toolCall.function.name })
+            return {
+              id,
+              type: "function",
+              function: {
+                name: toolCall.function.name,
+                arguments: JSON.stringify(toolCall.function.arguments),
+              },
+            }
+          },
+        )
+        return {
+          role: "assistant",
+          content: message.content || null,
+          ...(toolCalls?.length && { tool_calls: toolCalls }),
+        }
+      }
+      case "tool": {
+        const matchIndex = Math.max(
+          pendingCalls.findIndex((call) => call.name === message.tool_name),
+          0,
+        )
+        const call = pendingCalls.splice(matchIndex, 1).at(0)
+        return {
+          role: "tool",
+          tool_call_id: call?.id ?? `call_${messageIndex}`,
+          content: message.content,
+        }
+      }
+      default: {
+        return {
+          role: message.role,
+          content: mapContent(message.content, message.images),
+        }
+      }
+    }
+  })
+}
+
+function mapContent(
+  text: string,
+  images: Array<string> | undefined,
+): string | Array<ContentPart> {
+  if (!images || images.length === 0) {
+    return text
+  }
+  return [
+    { type: "text", text },
+    ...images.map(
+      (image): ContentPart => ({
+        type: "image_url",
+        image_url: {
+          url: `data:${guessImageMediaType(image)};base64,${image}`,
+        },
+      }),
+    ),
+  ]
+}
+
+// Ollama images are bare base64; recognise the common formats by their magic
+// bytes so the data URL carries the right media type
+function guessImageMediaType(base64: string): string {
+  if (base64.startsWith("/9j/")) return "image/jpeg"
+  if (base64.startsWith("R0lGOD")) return "image/gif"
+  if (base64.startsWith("UklGR")) return "image/webp"
+  return "image/png"
+}
+
+// Response translation
+
+const toOllamaToolCall = (name: string, argumentsJson: string) => ({
+  function: {
+    name,
+    arguments: (argumentsJson ? JSON.parse(argumentsJson) : {}) as Record<
+      string,
+      unknown
+    >,
+  },
+})
+
+const toNanoseconds = (milliseconds: number) => milliseconds * 1_000_000
+
+export function createDoneStats(
+  state: Pick<
+    OllamaStreamState,
+    "doneReason" | "promptTokens" | "completionTokens"
+  >,
+  startedAt: number,
+): OllamaDoneStats {
+  return {
+    done_reason: state.doneReason ?? "stop",
+    total_duration: toNanoseconds(Date.now() - startedAt),
+    load_duration: 0,
+    prompt_eval_count: state.promptTokens ?? 0,
+    eval_count: state.completionTokens ?? 0,
+  }
+}
+
+export function translateToOllamaChat(
+  response: ChatCompletionResponse,
+  model: string,
+  startedAt: number,
+): OllamaChatResponse {
+  const choice = response.choices[0]
+  const toolCalls = choice.message.tool_calls?.map((toolCall) =>
+    toOllamaToolCall(toolCall.function.name, toolCall.function.arguments),
+  )
+
+  return {
+    model,
+    created_at: new Date().toISOString(),
+    message: {
+      role: "assistant",
+      content: choice.message.content ?? "",
+      ...(choice.message.reasoning_text && {
+        thinking: choice.message.reasoning_text,
+      }),
+      ...(toolCalls?.length && { tool_calls: toolCalls }),
+    },
+    done: true,
+    ...createDoneStats(
+      {
+        doneReason: mapFinishReason(choice.finish_reason),
+        promptTokens: response.usage?.prompt_tokens,
+        completionTokens: response.usage?.completion_tokens,
+      },
+      startedAt,
+    ),
+  }
+}
+
+export function translateToOllamaGenerate(
+  response: ChatCompletionResponse,
+  model: string,
+  startedAt: number,
+): OllamaGenerateResponse {
+  const { message, done, ...stats } = translateToOllamaChat(
+    response,
+    model,
+    startedAt,
+  )
+  return {
+    ...stats,
+    response: message.content,
+    ...(message.thinking && { thinking: message.thinking }),
+    done,
+  }
+}
+
+const mapFinishReason = (
+  finishReason: ChatCompletionResponse["choices"][number]["finish_reason"],
+) => (finishReason === "length" ? "length" : "stop")
+
+export interface OllamaDelta {
+  content: string
+  thinking?: string
+  toolCalls?: Array<OllamaToolCall>
+}
+
+/**
+ * Translates a streamed chunk into the text to emit, if any. Tool call
+ * fragments are collected in `state` and emitted once the choice finishes,
+ * because Ollama sends every tool call whole.
+ */
+export function translateChunkToOllamaDelta(
+  chunk: ChatCompletionChunk,
+  state: OllamaStreamState,
+): OllamaDelta | undefined {
+  if (chunk.usage) {
+    state.promptTokens = chunk.usage.prompt_tokens
+    state.completionTokens = chunk.usage.completion_tokens
+  }
+
+  const choice = chunk.choices.at(0)
+  if (!choice) return undefined
+
+  collectToolCallDeltas(state, choice.delta.tool_calls ?? [])
+
+  const delta: OllamaDelta = { content: choice.delta.content ?? "" }
+  if (choice.delta.reasoning_text) {
+    delta.thinking = choice.delta.reasoning_text
+  }
+
+  if (choice.finish_reason) {
+    state.doneReason = mapFinishReason(choice.finish_reason)
+    const toolCalls = Object.values(state.toolCalls).map((toolCall) =>
+      toOllamaToolCall(toolCall.name, toolCall.arguments),
+    )
+    if (toolCalls.length > 0) delta.toolCalls = toolCalls
+    state.toolCalls = {}
+  }
+
+  if (!delta.content && !delta.thinking && !delta.toolCalls) {
+    return undefined
+  }
+  return delta
+}
+
+function collectToolCallDeltas(
+  state: OllamaStreamState,
+  toolCalls: NonNullable<
+    ChatCompletionChunk["choices"][number]["delta"]["tool_calls"]
+  >,
+): void {
+  for (const toolCall of toolCalls) {
+    const entry = (state.toolCalls[toolCall.index] ??= {
+      name: "",
+      arguments: "",
+    })
+    if (toolCall.function?.name) entry.name = toolCall.function.name
+    if (toolCall.function?.arguments) {
+      entry.arguments += toolCall.function.arguments
+    }
+  }
+}
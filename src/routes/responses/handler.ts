@@ -0,0 +1,164 @@
+import type { Context } from "hono"
+
+import consola from "consola"
+import { streamSSE } from "hono/streaming"
+
+import { awaitApproval } from "~/lib/approval"
+import { HTTPError } from "~/lib/error"
+import {
+  resolveRequestModel,
+  setResolvedModelHeader,
+} from "~/lib/model-aliases"
+import { checkRateLimit } from "~/lib/rate-limit"
+import { queueRequest } from "~/lib/request-queue"
+import { state } from "~/lib/state"
+import { createUpstreamAbort } from "~/lib/upstream-abort"
+import { isNonStreaming } from "~/lib/utils"
+import {
+  createChatCompletions,
+  type ChatCompletionChunk,
+  type Message,
+} from "~/services/copilot/create-chat-completions"
+
+import { type ResponsesPayload } from "./responses-types"
+import { getStoredResponse, saveResponse } from "./store"
+import {
+  createResponsesStreamState,
+  finalizeResponsesStream,
+  translateChunkToResponsesEvents,
+} from "./stream-translation"
+import {
+  createResponseObject,
+  translateInputToMessages,
+  translateOutputToMessages,
+  translateToOpenAI,
+  translateToResponse,
+} from "./translation"
+
+export async function handleResponse(c: Context) {
+  const payload = await c.req.json<ResponsesPayload>()
+  consola.debug("Responses request payload:", JSON.stringify(payload))
+
+  const history = resolveHistory(payload.previous_response_id)
+  const openAIPayload = {
+    ...translateToOpenAI(payload, history),
+    model: resolveRequestModel(c, payload.model),
+  }
+  consola.debug(
+    "Translated OpenAI request payload:",
+    JSON.stringify(openAIPayload),
+  )
+  await checkRateLimit(c, openAIPayload)
+
+  if (state.manualApprove) {
+    await awaitApproval()
+  }
+  await queueRequest(c, openAIPayload)
+
+  // History the next turn will chain on: prior turns plus this request's input
+  const turnMessages = [...history, ...translateInputToMessages(payload.input)]
+  const shouldStore = payload.store !== false
+
+  const upstream = createUpstreamAbort(c)
+  const response = await createChatCompletions(openAIPayload, {
+    signal: upstream.signal,
+    onFallback: (model) => setResolvedModelHeader(c, model),
+  })
+
+  if (isNonStreaming(response)) {
+    upstream.finish()
+    consola.debug(
+      "Non-streaming response from Copilot:",
+      JSON.stringify(response).slice(-400),
+    )
+    const result = translateToResponse(response, payload)
+    if (shouldStore) {
+      saveResponse({
+        response: result,
+        messages: [
+          ...turnMessages,
+          ...translateOutputToMessages(result.output),
+        ],
+      })
+    }
+    return c.json(result)
+  }
+
+  consola.debug("Streaming response from Copilot")
+  return streamSSE(c, async (stream) => {
+    const streamState = createResponsesStreamState(
+      createResponseObject(payload, payload.model),
+    )
+    stream.onAbort(upstream.cancel)
+
+    try {
+      for await (const rawEvent of response) {
+        consola.debug("Copilot raw stream event:", JSON.stringify(rawEvent))
+        if (rawEvent.data === "[DONE]") {
+          break
+        }
+
+        if (!rawEvent.data) {
+          continue
+        }
+
+        const chunk = JSON.parse(rawEvent.data) as ChatCompletionChunk
+        const events = translateChunkToResponsesEvents(chunk, streamState)
+
+        for (const event of events) {
+          await stream.writeSSE({
+            event: event.type,
+            data: JSON.stringify(event),
+          })
+        }
+      }
+
+      for (const event of finalizeResponsesStream(streamState)) {
+        await stream.writeSSE({
+          event: event.type,
+          data: JSON.stringify(event),
+        })
+      }
+    } catch (error) {
+      // The upstream read fails once cancelled; the client is already gone,
+      // and an unfinished response is not worth storing
+      if (!stream.aborted) throw error
+      return
+    } finally {
+      upstream.finish()
+    }
+
+    if (shouldStore) {
+      saveResponse({
+        response: streamState.response,
+        messages: [
+          ...turnMessages,
+          ...translateOutputToMessages(streamState.response.output),
+        ],
+      })
+    }
+  })
+}
+
+function resolveHistory(
+  previousResponseId: ResponsesPayload["previous_response_id"],
+): Array<Message> {
+  if (!previousResponseId) {
+    return []
+  }
+
+  const previous = getStoredResponse(previousResponseId)
+  if (!previous) {
+    throw new HTTPError(
+      "Previous response not found",
+      Response.json(
+        {
+          message: `Previous response with id '${previousResponseId}' not found.`,
+        },
+        { status: 404 },
+      ),
+    )
+  }
+
+  return previous.messages
+}
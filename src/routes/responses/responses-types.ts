@@ -0,0 +1,223 @@
+// OpenAI Responses API Types
+
+export interface ResponsesPayload {
+  model: string
+  input: string | Array<ResponseInputItem>
+  instructions?: string | null
+  previous_response_id?: string | null
+  max_output_tokens?: number | null
+  temperature?: number | null
+  top_p?: number | null
+  stream?: boolean | null
+  store?: boolean | null
+  tools?: Array<ResponseTool> | null
+  tool_choice?: ResponseToolChoice | null
+  parallel_tool_calls?: boolean | null
+  text?: {
+    format?: { type: "text" } | { type: "json_object" }
+  } | null
+  metadata?: Record<string, string> | null
+  user?: string | null
+}
+
+export type ResponseInputItem =
+  | ResponseInputMessage
+  | ResponseFunctionCallItem
+  | ResponseFunctionCallOutputItem
+
+export interface ResponseInputMessage {
+  // `type` may be omitted for the "easy input message" shorthand
+  type?: "message"
+  role: "user" | "assistant" | "system" | "developer"
+  content: string | Array<ResponseInputContent>
+}
+
+export type ResponseInputContent =
+  | ResponseInputText
+  | ResponseInputImage
+  | ResponseOutputText
+
+export interface ResponseInputText {
+  type: "input_text"
+  text: string
+}
+
+export interface ResponseInputImage {
+  type: "input_image"
+  image_url?: string
+  detail?: "low" | "high" | "auto"
+}
+
+export interface ResponseOutputText {
+  type: "output_text"
+  text: string
+  annotations: Array<unknown>
+}
+
+export interface ResponseFunctionCallItem {
+  type: "function_call"
+  id?: string
+  call_id: string
+  name: string
+  arguments: string
+  status?: "in_progress" | "completed" | "incomplete"
+}
+
+export interface ResponseFunctionCallOutputItem {
+  type: "function_call_output"
+  call_id: string
+  output: string
+}
+
+export interface ResponseFunctionTool {
+  type: "function"
+  name: string
+  description?: string | null
+  parameters?: Record<string, unknown> | null
+  strict?: boolean | null
+}
+
+// Only function tools can be forwarded to Copilot; hosted tools are ignored
+export type ResponseTool = ResponseFunctionTool | { type: string }
+
+export type ResponseToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; name: string }
+
+export interface ResponseOutputMessage {
+  type: "message"
+  id: string
+  status: "in_progress" | "completed" | "incomplete"
+  role: "assistant"
+  content: Array<ResponseOutputText>
+}
+
+export type ResponseOutputItem =
+  | ResponseOutputMessage
+  | (ResponseFunctionCallItem & { id: string })
+
+export interface ResponseUsage {
+  input_tokens: number
+  input_tokens_details: {
+    cached_tokens: number
+  }
+  output_tokens: number
+  output_tokens_details: {
+    reasoning_tokens: number
+  }
+  total_tokens: number
+}
+
+export interface ResponseObject {
+  id: string
+  object: "response"
+  created_at: number
+  status: "in_progress" | "completed" | "incomplete" | "failed"
+  model: string
+  output: Array<ResponseOutputItem>
+  instructions: string | null
+  previous_response_id: string | null
+  max_output_tokens: number | null
+  temperature: number | null
+  top_p: number | null
+  tools: Array<ResponseTool>
+  tool_choice: ResponseToolChoice
+  parallel_tool_calls: boolean
+  text: NonNullable<ResponsesPayload["text"]>
+  metadata: Record<string, string>
+  user: string | null
+  incomplete_details: {
+    reason: "max_output_tokens" | "content_filter"
+  } | null
+  error: {
+    code: string
+    message: string
+  } | null
+  usage: ResponseUsage | null
+}
+
+// Responses Stream Event Types
+
+interface ResponseStreamEventBase {
+  sequence_number: number
+}
+
+export interface ResponseLifecycleEvent extends ResponseStreamEventBase {
+  type:
+    | "response.created"
+    | "response.in_progress"
+    | "response.completed"
+    | "response.incomplete"
+  response: ResponseObject
+}
+
+export interface ResponseOutputItemEvent extends ResponseStreamEventBase {
+  type: "response.output_item.added" | "response.output_item.done"
+  output_index: number
+  item: ResponseOutputItem
+}
+
+export interface ResponseContentPartEvent extends ResponseStreamEventBase {
+  type: "response.content_part.added" | "response.content_part.done"
+  item_id: string
+  output_index: number
+  content_index: number
+  part: ResponseOutputText
+}
+
+export interface ResponseOutputTextDeltaEvent extends ResponseStreamEventBase {
+  type: "response.output_text.delta"
+  item_id: string
+  output_index: number
+  content_index: number
+  delta: string
+}
+
+export interface ResponseOutputTextDoneEvent extends ResponseStreamEventBase {
+  type: "response.output_text.done"
+  item_id: string
+  output_index: number
+  content_index: number
+  text: string
+}
+
+export interface ResponseFunctionCallArgumentsDeltaEvent
+  extends ResponseStreamEventBase {
+  type: "response.function_call_arguments.delta"
+  item_id: string
+  output_index: number
+  delta: string
+}
+
+export interface ResponseFunctionCallArgumentsDoneEvent
+  extends ResponseStreamEventBase {
+  type: "response.function_call_arguments.done"
+  item_id: string
+  output_index: number
+  arguments: string
+}
+
+export type ResponseStreamEvent =
+  | ResponseLifecycleEvent
+  | ResponseOutputItemEvent
+  | ResponseContentPartEvent
+  | ResponseOutputTextDeltaEvent
+  | ResponseOutputTextDoneEvent
+  | ResponseFunctionCallArgumentsDeltaEvent
+  | ResponseFunctionCallArgumentsDoneEvent
+
+// State for streaming translation
+export interface ResponsesStreamState {
+  response: ResponseObject
+  sequenceNumber: number
+  createdSent: boolean
+  finishReason: "stop" | "length" | "tool_calls" | "content_filter" | null
+  messageOutputIndex: number | null
+  toolCalls: {
+    [openAIToolIndex: number]: {
+      outputIndex: number
+    }
+  }
+}
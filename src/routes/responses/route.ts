@@ -0,0 +1,39 @@
+import { Hono } from "hono"
+
+import { forwardError } from "~/lib/error"
+
+import { handleResponse } from "./handler"
+import { deleteStoredResponse, getStoredResponse } from "./store"
+
+export const responsesRoutes = new Hono()
+
+responsesRoutes.post("/", async (c) => {
+  try {
+    return await handleResponse(c)
+  } catch (error) {
+    return await forwardError(c, error)
+  }
+})
+
+responsesRoutes.get("/:id", (c) => {
+  const stored = getStoredResponse(c.req.param("id"))
+  if (!stored) {
+    return c.json(responseNotFound(c.req.param("id")), 404)
+  }
+  return c.json(stored.response)
+})
+
+responsesRoutes.delete("/:id", (c) => {
+  const id = c.req.param("id")
+  if (!deleteStoredResponse(id)) {
+    return c.json(responseNotFound(id), 404)
+  }
+  return c.json({ id, object: "response", deleted: true })
+})
+
+const responseNotFound = (id: string) => ({
+  error: {
+    message: `Response with id '${id}' not found.`,
+    type: "invalid_request_error",
+  },
+})
@@ -0,0 +1,35 @@
+import type { Message } from "~/services/copilot/create-chat-completions"
+
+import type { ResponseObject } from "./responses-types"
+
+// Keep only the most recent responses; clients chain on recent turns and the
+// store would otherwise grow for the lifetime of the daemon.
+const MAX_STORED_RESPONSES = 1000
+
+export interface StoredResponse {
+  response: ResponseObject
+  // Conversation up to and including this response's output, without the
+  // request's `instructions` (those are never carried across turns)
+  messages: Array<Message>
+}
+
+const responses = new Map<string, StoredResponse>()
+
+export function saveResponse(entry: StoredResponse): void {
+  responses.delete(entry.response.id)
+  responses.set(entry.response.id, entry)
+
+  while (responses.size > MAX_STORED_RESPONSES) {
+    const oldest = responses.keys().next().value
+    if (oldest === undefined) break
+    responses.delete(oldest)
+  }
+}
+
+export function getStoredResponse(id: string): StoredResponse | undefined {
+  return responses.get(id)
+}
+
+export function deleteStoredResponse(id: string): boolean {
+  return responses.delete(id)
+}
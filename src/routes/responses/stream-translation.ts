@@ -0,0 +1,251 @@
+import { type ChatCompletionChunk } from "~/services/copilot/create-chat-completions"
+
+import {
+  type ResponseObject,
+  type ResponseOutputMessage,
+  type ResponseStreamEvent,
+  type ResponsesStreamState,
+} from "./responses-types"
+import {
+  applyFinishReason,
+  generateResponseId,
+  translateUsage,
+} from "./translation"
+
+export function createResponsesStreamState(
+  response: ResponseObject,
+): ResponsesStreamState {
+  return {
+    response,
+    sequenceNumber: 0,
+    createdSent: false,
+    finishReason: null,
+    messageOutputIndex: null,
+    toolCalls: {},
+  }
+}
+
+const nextSequenceNumber = (state: ResponsesStreamState) =>
+  state.sequenceNumber++
+
+// Snapshot the response so events already emitted are not mutated later
+const snapshot = (response: ResponseObject): ResponseObject =>
+  structuredClone(response)
+
+function getMessageItem(
+  state: ResponsesStreamState,
+): ResponseOutputMessage | undefined {
+  if (state.messageOutputIndex === null) {
+    return undefined
+  }
+  const item = state.response.output[state.messageOutputIndex]
+  return item.type === "message" ? item : undefined
+}
+
+// eslint-disable-next-line max-lines-per-function, complexity
+export function translateChunkToResponsesEvents(
+  chunk: ChatCompletionChunk,
+  state: ResponsesStreamState,
+): Array<ResponseStreamEvent> {
+  const events: Array<ResponseStreamEvent> = []
+
+  if (!state.createdSent) {
+    if (chunk.model) {
+      state.response.model = chunk.model
+    }
+    events.push(
+      {
+        type: "response.created",
+        sequence_number: nextSequenceNumber(state),
+        response: snapshot(state.response),
+      },
+      {
+        type: "response.in_progress",
+        sequence_number: nextSequenceNumber(state),
+        response: snapshot(state.response),
+      },
+    )
+    state.createdSent = true
+  }
+
+  if (chunk.usage) {
+    state.response.usage = translateUsage(chunk.usage)
+  }
+
+  const choice = chunk.choices.at(0)
+  if (!choice) {
+    return events
+  }
+
+  const { delta } = choice
+
+  if (delta.content) {
+    let messageItem = getMessageItem(state)
+    if (!messageItem) {
+      messageItem = {
+        type: "message",
+        id: generateResponseId("msg"),
+        status: "in_progress",
+        role: "assistant",
+        content: [],
+      }
+      state.messageOutputIndex = state.response.output.length
+      state.response.output.push(messageItem)
+
+      events.push(
+        {
+          type: "response.output_item.added",
+          sequence_number: nextSequenceNumber(state),
+          output_index: state.messageOutputIndex,
+          item: structuredClone(messageItem),
+        },
+        {
+          type: "response.content_part.added",
+          sequence_number: nextSequenceNumber(state),
+          item_id: messageItem.id,
+          output_index: state.messageOutputIndex,
+          content_index: 0,
+          part: { type: "output_text", text: "", annotations: [] },
+        },
+      )
+      messageItem.content.push({
+        type: "output_text",
+        text: "",
+        annotations: [],
+      })
+    }
+
+    messageItem.content[0].text += delta.content
+    events.push({
+      type: "response.output_text.delta",
+      sequence_number: nextSequenceNumber(state),
+      item_id: messageItem.id,
+      output_index: state.messageOutputIndex as number,
+      content_index: 0,
+      delta: delta.content,
+    })
+  }
+
+  for (const toolCall of delta.tool_calls ?? []) {
+    if (toolCall.id && toolCall.function?.name) {
+      const outputIndex = state.response.output.length
+      const item = {
+        type: "function_call" as const,
+        id: generateResponseId("fc"),
+        call_id: toolCall.id,
+        name: toolCall.function.name,
+        arguments: "",
+        status: "in_progress" as const,
+      }
+      state.response.output.push(item)
+      state.toolCalls[toolCall.index] = { outputIndex }
+
+      events.push({
+        type: "response.output_item.added",
+        sequence_number: nextSequenceNumber(state),
+        output_index: outputIndex,
+        item: structuredClone(item),
+      })
+    }
+
+    const toolCallInfo = state.toolCalls[toolCall.index] as
+      | ResponsesStreamState["toolCalls"][number]
+      | undefined
+    const argumentsDelta = toolCall.function?.arguments
+    if (toolCallInfo && argumentsDelta) {
+      const item = state.response.output[toolCallInfo.outputIndex]
+      if (item.type === "function_call") {
+        item.arguments += argumentsDelta
+        events.push({
+          type: "response.function_call_arguments.delta",
+          sequence_number: nextSequenceNumber(state),
+          item_id: item.id,
+          output_index: toolCallInfo.outputIndex,
+          delta: argumentsDelta,
+        })
+      }
+    }
+  }
+
+  if (choice.finish_reason) {
+    state.finishReason = choice.finish_reason
+  }
+
+  return events
+}
+
+/**
+ * Closes every open output item and emits the terminal `response.completed`
+ * (or `response.incomplete`) event. Called once the upstream stream has ended, so any trailing usage
+ * chunk has already been applied.
+ */
+export function finalizeResponsesStream(
+  state: ResponsesStreamState,
+): Array<ResponseStreamEvent> {
+  const events: Array<ResponseStreamEvent> = []
+
+  if (!state.createdSent) {
+    events.push({
+      type: "response.created",
+      sequence_number: nextSequenceNumber(state),
+      response: snapshot(state.response),
+    })
+    state.createdSent = true
+  }
+
+  const itemStatus =
+    state.finishReason === "length" ? "incomplete" : "completed"
+
+  for (const [outputIndex, item] of state.response.output.entries()) {
+    item.status = itemStatus
+
+    if (item.type === "message") {
+      const part = item.content[0]
+      events.push(
+        {
+          type: "response.output_text.done",
+          sequence_number: nextSequenceNumber(state),
+          item_id: item.id,
+          output_index: outputIndex,
+          content_index: 0,
+          text: part.text,
+        },
+        {
+          type: "response.content_part.done",
+          sequence_number: nextSequenceNumber(state),
+          item_id: item.id,
+          output_index: outputIndex,
+          content_index: 0,
+          part: structuredClone(part),
+        },
+      )
+    } else {
+      events.push({
+        type: "response.function_call_arguments.done",
+        sequence_number: nextSequenceNumber(state),
+        item_id: item.id,
+        output_index: outputIndex,
+        arguments: item.arguments,
+      })
+    }
+
+    events.push({
+      type: "response.output_item.done",
+      sequence_number: nextSequenceNumber(state),
+      output_index: outputIndex,
+      item: structuredClone(item),
+    })
+  }
+
+  applyFinishReason(state.response, state.finishReason)
+  events.push({
+    type:
+      state.response.status === "incomplete" ?
+        "response.incomplete"
+      : "response.completed",
+    sequence_number: nextSequenceNumber(state),
+    response: snapshot(state.response),
+  })
+
+  return events
+}
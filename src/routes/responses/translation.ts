@@ -0,0 +1,317 @@
+import { randomUUID } from "node:crypto"
+
+import {
+  type ChatCompletionResponse,
+  type ChatCompletionsPayload,
+  type ContentPart,
+  type Message,
+  type Tool,
+} from "~/services/copilot/create-chat-completions"
+
+import {
+  type ResponseFunctionTool,
+  type ResponseInputContent,
+  type ResponseInputItem,
+  type ResponseObject,
+  type ResponseOutputItem,
+  type ResponseOutputMessage,
+  type ResponsesPayload,
+  type ResponseTool,
+  type ResponseUsage,
+} from "./responses-types"
+
+export const generateResponseId = (prefix: "resp" | "msg" | "fc") =>
+  `${prefix}_${randomUUID().replaceAll("-", "")}`
+
+// Payload translation
+
+/**
+ * Converts the request's own `input` into chat messages. The result does not
+ * include `instructions` or any history from `previous_response_id`.
+ */
+export function translateInputToMessages(
+  input: ResponsesPayload["input"],
+): Array<Message> {
+  if (typeof input === "string") {
+    return [{ role: "user", content: input }]
+  }
+
+  const messages: Array<Message> = []
+  for (const item of input) {
+    appendInputItem(messages, item)
+  }
+  return messages
+}
+
+function appendInputItem(messages: Array<Message>, item: ResponseInputItem) {
+  switch (item.type) {
+    case "function_call": {
+      const toolCall = {
+        id: item.call_id,
+        type: "function" as const,
+        function: { name: item.name, arguments: item.arguments },
+      }
+      // Consecutive function calls belong to the same assistant turn
+      const last = messages.at(-1)
+      if (last?.role === "assistant") {
+        last.tool_calls = [...(last.tool_calls ?? []), toolCall]
+      } else {
+        messages.push({
+          role: "assistant",
+          content: null,
+          tool_calls: [toolCall],
+        })
+      }
+      break
+    }
+    case "function_call_output": {
+      messages.push({
+        role: "tool",
+        tool_call_id: item.call_id,
+        content: item.output,
+      })
+      break
+    }
+    default: {
+      messages.push({
+        role: item.role,
+        content: mapInputContent(item.content),
+      })
+    }
+  }
+}
+
+function mapInputContent(
+  content: string | Array<ResponseInputContent>,
+): string | Array<ContentPart> {
+  if (typeof content === "string") {
+    return content
+  }
+
+  const hasImage = content.some((part) => part.type === "input_image")
+  if (!hasImage) {
+    return content
+      .map((part) => (part.type === "input_image" ? "" : part.text))
+      .join("")
+  }
+
+  const contentParts: Array<ContentPart> = []
+  for (const part of content) {
+    if (part.type === "input_image") {
+      if (part.image_url) {
+        contentParts.push({
+          type: "image_url",
+          image_url: { url: part.image_url, detail: part.detail },
+        })
+      }
+    } else {
+      contentParts.push({ type: "text", text: part.text })
+    }
+  }
+  return contentParts
+}
+
+export function translateToOpenAI(
+  payload: ResponsesPayload,
+  history: Array<Message>,
+): ChatCompletionsPayload {
+  const systemMessages: Array<Message> =
+    payload.instructions ?
+      [{ role: "system", content: payload.instructions }]
+    : []
+
+  return {
+    model: payload.model,
+    messages: [
+      ...systemMessages,
+      ...history,
+      ...translateInputToMessages(payload.input),
+    ],
+    max_tokens: payload.max_output_tokens,
+    stream: payload.stream,
+    temperature: payload.temperature,
+    top_p: payload.top_p,
+    user: payload.user,
+    tools: translateTools(payload.tools),
+    tool_choice: translateToolChoice(payload.tool_choice),
+    response_format:
+      payload.text?.format?.type === "json_object" ?
+        { type: "json_object" }
+      : undefined,
+  }
+}
+
+const isFunctionTool = (tool: ResponseTool): tool is ResponseFunctionTool =>
+  tool.type === "function"
+
+function translateTools(
+  tools: ResponsesPayload["tools"],
+): Array<Tool> | undefined {
+  const functionTools = tools?.filter((tool) => isFunctionTool(tool))
+  if (!functionTools || functionTools.length === 0) {
+    return undefined
+  }
+
+  return functionTools.map((tool) => ({
+    type: "function",
+    function: {
+      name: tool.name,
+      description: tool.description ?? undefined,
+      parameters: tool.parameters ?? { type: "object", properties: {} },
+    },
+  }))
+}
+
+function translateToolChoice(
+  toolChoice: ResponsesPayload["tool_choice"],
+): ChatCompletionsPayload["tool_choice"] {
+  if (!toolChoice) {
+    return undefined
+  }
+  if (typeof toolChoice === "string") {
+    return toolChoice
+  }
+  return { type: "function", function: { name: toolChoice.name } }
+}
+
+// Response translation
+
+/**
+ * Builds the response envelope shared by streamed and non-streamed responses,
+ * echoing back the request parameters the way OpenAI does.
+ */
+export function createResponseObject(
+  payload: ResponsesPayload,
+  model: string,
+): ResponseObject {
+  return {
+    id: generateResponseId("resp"),
+    object: "response",
+    created_at: Math.floor(Date.now() / 1000),
+    status: "in_progress",
+    model,
+    output: [],
+    instructions: payload.instructions ?? null,
+    previous_response_id: payload.previous_response_id ?? null,
+    max_output_tokens: payload.max_output_tokens ?? null,
+    temperature: payload.temperature ?? null,
+    top_p: payload.top_p ?? null,
+    tools: payload.tools ?? [],
+    tool_choice: payload.tool_choice ?? "auto",
+    parallel_tool_calls: payload.parallel_tool_calls ?? true,
+    text: payload.text ?? { format: { type: "text" } },
+    metadata: payload.metadata ?? {},
+    user: payload.user ?? null,
+    incomplete_details: null,
+    error: null,
+    usage: null,
+  }
+}
+
+export function translateToResponse(
+  response: ChatCompletionResponse,
+  payload: ResponsesPayload,
+): ResponseObject {
+  const result = createResponseObject(payload, response.model)
+  const choice = response.choices.at(0)
+
+  if (choice?.message.content) {
+    result.output.push({
+      type: "message",
+      id: generateResponseId("msg"),
+      status: "completed",
+      role: "assistant",
+      content: [
+        { type: "output_text", text: choice.message.content, annotations: [] },
+      ],
+    })
+  }
+
+  for (const toolCall of choice?.message.tool_calls ?? []) {
+    result.output.push({
+      type: "function_call",
+      id: generateResponseId("fc"),
+      call_id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments,
+      status: "completed",
+    })
+  }
+
+  applyFinishReason(result, choice?.finish_reason ?? null)
+  result.usage = translateUsage(response.usage)
+
+  return result
+}
+
+/**
+ * Sets the final status of a response based on the upstream finish reason
+ */
+export function applyFinishReason(
+  response: ResponseObject,
+  finishReason: "stop" | "length" | "tool_calls" | "content_filter" | null,
+): void {
+  if (finishReason === "length" || finishReason === "content_filter") {
+    response.status = "incomplete"
+    response.incomplete_details = {
+      reason:
+        finishReason === "length" ? "max_output_tokens" : "content_filter",
+    }
+    return
+  }
+  response.status = "completed"
+}
+
+export function translateUsage(
+  usage: ChatCompletionResponse["usage"],
+): ResponseUsage | null {
+  if (!usage) {
+    return null
+  }
+  return {
+    input_tokens: usage.prompt_tokens,
+    input_tokens_details: {
+      cached_tokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+    },
+    output_tokens: usage.completion_tokens,
+    output_tokens_details: { reasoning_tokens: 0 },
+    total_tokens: usage.total_tokens,
+  }
+}
+
+/**
+ * Converts response output items back into chat messages so the next turn
+ * can chain on them through `previous_response_id`.
+ */
+export function translateOutputToMessages(
+  output: Array<ResponseOutputItem>,
+): Array<Message> {
+  const text = output
+    .filter((item): item is ResponseOutputMessage => item.type === "message")
+    .flatMap((item) => item.content.map((part) => part.text))
+    .join("")
+
+  const toolCalls = output.flatMap((item) =>
+    item.type === "function_call" ?
+      [
+        {
+          id: item.call_id,
+          type: "function" as const,
+          function: { name: item.name, arguments: item.arguments },
+        },
+      ]
+    : [],
+  )
+
+  if (!text && toolCalls.length === 0) {
+    return []
+  }
+
+  return [
+    {
+      role: "assistant",
+      content: text || null,
+      ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+    },
+  ]
+}
@@ -1,16 +1,27 @@
-import { Hono } from "hono"
+import consola from "consola"
+import { Hono, type Context } from "hono"
 import { cors } from "hono/cors"
 import { logger } from "hono/logger"
+import { requestId } from "hono/request-id"
 
+import { loadConfig } from "./lib/config"
+import { releaseWhenSent } from "./lib/request-leases"
+import { batchRoutes } from "./routes/batches/route"
 import { completionRoutes } from "./routes/chat-completions/route"
+import { textCompletionRoutes } from "./routes/completions/route"
 import { embeddingRoutes } from "./routes/embeddings/route"
+import { fileRoutes } from "./routes/files/route"
+import { geminiRoutes } from "./routes/gemini/route"
 import { messageRoutes } from "./routes/messages/route"
 import { modelRoutes } from "./routes/models/route"
+import { ollamaRoutes } from "./routes/ollama/route"
+import { responsesRoutes } from "./routes/responses/route"
 import { tokenRoute } from "./routes/token/route"
 import { usageRoute } from "./routes/usage/route"
 
 export const server = new Hono()
 
+server.use(requestId())
 server.use(logger())
 server.use(cors())
 
@@ -43,27 +54,48 @@ server.use(async (c, next) => {
   }
 })
 
+// Hands back rate-limit and queue slots once each response is sent
+server.use(releaseWhenSent)
+
 server.get("/", (c) => c.text("Server running"))
 
 server.route("/chat/completions", completionRoutes)
+server.route("/completions", textCompletionRoutes)
 server.route("/models", modelRoutes)
 server.route("/embeddings", embeddingRoutes)
+server.route("/responses", responsesRoutes)
+server.route("/files", fileRoutes)
+server.route("/batches", batchRoutes)
 server.route("/usage", usageRoute)
 server.route("/token", tokenRoute)
 
 // Compatibility with tools that expect v1/ prefix
 server.route("/v1/chat/completions", completionRoutes)
+server.route("/v1/completions", textCompletionRoutes)
 server.route("/v1/models", modelRoutes)
 server.route("/v1/embeddings", embeddingRoutes)
+server.route("/v1/responses", responsesRoutes)
+server.route("/v1/files", fileRoutes)
+server.route("/v1/batches", batchRoutes)
 
 // Anthropic compatible endpoints
 server.route("/v1/messages", messageRoutes)
 
+// Gemini compatible endpoints
+server.route("/v1beta/models", geminiRoutes)
+
+// Ollama compatible endpoints
+server.route("/api", ollamaRoutes)
+
+// Admin endpoints are only served to localhost
+const isLocalRequest = (c: Context) => {
+  const host = c.req.header("host") || ""
+  return host.startsWith("localhost:") || host.startsWith("127.0.0.1:")
+}
+
 // Admin endpoint for graceful shutdown
 server.post("/admin/shutdown", async (c) => {
-  // Only allow shutdown from localhost
-  const host = c.req.header("host") || ""
-  if (!host.startsWith("localhost:") && !host.startsWith("127.0.0.1:")) {
+  if (!isLocalRequest(c)) {
     return c.text("Forbidden", 403)
   }
 
@@ -77,3 +109,25 @@ server.post("/admin/shutdown", async (c) => {
 
   return c.json({ message: "Shutting down gracefully" })
 })
+
+// Admin endpoint to re-read the config file without a restart
+server.post("/admin/reload-config", async (c) => {
+  if (!isLocalRequest(c)) {
+    return c.text("Forbidden", 403)
+  }
+
+  try {
+    const config = await loadConfig()
+    return c.json({
+      message: "Config reloaded",
+      model_aliases: config.model_aliases?.length ?? 0,
+      model_fallbacks: Object.keys(config.model_fallbacks?.chains ?? {}).length,
+    })
+  } catch (error) {
+    consola.warn("Failed to reload config:", error)
+    return c.json(
+      { error: { message: (error as Error).message, type: "error" } },
+      400,
+    )
+  }
+})
@@ -3,10 +3,22 @@ import { events } from "fetch-event-stream"
 
 import { copilotHeaders, copilotBaseUrl } from "~/lib/api-config"
 import { HTTPError } from "~/lib/error"
+import { modelCandidates, shouldFallback } from "~/lib/model-fallbacks"
+import { fetchWithRetry } from "~/lib/retry"
 import { state } from "~/lib/state"
 
+/**
+ * Sends a chat completion to Copilot. When the model has a fallback chain,
+ * a failure that qualifies for fallback moves on to the next model before
+ * anything is returned, so a stream always comes from a single model.
+ * `onFallback` is told about each model switched to.
+ */
 export const createChatCompletions = async (
   payload: ChatCompletionsPayload,
+  options: {
+    signal?: AbortSignal
+    onFallback?: (model: string) => void
+  } = {},
 ) => {
   if (!state.copilotToken) throw new Error("Copilot token not found")
 
@@ -16,23 +28,36 @@ export const createChatCompletions = async (
       && x.content?.some((x) => x.type === "image_url"),
   )
 
-  // Agent/user check for X-Initiator header
-  // Determine if any message is from an agent ("assistant" or "tool")
-  const isAgentCall = payload.messages.some((msg) =>
-    ["assistant", "tool"].includes(msg.role),
-  )
-
   // Build headers and add X-Initiator
   const headers: Record<string, string> = {
     ...copilotHeaders(state, enableVision),
-    "X-Initiator": isAgentCall ? "agent" : "user",
+    "X-Initiator": isAgentCall(payload) ? "agent" : "user",
   }
 
-  const response = await fetch(`${copilotBaseUrl(state)}/chat/completions`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify(payload),
-  })
+  const request = (model: string) =>
+    fetchWithRetry(
+      `Chat completions (${model})`,
+      `${copilotBaseUrl(state)}/chat/completions`,
+      {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ ...payload, model }),
+        signal: options.signal,
+      },
+    )
+
+  const candidates = modelCandidates(payload.model)
+  let response = await request(candidates[0])
+  for (const [index, next] of candidates.slice(1).entries()) {
+    if (response.ok || !(await shouldFallback(response))) break
+    consola.warn(
+      `Model ${candidates[index]} failed with status ${response.status}, falling back to ${next}`,
+    )
+    // Frees the connection, as only a clone of the failed body was read
+    await response.body?.cancel()
+    options.onFallback?.(next)
+    response = await request(next)
+  }
 
   if (!response.ok) {
     consola.error("Failed to create chat completions", response)
@@ -40,12 +65,19 @@ export const createChatCompletions = async (
   }
 
   if (payload.stream) {
-    return events(response)
+    return events(response, options.signal)
   }
 
   return (await response.json()) as ChatCompletionResponse
 }
 
+/**
+ * Agent/user check for the X-Initiator header: a conversation that already
+ * has an agent message ("assistant" or "tool") is treated as agent work.
+ */
+export const isAgentCall = (payload: ChatCompletionsPayload) =>
+  payload.messages.some((msg) => ["assistant", "tool"].includes(msg.role))
+
 // Streaming types
 
 export interface ChatCompletionChunk {
@@ -71,6 +103,8 @@ export interface ChatCompletionChunk {
 
 interface Delta {
   content?: string | null
+  reasoning_text?: string | null
+  reasoning_opaque?: string | null
   role?: "user" | "assistant" | "system" | "tool"
   tool_calls?: Array<{
     index: number
@@ -112,6 +146,8 @@ export interface ChatCompletionResponse {
 interface ResponseMessage {
   role: "assistant"
   content: string | null
+  reasoning_text?: string | null
+  reasoning_opaque?: string | null
   tool_calls?: Array<ToolCall>
 }
 
@@ -133,13 +169,16 @@ export interface ChatCompletionsPayload {
   stop?: string | Array<string> | null
   n?: number | null
   stream?: boolean | null
+  stream_options?: { include_usage?: boolean } | null
 
   frequency_penalty?: number | null
   presence_penalty?: number | null
   logit_bias?: Record<string, number> | null
   logprobs?: boolean | null
-  response_format?: { type: "json_object" } | null
+  response_format?: ResponseFormat | null
   seed?: number | null
+  reasoning_effort?: "low" | "medium" | "high" | null
+  thinking_budget?: number | null
   tools?: Array<Tool> | null
   tool_choice?:
     | "none"
@@ -150,6 +189,23 @@ export interface ChatCompletionsPayload {
   user?: string | null
 }
 
+export type ResponseFormat =
+  | { type: "text" }
+  | { type: "json_object" }
+  | { type: "json_schema"; json_schema: JsonSchemaFormat }
+
+export interface JsonSchemaFormat {
+  name?: string
+  description?: string
+  schema?: Record<string, unknown>
+  strict?: boolean | null
+}
+
+// Prompt caching breakpoint, honored by Copilot for Claude-family models
+export interface CopilotCacheControl {
+  type: "ephemeral"
+}
+
 export interface Tool {
   type: "function"
   function: {
@@ -157,6 +213,7 @@ export interface Tool {
     description?: string
     parameters: Record<string, unknown>
   }
+  copilot_cache_control?: CopilotCacheControl
 }
 
 export interface Message {
@@ -166,6 +223,12 @@ export interface Message {
   name?: string
   tool_calls?: Array<ToolCall>
   tool_call_id?: string
+
+  // Reasoning returned by an earlier assistant turn, echoed back upstream
+  reasoning_text?: string
+  reasoning_opaque?: string
+
+  copilot_cache_control?: CopilotCacheControl
 }
 
 export interface ToolCall {
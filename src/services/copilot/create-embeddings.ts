@@ -1,24 +1,242 @@
+import consola from "consola"
+
 import { copilotHeaders, copilotBaseUrl } from "~/lib/api-config"
+import {
+  cacheEmbeddings,
+  embeddingsCacheKey,
+  getCachedEmbeddings,
+  isEmbeddingsCacheEnabled,
+} from "~/lib/embeddings-cache"
 import { HTTPError } from "~/lib/error"
+import { fetchWithRetry } from "~/lib/retry"
 import { state } from "~/lib/state"
+import { decodeTokens } from "~/lib/tokenizer"
+import { isNullish } from "~/lib/utils"
+
+import { type Model } from "./get-models"
 
-export const createEmbeddings = async (payload: EmbeddingRequest) => {
+/**
+ * Creates embeddings, splitting the input into several upstream calls when
+ * it exceeds the model's `max_inputs` and serving repeated inputs from the
+ * embeddings cache when it is enabled. Token-array inputs are decoded to
+ * text first. Embeddings always come back as floats; `encoding_format` is
+ * applied by the caller with `encodeEmbeddings`.
+ */
+export const createEmbeddings = async (
+  payload: EmbeddingRequest,
+  options: { signal?: AbortSignal } = {},
+): Promise<EmbeddingResponse> => {
   if (!state.copilotToken) throw new Error("Copilot token not found")
 
-  const response = await fetch(`${copilotBaseUrl(state)}/embeddings`, {
-    method: "POST",
-    headers: copilotHeaders(state),
-    body: JSON.stringify(payload),
-  })
+  const model = state.models?.data.find((m) => m.id === payload.model)
+  if (
+    !isNullish(payload.dimensions)
+    && model
+    && !model.capabilities.supports.dimensions
+  ) {
+    throw new HTTPError(
+      "Unsupported embeddings parameter",
+      Response.json(
+        {
+          error: {
+            message: `Model '${payload.model}' does not support the dimensions parameter`,
+            type: "invalid_request_error",
+          },
+        },
+        { status: 400 },
+      ),
+    )
+  }
+
+  const inputs = await normalizeInput(payload.input, model)
+  const fetchInputs = (batchInputs: Array<string>) =>
+    fetchEmbeddings(payload, batchInputs, { model, signal: options.signal })
+  return isEmbeddingsCacheEnabled() ?
+      createWithCache(payload, inputs, fetchInputs)
+    : fetchInputs(inputs)
+}
+
+/**
+ * Serves what it can from the on-disk cache and fetches only the misses,
+ * merging both back in input order. Usage covers the fetched inputs only.
+ */
+async function createWithCache(
+  payload: EmbeddingRequest,
+  inputs: Array<string>,
+  fetchInputs: (inputs: Array<string>) => Promise<EmbeddingResponse>,
+): Promise<EmbeddingResponse> {
+  const keys = inputs.map((input) =>
+    embeddingsCacheKey(payload.model, payload.dimensions, input),
+  )
+  const cached = await getCachedEmbeddings(keys)
+  const missing = inputs.filter((_, index) => !cached[index])
+  consola.debug(
+    `Embeddings cache: ${inputs.length - missing.length} hits, ${missing.length} misses`,
+  )
+
+  const fetched = missing.length > 0 ? await fetchInputs(missing) : undefined
+  const fresh = (fetched?.data ?? [])
+    .toSorted((a, b) => a.index - b.index)
+    .map((embedding) => embedding.embedding)
+  if (fresh.length !== missing.length) {
+    throw new HTTPError(
+      "Embeddings count mismatch",
+      Response.json(
+        {
+          error: {
+            message: `Copilot returned ${fresh.length} embeddings for ${missing.length} inputs`,
+            type: "invalid_response",
+          },
+        },
+        { status: 502 },
+      ),
+    )
+  }
+
+  try {
+    await cacheEmbeddings(
+      keys
+        .filter((_, index) => !cached[index])
+        .map((key, index) => ({ key, embedding: fresh[index] }))
+        .filter((item) => item.embedding.length > 0),
+    )
+  } catch (error) {
+    consola.warn("Failed to write to the embeddings cache:", error)
+  }
+
+  let next = 0
+  return {
+    object: "list",
+    model: fetched?.model ?? payload.model,
+    data: cached.map((embedding, index) => ({
+      object: "embedding",
+      embedding: embedding ?? fresh[next++],
+      index,
+    })),
+    usage: fetched?.usage ?? { prompt_tokens: 0, total_tokens: 0 },
+  }
+}
+
+// Splits the inputs into batches of the model's max_inputs
+async function fetchEmbeddings(
+  payload: EmbeddingRequest,
+  inputs: Array<string>,
+  options: { model: Model | undefined; signal: AbortSignal | undefined },
+): Promise<EmbeddingResponse> {
+  const batchSize = Math.max(
+    options.model?.capabilities.limits.max_inputs ?? inputs.length,
+    1,
+  )
+  const batches: Array<Array<string>> = []
+  for (let start = 0; start < inputs.length; start += batchSize) {
+    batches.push(inputs.slice(start, start + batchSize))
+  }
+
+  // Upstream always returns floats; a string input stays a string, so
+  // single-input calls look unchanged
+  const { encoding_format: _encodingFormat, ...upstreamPayload } = payload
+  const request = (input: string | Array<string>) =>
+    requestEmbeddings({ ...upstreamPayload, input }, options.signal)
+  if (batches.length <= 1) {
+    return request(typeof payload.input === "string" ? inputs[0] : inputs)
+  }
+
+  const responses: Array<EmbeddingResponse> = []
+  for (const batch of batches) {
+    responses.push(await request(batch))
+  }
+  return mergeResponses(responses, batchSize)
+}
+
+async function requestEmbeddings(
+  body: Omit<EmbeddingRequest, "encoding_format">,
+  signal: AbortSignal | undefined,
+): Promise<EmbeddingResponse> {
+  const response = await fetchWithRetry(
+    "Embeddings",
+    `${copilotBaseUrl(state)}/embeddings`,
+    {
+      method: "POST",
+      headers: copilotHeaders(state),
+      body: JSON.stringify(body),
+      signal,
+    },
+  )
 
   if (!response.ok) throw new HTTPError("Failed to create embeddings", response)
 
   return (await response.json()) as EmbeddingResponse
 }
 
+// Copilot only takes text, so token arrays are decoded with the model's
+// tokenizer
+async function normalizeInput(
+  input: EmbeddingRequest["input"],
+  model: Model | undefined,
+): Promise<Array<string>> {
+  if (typeof input === "string") return [input]
+  if (input.every((item) => typeof item === "number")) {
+    return [await decodeTokens(input, model)]
+  }
+  return Promise.all(
+    input.map(async (item) =>
+      typeof item === "string" ? item : decodeTokens(item, model),
+    ),
+  )
+}
+
+function mergeResponses(
+  responses: Array<EmbeddingResponse>,
+  batchSize: number,
+): EmbeddingResponse {
+  return {
+    ...responses[0],
+    data: responses.flatMap((response, batch) =>
+      response.data
+        .toSorted((a, b) => a.index - b.index)
+        .map((embedding) => ({
+          ...embedding,
+          index: batch * batchSize + embedding.index,
+        })),
+    ),
+    usage: {
+      prompt_tokens: sum(responses, (r) => r.usage.prompt_tokens),
+      total_tokens: sum(responses, (r) => r.usage.total_tokens),
+    },
+  }
+}
+
+const sum = <T>(items: Array<T>, value: (item: T) => number) =>
+  items.reduce((total, item) => total + value(item), 0)
+
+/**
+ * Applies the request's `encoding_format`. Base64 is the float32 vector's
+ * little-endian bytes, as the OpenAI API returns it.
+ */
+export function encodeEmbeddings(
+  response: EmbeddingResponse,
+  format: EmbeddingRequest["encoding_format"],
+): EmbeddingResponse | Base64EmbeddingResponse {
+  if (format !== "base64") {
+    return response
+  }
+  return {
+    ...response,
+    data: response.data.map((embedding) => ({
+      ...embedding,
+      embedding: Buffer.from(
+        new Float32Array(embedding.embedding).buffer,
+      ).toString("base64"),
+    })),
+  }
+}
+
 export interface EmbeddingRequest {
-  input: string | Array<string>
+  input: string | Array<string> | Array<number> | Array<Array<number>>
   model: string
+  encoding_format?: "float" | "base64" | null
+  dimensions?: number | null
+  user?: string | null
 }
 
 export interface Embedding {
@@ -36,3 +254,8 @@ export interface EmbeddingResponse {
     total_tokens: number
   }
 }
+
+export interface Base64EmbeddingResponse
+  extends Omit<EmbeddingResponse, "data"> {
+  data: Array<Omit<Embedding, "embedding"> & { embedding: string }>
+}
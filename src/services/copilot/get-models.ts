@@ -1,11 +1,16 @@
 import { copilotBaseUrl, copilotHeaders } from "~/lib/api-config"
 import { HTTPError } from "~/lib/error"
+import { fetchWithRetry } from "~/lib/retry"
 import { state } from "~/lib/state"
 
 export const getModels = async () => {
-  const response = await fetch(`${copilotBaseUrl(state)}/models`, {
-    headers: copilotHeaders(state),
-  })
+  const response = await fetchWithRetry(
+    "Models",
+    `${copilotBaseUrl(state)}/models`,
+    {
+      headers: copilotHeaders(state),
+    },
+  )
 
   if (!response.ok) throw new HTTPError("Failed to get models", response)
 
@@ -28,6 +33,15 @@ interface ModelSupports {
   tool_calls?: boolean
   parallel_tool_calls?: boolean
   dimensions?: boolean
+  streaming?: boolean
+  vision?: boolean
+  // Accepts a json_schema response_format and constrains output to it
+  structured_outputs?: boolean
+  // Reasoning models list the efforts they accept, e.g. ["low", "medium", "high"]
+  reasoning_effort?: Array<string>
+  // Claude-family models accept an explicit thinking budget instead
+  max_thinking_budget?: number
+  min_thinking_budget?: number
 }
 
 interface ModelCapabilities {
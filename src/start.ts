@@ -7,13 +7,21 @@ import fs from "node:fs/promises"
 import { serve, type ServerHandler } from "srvx"
 import invariant from "tiny-invariant"
 
+import { loadConfig } from "./lib/config"
+import { initEmbeddingsCache } from "./lib/embeddings-cache"
 import { computeInteractive } from "./lib/interactive" // helper to determine TTY/interactive state
 import { ensurePaths, PATHS } from "./lib/paths"
 import { initProxyFromEnv } from "./lib/proxy"
+import { initResponseCache } from "./lib/response-cache"
 import { generateEnvScript } from "./lib/shell"
 import { state } from "./lib/state"
 import { setupCopilotToken, setupGitHubToken } from "./lib/token"
 import { cacheModels, cacheVSCodeVersion } from "./lib/utils"
+import { initBatches, stopBatches } from "./routes/batches/runner"
+import {
+  initMessageBatches,
+  stopMessageBatches,
+} from "./routes/messages/batch-runner"
 import { server } from "./server"
 
 interface RunServerOptions {
@@ -23,6 +31,11 @@ interface RunServerOptions {
   manual: boolean
   rateLimit?: number
   rateLimitWait: boolean
+  batchConcurrency: number
+  structuredOutputRetries: number
+  embeddingsCacheSize: number
+  responseCacheTtl: number
+  configPath?: string
   githubToken?: string
   claudeCode: boolean
   showToken: boolean
@@ -33,6 +46,32 @@ interface RunServerOptions {
   interactive?: boolean
 }
 
+// Copies the limits and features set on the command line onto `state`
+function applyOptions(options: RunServerOptions): void {
+  state.manualApprove = options.manual
+  state.rateLimitSeconds = options.rateLimit
+  state.rateLimitWait = options.rateLimitWait
+  state.showToken = options.showToken
+  state.batchConcurrency = options.batchConcurrency
+  state.structuredOutputRetries = options.structuredOutputRetries
+  state.embeddingsCacheBytes = options.embeddingsCacheSize * 1024 * 1024
+  state.responseCacheTtlSeconds = options.responseCacheTtl
+  state.configPath = options.configPath
+}
+
+// Resumes unfinished batches and loads the on-disk caches
+async function initBackgroundWork(): Promise<void> {
+  await initMessageBatches()
+  await initBatches()
+  await initEmbeddingsCache()
+  await initResponseCache()
+}
+
+function stopBackgroundWork(): void {
+  stopMessageBatches()
+  stopBatches()
+}
+
 export async function runServer(options: RunServerOptions): Promise<void> {
   // Daemon-mode and interactive handling
   // Determine if we should run interactively. In daemon/non-interactive modes
@@ -65,12 +104,10 @@ export async function runServer(options: RunServerOptions): Promise<void> {
     consola.info(`Using ${options.accountType} plan GitHub account`)
   }
 
-  state.manualApprove = options.manual
-  state.rateLimitSeconds = options.rateLimit
-  state.rateLimitWait = options.rateLimitWait
-  state.showToken = options.showToken
+  applyOptions(options)
 
   await ensurePaths()
+  await loadConfig()
   await cacheVSCodeVersion()
 
   if (options.githubToken) {
@@ -102,6 +139,7 @@ export async function runServer(options: RunServerOptions): Promise<void> {
 
   const copilotRefresher = await setupCopilotToken()
   await cacheModels()
+  await initBackgroundWork()
 
   consola.info(
     `Available models: \n${state.models?.data.map((model) => `- ${model.id}`).join("\n")}`,
@@ -176,6 +214,8 @@ export async function runServer(options: RunServerOptions): Promise<void> {
     controller.registerHook(() => (copilotRefresher as any).stop())
   }
 
+  controller.registerHook(() => stopBackgroundWork())
+
   // Start the controller and await readiness. We await to ensure the CLI
   // only returns after the server is started and `ready` is true.
   try {
@@ -226,7 +266,34 @@ export const start = defineCommand({
       type: "boolean",
       default: false,
       description:
-        "Wait instead of error when rate limit is hit. Has no effect if rate limit is not set",
+        "Wait instead of error when a rate limit is hit. Has no effect if no rate limits are set",
+    },
+    "batch-concurrency": {
+      type: "string",
+      default: "4",
+      description: "Maximum number of batch requests run in parallel",
+    },
+    "structured-output-retries": {
+      type: "string",
+      default: "2",
+      description:
+        "Retries when a response fails its json_schema response_format",
+    },
+    "embeddings-cache-size": {
+      type: "string",
+      default: "0",
+      description: "Size in MB of the on-disk embeddings cache (0 disables it)",
+    },
+    "response-cache-ttl": {
+      type: "string",
+      default: "0",
+      description:
+        "Seconds to cache responses to temperature 0 chat requests (0 disables it)",
+    },
+    config: {
+      type: "string",
+      description:
+        "Path to a JSON config file (defaults to config.json in the app directory)",
     },
     "github-token": {
       alias: "g",
@@ -281,6 +348,23 @@ export const start = defineCommand({
       manual: args.manual,
       rateLimit,
       rateLimitWait: args.wait,
+      batchConcurrency: Math.max(
+        Number.parseInt(args["batch-concurrency"], 10) || 1,
+        1,
+      ),
+      structuredOutputRetries: Math.max(
+        Number.parseInt(args["structured-output-retries"], 10) || 0,
+        0,
+      ),
+      embeddingsCacheSize: Math.max(
+        Number.parseInt(args["embeddings-cache-size"], 10) || 0,
+        0,
+      ),
+      responseCacheTtl: Math.max(
+        Number.parseInt(args["response-cache-ttl"], 10) || 0,
+        0,
+      ),
+      configPath: args.config,
       githubToken: args["github-token"],
       claudeCode: args["claude-code"],
       showToken: args["show-token"],
@@ -0,0 +1,267 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test"
+import { deflateSync } from "node:zlib"
+
+import type {
+  AnthropicDocumentBlock,
+  AnthropicMessagesPayload,
+  AnthropicUserContentBlock,
+} from "~/routes/messages/anthropic-types"
+import type { Model } from "~/services/copilot/get-models"
+
+import { HTTPError } from "~/lib/error"
+import { extractPdfText } from "~/lib/pdf"
+import { state } from "~/lib/state"
+import { checkDocumentSizes } from "~/routes/messages/documents"
+import { translateToOpenAI } from "~/routes/messages/non-stream-translation"
+
+// Builds a PDF from object bodies, numbered from 1 in order
+function buildPdf(objects: Array<string>): Buffer {
+  let pdf = "%PDF-1.4\n"
+  for (const [index, body] of objects.entries()) {
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`
+  }
+  pdf += "trailer\n<< /Root 1 0 R >>\n%%EOF\n"
+  return Buffer.from(pdf, "latin1")
+}
+
+const stream = (data: string, dict = "") =>
+  `<< /Length ${data.length} ${dict}>>\nstream\n${data}\nendstream`
+
+const toUnicodeCMap = [
+  "begincmap",
+  "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+  "1 beginbfchar <0001> <0048> endbfchar",
+  "1 beginbfrange <0002> <0003> <0069> endbfrange",
+  "endcmap",
+].join("\n")
+
+const samplePdf = buildPdf([
+  "<< /Type /Catalog /Pages 2 0 R >>",
+  "<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> >>",
+  "<< /Type /Page /Parent 2 0 R /Contents 7 0 R >>",
+  "<< /Type /Page /Parent 2 0 R /Contents [8 0 R] >>",
+  "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  "<< /Type /Font /Subtype /Type0 /ToUnicode 9 0 R >>",
+  stream(
+    String.raw`BT /F1 12 Tf 72 700 Td (Quarterly \(draft\)) Tj 0 -14 Td [(Rev) -20 (enue) -400 (grew)] TJ ET`,
+  ),
+  stream(
+    deflateSync("BT /F2 12 Tf <000100020003> Tj ET").toString("latin1"),
+    "/Filter /FlateDecode ",
+  ),
+  stream(toUnicodeCMap),
+])
+
+const pdfDocument = (
+  overrides: Partial<AnthropicDocumentBlock> = {},
+): AnthropicDocumentBlock => ({
+  type: "document",
+  source: {
+    type: "base64",
+    media_type: "application/pdf",
+    data: samplePdf.toString("base64"),
+  },
+  ...overrides,
+})
+
+const userPayload = (
+  content: Array<AnthropicUserContentBlock>,
+): AnthropicMessagesPayload => ({
+  model: "gpt-4o",
+  max_tokens: 100,
+  messages: [{ role: "user", content }],
+})
+
+describe("PDF text extraction", () => {
+  test("extracts text per page, decoding compressed streams and ToUnicode maps", () => {
+    expect(extractPdfText(samplePdf)).toEqual([
+      "Quarterly (draft)\nRevenue grew",
+      "Hij",
+    ])
+  })
+
+  test("rejects files that are not PDFs", () => {
+    expect(() => extractPdfText(Buffer.from("hello"))).toThrow("Not a PDF")
+  })
+
+  test("rejects encrypted PDFs", () => {
+    const encrypted = Buffer.concat([
+      samplePdf,
+      Buffer.from("trailer\n<< /Root 1 0 R /Encrypt 10 0 R >>\n"),
+    ])
+    expect(() => extractPdfText(encrypted)).toThrow("Encrypted")
+  })
+})
+
+describe("Anthropic document blocks", () => {
+  test("translates PDFs to text with page markers", () => {
+    const openAIPayload = translateToOpenAI(
+      userPayload([
+        pdfDocument({ title: "Report", context: "Internal" }),
+        { type: "text", text: "Summarize this." },
+      ]),
+    )
+
+    expect(openAIPayload.messages[0].content).toBe(
+      [
+        "Document: Report\nContext: Internal",
+        "--- Page 1 ---\nQuarterly (draft)\nRevenue grew",
+        "--- Page 2 ---\nHij",
+        "Summarize this.",
+      ].join("\n\n"),
+    )
+  })
+
+  test("translates plain text documents", () => {
+    const openAIPayload = translateToOpenAI(
+      userPayload([
+        {
+          type: "document",
+          source: { type: "text", media_type: "text/plain", data: "Notes" },
+        },
+      ]),
+    )
+
+    expect(openAIPayload.messages[0].content).toBe("Notes")
+  })
+
+  test("keeps images from content documents as image parts", () => {
+    const openAIPayload = translateToOpenAI(
+      userPayload([
+        {
+          type: "document",
+          title: "Slides",
+          source: {
+            type: "content",
+            content: [
+              { type: "text", text: "Slide one" },
+              {
+                type: "image",
+                source: {
+                  type: "base64",
+                  media_type: "image/png",
+                  data: "iVBORw0KGgo=",
+                },
+              },
+            ],
+          },
+        },
+      ]),
+    )
+
+    expect(openAIPayload.messages[0].content).toEqual([
+      { type: "text", text: "Document: Slides" },
+      { type: "text", text: "Slide one" },
+      {
+        type: "image_url",
+        image_url: { url: "data:image/png;base64,iVBORw0KGgo=" },
+      },
+    ])
+  })
+
+  test("rejects unreadable PDFs with a 400", () => {
+    const broken = pdfDocument({
+      source: {
+        type: "base64",
+        media_type: "application/pdf",
+        data: Buffer.from("not a pdf").toString("base64"),
+      },
+    })
+
+    try {
+      translateToOpenAI(userPayload([broken]))
+      throw new Error("Expected translation to fail")
+    } catch (error) {
+      expect(error).toBeInstanceOf(HTTPError)
+      expect((error as HTTPError).response.status).toBe(400)
+    }
+  })
+
+  test("rejects PDFs whose streams inflate past the limit with a 400", async () => {
+    // About 32 KB that inflates to 32 MB
+    const bomb = buildPdf([
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>",
+      stream(
+        deflateSync(Buffer.alloc(32 * 1024 * 1024)).toString("latin1"),
+        "/Filter /FlateDecode ",
+      ),
+    ])
+    const document = pdfDocument({
+      source: {
+        type: "base64",
+        media_type: "application/pdf",
+        data: bomb.toString("base64"),
+      },
+    })
+
+    const error = (() => {
+      try {
+        translateToOpenAI(userPayload([document]))
+      } catch (caught) {
+        return caught as HTTPError
+      }
+      throw new Error("Expected translation to fail")
+    })()
+
+    expect(error).toBeInstanceOf(HTTPError)
+    expect(error.response.status).toBe(400)
+    expect(await error.response.text()).toContain(
+      "Compressed streams expand to more than 16 MB",
+    )
+  })
+})
+
+const limitedModel = (maxPromptTokens: number): Model => ({
+  id: "gpt-4o",
+  name: "gpt-4o",
+  object: "model",
+  vendor: "test",
+  version: "1",
+  preview: false,
+  model_picker_enabled: true,
+  capabilities: {
+    family: "gpt-4o",
+    object: "model_capabilities",
+    tokenizer: "o200k_base",
+    type: "chat",
+    limits: { max_prompt_tokens: maxPromptTokens },
+    supports: {},
+  },
+})
+
+describe("Document prompt limits", () => {
+  beforeAll(() => {
+    state.models = { object: "list", data: [limitedModel(10)] }
+  })
+
+  afterAll(() => {
+    state.models = undefined
+  })
+
+  test("rejects documents over the model's prompt limit", async () => {
+    const payload = userPayload([
+      pdfDocument({ title: "Report" }),
+      { type: "text", text: "Summarize this." },
+    ])
+
+    const error = await checkDocumentSizes(payload, "gpt-4o").catch(
+      (error: unknown) => error,
+    )
+    expect(error).toBeInstanceOf(HTTPError)
+    const body = (await (error as HTTPError).response.json()) as {
+      message: string
+    }
+    expect(body.message).toContain("Document 'Report'")
+    expect(body.message).toContain("10 token prompt limit")
+  })
+
+  test("accepts documents within the limit", async () => {
+    state.models = { object: "list", data: [limitedModel(100_000)] }
+    const payload = userPayload([pdfDocument()])
+
+    // Resolves without throwing
+    await checkDocumentSizes(payload, "gpt-4o")
+  })
+})
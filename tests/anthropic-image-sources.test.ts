@@ -0,0 +1,164 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test"
+import dns from "node:dns/promises"
+
+import type {
+  AnthropicImageBlock,
+  AnthropicMessagesPayload,
+} from "~/routes/messages/anthropic-types"
+
+import { HTTPError } from "~/lib/error"
+import { inlineImageUrls } from "~/routes/messages/image-sources"
+
+const originalFetch = globalThis.fetch
+
+// Hostnames resolve to this unless a test says otherwise
+const lookup = spyOn(dns, "lookup")
+const resolveTo = (address: string, family = 4) => {
+  lookup.mockResolvedValue([{ address, family }] as never)
+}
+
+const mockFetch = (response: () => Response) => {
+  const fetchMock = mock(() => Promise.resolve(response()))
+  globalThis.fetch = fetchMock as unknown as typeof fetch
+  return fetchMock
+}
+
+const urlImage = (url: string): AnthropicImageBlock => ({
+  type: "image",
+  source: { type: "url", url },
+})
+
+const payloadWith = (
+  ...images: Array<AnthropicImageBlock>
+): AnthropicMessagesPayload => ({
+  model: "claude-sonnet-4",
+  max_tokens: 100,
+  messages: [
+    {
+      role: "user",
+      content: [
+        images[0],
+        { type: "tool_result", tool_use_id: "toolu_1", content: images },
+      ],
+    },
+  ],
+})
+
+describe("Anthropic image URL sources", () => {
+  beforeEach(() => {
+    resolveTo("93.184.215.14")
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  test("inlines fetched images as base64, fetching each URL once", async () => {
+    const fetchMock = mockFetch(
+      () =>
+        new Response(new Uint8Array([1, 2, 3]), {
+          headers: { "content-type": "image/png; charset=binary" },
+        }),
+    )
+    const first = urlImage("https://example.com/a.png")
+    const second = urlImage("https://example.com/a.png")
+
+    await inlineImageUrls(payloadWith(first, second))
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    for (const block of [first, second]) {
+      expect(block.source).toEqual({
+        type: "base64",
+        media_type: "image/png",
+        data: "AQID",
+      })
+    }
+  })
+
+  test("rejects images over the size limit", async () => {
+    mockFetch(
+      () =>
+        new Response(new Uint8Array(6 * 1024 * 1024), {
+          headers: { "content-type": "image/jpeg" },
+        }),
+    )
+
+    const error = await inlineImageUrls(
+      payloadWith(urlImage("https://example.com/big.jpg")),
+    ).catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(HTTPError)
+    expect((error as HTTPError).response.status).toBe(400)
+  })
+
+  test("rejects responses that are not images", async () => {
+    mockFetch(
+      () =>
+        new Response("<html></html>", {
+          headers: { "content-type": "text/html" },
+        }),
+    )
+
+    const error = await inlineImageUrls(
+      payloadWith(urlImage("https://example.com/page")),
+    ).catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(HTTPError)
+  })
+
+  test("rejects non-http URLs without fetching", async () => {
+    const fetchMock = mockFetch(() => new Response())
+
+    const error = await inlineImageUrls(
+      payloadWith(urlImage("file:///etc/passwd")),
+    ).catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(HTTPError)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  test("refuses loopback, link-local and private destinations", async () => {
+    const fetchMock = mockFetch(() => new Response())
+
+    for (const url of [
+      "http://127.0.0.1/a.png",
+      "http://[::1]/a.png",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::ffff:10.0.0.1]/a.png",
+    ]) {
+      const error = await inlineImageUrls(payloadWith(urlImage(url))).catch(
+        (error: unknown) => error,
+      )
+      expect(error).toBeInstanceOf(HTTPError)
+    }
+    resolveTo("192.168.1.10")
+    const error = await inlineImageUrls(
+      payloadWith(urlImage("https://intranet.example.com/a.png")),
+    ).catch((error: unknown) => error)
+
+    expect((error as HTTPError).response.status).toBe(400)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  test("checks every redirect hop", async () => {
+    const fetchMock = mockFetch(
+      () =>
+        new Response(null, {
+          status: 302,
+          headers: { location: "http://169.254.169.254/latest/meta-data" },
+        }),
+    )
+
+    const error = await inlineImageUrls(
+      payloadWith(urlImage("https://example.com/a.png")),
+    ).catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(HTTPError)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
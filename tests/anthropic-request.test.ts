@@ -1,9 +1,18 @@
-import { describe, test, expect } from "bun:test"
+import { afterAll, beforeAll, describe, test, expect } from "bun:test"
 import { z } from "zod"
 
-import type { AnthropicMessagesPayload } from "~/routes/messages/anthropic-types"
+import type {
+  AnthropicMessagesPayload,
+  AnthropicToolResultBlock,
+} from "~/routes/messages/anthropic-types"
+import type { Model } from "~/services/copilot/get-models"
 
-import { translateToOpenAI } from "../src/routes/messages/non-stream-translation"
+import { state } from "~/lib/state"
+
+import {
+  mapThinkingBudgetToReasoningEffort,
+  translateToOpenAI,
+} from "../src/routes/messages/non-stream-translation"
 
 // Zod schema for a single message in the chat completion request.
 const messageSchema = z.object({
@@ -103,6 +112,16 @@ describe("Anthropic to OpenAI translation logic", () => {
     expect(isValidChatCompletionRequest(openAIPayload)).toBe(true)
   })
 
+  test("should forward stop_sequences as stop", () => {
+    const openAIPayload = translateToOpenAI({
+      model: "gpt-4o",
+      messages: [{ role: "user", content: "Hello!" }],
+      max_tokens: 10,
+      stop_sequences: ["</answer>"],
+    })
+    expect(openAIPayload.stop).toEqual(["</answer>"])
+  })
+
   test("should handle missing fields gracefully", () => {
     const anthropicPayload: AnthropicMessagesPayload = {
       model: "gpt-4o",
@@ -311,3 +330,253 @@ describe("OpenAI Chat Completion v1 Request Payload Validation with Zod", () =>
     expect(isValidChatCompletionRequest(123)).toBe(false)
   })
 })
+
+const reasoningModel = (
+  id: string,
+  supports: Model["capabilities"]["supports"],
+): Model => ({
+  id,
+  name: id,
+  object: "model",
+  vendor: "test",
+  version: "1",
+  preview: false,
+  model_picker_enabled: true,
+  capabilities: {
+    family: id,
+    object: "model_capabilities",
+    tokenizer: "o200k_base",
+    type: "chat",
+    limits: {},
+    supports,
+  },
+})
+
+describe("Anthropic thinking to Copilot reasoning translation", () => {
+  beforeAll(() => {
+    state.models = {
+      object: "list",
+      data: [
+        reasoningModel("o4-mini", {
+          reasoning_effort: ["low", "medium", "high"],
+        }),
+        reasoningModel("claude-sonnet-4", {
+          min_thinking_budget: 1024,
+          max_thinking_budget: 32000,
+        }),
+        reasoningModel("gpt-4o", { tool_calls: true }),
+      ],
+    }
+  })
+
+  afterAll(() => {
+    state.models = undefined
+  })
+
+  test("should map budget_tokens to reasoning_effort", () => {
+    const openAIPayload = translateToOpenAI({
+      model: "o4-mini",
+      messages: [{ role: "user", content: "Think hard." }],
+      max_tokens: 20000,
+      thinking: { type: "enabled", budget_tokens: 10000 },
+    })
+    expect(openAIPayload.reasoning_effort).toBe("medium")
+    expect(mapThinkingBudgetToReasoningEffort(4000)).toBe("low")
+    expect(mapThinkingBudgetToReasoningEffort(31999)).toBe("high")
+  })
+
+  test("should clamp budget_tokens to the model's thinking budget", () => {
+    const openAIPayload = translateToOpenAI({
+      model: "claude-sonnet-4-20250514",
+      messages: [{ role: "user", content: "Ultrathink." }],
+      max_tokens: 64000,
+      thinking: { type: "enabled", budget_tokens: 50000 },
+    })
+    expect(openAIPayload.thinking_budget).toBe(32000)
+    expect(openAIPayload.reasoning_effort).toBeUndefined()
+  })
+
+  test("should not send reasoning fields to models without reasoning support", () => {
+    const openAIPayload = translateToOpenAI({
+      model: "gpt-4o",
+      messages: [{ role: "user", content: "Think." }],
+      max_tokens: 1000,
+      thinking: { type: "enabled", budget_tokens: 4000 },
+    })
+    expect(openAIPayload.reasoning_effort).toBeUndefined()
+    expect(openAIPayload.thinking_budget).toBeUndefined()
+  })
+
+  test("should send signed thinking blocks back as reasoning", () => {
+    const openAIPayload = translateToOpenAI({
+      model: "claude-sonnet-4",
+      messages: [
+        { role: "user", content: "What is 2+2?" },
+        {
+          role: "assistant",
+          content: [
+            { type: "thinking", thinking: "Simple sum.", signature: "sig" },
+            { type: "text", text: "4" },
+          ],
+        },
+      ],
+      max_tokens: 100,
+    })
+    const assistantMessage = openAIPayload.messages.find(
+      (m) => m.role === "assistant",
+    )
+    expect(assistantMessage?.content).toBe("4")
+    expect(assistantMessage?.reasoning_text).toBe("Simple sum.")
+    expect(assistantMessage?.reasoning_opaque).toBe("sig")
+  })
+})
+
+const cachedPayload = (model: string): AnthropicMessagesPayload => ({
+  model,
+  system: [
+    {
+      type: "text",
+      text: "You are a helpful assistant.",
+      cache_control: { type: "ephemeral" },
+    },
+  ],
+  messages: [
+    {
+      role: "user",
+      content: [
+        {
+          type: "text",
+          text: "Hello!",
+          cache_control: { type: "ephemeral" },
+        },
+      ],
+    },
+    { role: "assistant", content: "Hi!" },
+    { role: "user", content: "How are you?" },
+  ],
+  tools: [
+    {
+      name: "get_weather",
+      input_schema: { type: "object" },
+      cache_control: { type: "ephemeral" },
+    },
+  ],
+  max_tokens: 100,
+})
+
+describe("Anthropic cache_control translation", () => {
+  test("should mark cache breakpoints for Claude-family models", () => {
+    const openAIPayload = translateToOpenAI(cachedPayload("claude-sonnet-4"))
+
+    expect(openAIPayload.messages[0].copilot_cache_control).toEqual({
+      type: "ephemeral",
+    })
+    expect(openAIPayload.messages[1].copilot_cache_control).toEqual({
+      type: "ephemeral",
+    })
+    expect(openAIPayload.messages[2].copilot_cache_control).toBeUndefined()
+    expect(openAIPayload.messages[3].copilot_cache_control).toBeUndefined()
+    expect(openAIPayload.tools?.[0].copilot_cache_control).toEqual({
+      type: "ephemeral",
+    })
+  })
+
+  test("should drop cache breakpoints for other models", () => {
+    const openAIPayload = translateToOpenAI(cachedPayload("gpt-4o"))
+
+    for (const message of openAIPayload.messages) {
+      expect(message.copilot_cache_control).toBeUndefined()
+    }
+    expect(openAIPayload.tools?.[0].copilot_cache_control).toBeUndefined()
+  })
+})
+
+const toolResultPayload = (
+  toolResult: Partial<AnthropicToolResultBlock>,
+): AnthropicMessagesPayload => ({
+  model: "gpt-4o",
+  max_tokens: 100,
+  messages: [
+    {
+      role: "assistant",
+      content: [
+        { type: "tool_use", id: "toolu_1", name: "screenshot", input: {} },
+      ],
+    },
+    {
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: "toolu_1", ...toolResult }],
+    },
+  ],
+})
+
+describe("Anthropic tool_result translation", () => {
+  test("should keep images in array tool_result content", () => {
+    const openAIPayload = translateToOpenAI(
+      toolResultPayload({
+        content: [
+          { type: "text", text: "Captured" },
+          {
+            type: "image",
+            source: {
+              type: "base64",
+              media_type: "image/png",
+              data: "iVBORw0KGgo=",
+            },
+          },
+        ],
+      }),
+    )
+
+    expect(openAIPayload.messages[1]).toEqual({
+      role: "tool",
+      tool_call_id: "toolu_1",
+      content: [
+        { type: "text", text: "Captured" },
+        {
+          type: "image_url",
+          image_url: { url: "data:image/png;base64,iVBORw0KGgo=" },
+        },
+      ],
+    })
+  })
+
+  test("should join text-only array content", () => {
+    const openAIPayload = translateToOpenAI(
+      toolResultPayload({
+        content: [
+          { type: "text", text: "one" },
+          { type: "text", text: "two" },
+        ],
+      }),
+    )
+
+    expect(openAIPayload.messages[1].content).toBe("one\n\ntwo")
+  })
+
+  test("should mark failed tool results", () => {
+    const stringResult = translateToOpenAI(
+      toolResultPayload({ content: "File not found", is_error: true }),
+    )
+    expect(stringResult.messages[1].content).toBe("[Tool error] File not found")
+
+    const arrayResult = translateToOpenAI(
+      toolResultPayload({
+        content: [
+          { type: "image", source: { type: "url", url: "https://x/y.png" } },
+        ],
+        is_error: true,
+      }),
+    )
+    expect(arrayResult.messages[1].content).toEqual([
+      { type: "text", text: "[Tool error]" },
+      { type: "image_url", image_url: { url: "https://x/y.png" } },
+    ])
+  })
+
+  test("should allow tool results without content", () => {
+    const openAIPayload = translateToOpenAI(toolResultPayload({}))
+
+    expect(openAIPayload.messages[1].content).toBe("")
+  })
+})
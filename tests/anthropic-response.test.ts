@@ -1,14 +1,30 @@
-import { describe, test, expect } from "bun:test"
+import { afterEach, describe, test, expect, mock } from "bun:test"
 import { z } from "zod"
 
 import type {
   ChatCompletionChunk,
   ChatCompletionResponse,
 } from "~/services/copilot/create-chat-completions"
+import type { Model } from "~/services/copilot/get-models"
 
+import { state } from "~/lib/state"
+import { getTokenCount } from "~/lib/tokenizer"
 import { type AnthropicStreamState } from "~/routes/messages/anthropic-types"
 import { translateToAnthropic } from "~/routes/messages/non-stream-translation"
-import { translateChunkToAnthropicEvents } from "~/routes/messages/stream-translation"
+import {
+  closeOpenContentBlock,
+  flushMessageDelta,
+  parseStreamChunk,
+  translateChunkToAnthropicEvents,
+  translateErrorToAnthropicErrorEvent,
+  UpstreamStreamError,
+} from "~/routes/messages/stream-translation"
+import { server } from "~/server"
+
+state.copilotToken = "test-token"
+state.vsCodeVersion = "1.0.0"
+
+const originalFetch = globalThis.fetch
 
 const anthropicUsageSchema = z.object({
   input_tokens: z.number().int(),
@@ -189,6 +205,45 @@ describe("OpenAI to Anthropic Non-Streaming Response Translation", () => {
     expect(isValidAnthropicResponse(anthropicResponse)).toBe(true)
     expect(anthropicResponse.stop_reason).toBe("max_tokens")
   })
+
+  test("should always report cache usage fields", () => {
+    const baseResponse: ChatCompletionResponse = {
+      id: "chatcmpl-cache",
+      object: "chat.completion",
+      created: 1677652288,
+      model: "claude-sonnet-4",
+      choices: [
+        {
+          index: 0,
+          message: { role: "assistant", content: "Hi" },
+          finish_reason: "stop",
+          logprobs: null,
+        },
+      ],
+      usage: {
+        prompt_tokens: 1000,
+        completion_tokens: 5,
+        total_tokens: 1005,
+        prompt_tokens_details: { cached_tokens: 800 },
+      },
+    }
+
+    expect(translateToAnthropic(baseResponse).usage).toEqual({
+      input_tokens: 200,
+      output_tokens: 5,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 800,
+    })
+
+    expect(
+      translateToAnthropic({ ...baseResponse, usage: undefined }).usage,
+    ).toEqual({
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+    })
+  })
 })
 
 describe("OpenAI to Anthropic Streaming Response Translation", () => {
@@ -251,7 +306,9 @@ describe("OpenAI to Anthropic Streaming Response Translation", () => {
       messageStartSent: false,
       contentBlockIndex: 0,
       contentBlockOpen: false,
+      thinkingBlockOpen: false,
       toolCalls: {},
+      outputText: "",
     }
     const translatedStream = openAIStream.flatMap((chunk) =>
       translateChunkToAnthropicEvents(chunk, streamState),
@@ -351,7 +408,9 @@ describe("OpenAI to Anthropic Streaming Response Translation", () => {
       messageStartSent: false,
       contentBlockIndex: 0,
       contentBlockOpen: false,
+      thinkingBlockOpen: false,
       toolCalls: {},
+      outputText: "",
     }
     const translatedStream = openAIStream.flatMap((chunk) =>
       translateChunkToAnthropicEvents(chunk, streamState),
@@ -363,3 +422,420 @@ describe("OpenAI to Anthropic Streaming Response Translation", () => {
     }
   })
 })
+
+const thinkingChunk = (
+  delta: ChatCompletionChunk["choices"][number]["delta"],
+  finishReason: ChatCompletionChunk["choices"][number]["finish_reason"] = null,
+): ChatCompletionChunk => ({
+  id: "cmpl-thinking",
+  object: "chat.completion.chunk",
+  created: 1677652288,
+  model: "claude-sonnet-4",
+  choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }],
+})
+
+// The trailing chunk Copilot sends when include_usage is set
+const usageChunk: ChatCompletionChunk = {
+  ...thinkingChunk({}),
+  choices: [],
+  usage: {
+    prompt_tokens: 12,
+    completion_tokens: 5,
+    total_tokens: 17,
+    prompt_tokens_details: { cached_tokens: 2 },
+  },
+}
+
+describe("OpenAI reasoning to Anthropic thinking translation", () => {
+  test("should return reasoning as a leading thinking block", () => {
+    const openAIResponse: ChatCompletionResponse = {
+      id: "chatcmpl-thinking",
+      object: "chat.completion",
+      created: 1677652288,
+      model: "claude-sonnet-4",
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: "4",
+            reasoning_text: "2+2 is 4.",
+            reasoning_opaque: "sig-123",
+          },
+          finish_reason: "stop",
+          logprobs: null,
+        },
+      ],
+    }
+
+    const anthropicResponse = translateToAnthropic(openAIResponse)
+
+    expect(anthropicResponse.content[0]).toEqual({
+      type: "thinking",
+      thinking: "2+2 is 4.",
+      signature: "sig-123",
+    })
+    expect(anthropicResponse.content[1]).toEqual({ type: "text", text: "4" })
+  })
+
+  test("should stream reasoning as thinking and signature deltas", () => {
+    const streamState: AnthropicStreamState = {
+      messageStartSent: false,
+      contentBlockIndex: 0,
+      contentBlockOpen: false,
+      thinkingBlockOpen: false,
+      toolCalls: {},
+      outputText: "",
+    }
+    const events = [
+      thinkingChunk({ reasoning_text: "Let me " }),
+      thinkingChunk({ reasoning_text: "think." }),
+      thinkingChunk({ reasoning_opaque: "sig-123" }),
+      thinkingChunk({ content: "Done." }),
+      thinkingChunk({}, "stop"),
+      usageChunk,
+    ].flatMap((c) => translateChunkToAnthropicEvents(c, streamState))
+
+    for (const event of events) {
+      expect(isValidAnthropicStreamEvent(event)).toBe(true)
+    }
+
+    expect(events.map((e) => e.type)).toEqual([
+      "message_start",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_delta",
+      "content_block_stop",
+      "content_block_start",
+      "content_block_delta",
+      "content_block_stop",
+      "message_delta",
+      "message_stop",
+    ])
+    expect(events[1]).toMatchObject({
+      index: 0,
+      content_block: { type: "thinking" },
+    })
+    expect(events[4]).toMatchObject({
+      index: 0,
+      delta: { type: "signature_delta", signature: "sig-123" },
+    })
+    expect(events[6]).toMatchObject({
+      index: 1,
+      content_block: { type: "text" },
+    })
+  })
+})
+
+describe("Mid-stream error translation", () => {
+  test("should surface upstream error payloads with their status", () => {
+    expect(() =>
+      parseStreamChunk({
+        data: JSON.stringify({
+          error: { message: "Too many requests", code: "rate_limited" },
+        }),
+      }),
+    ).toThrow(UpstreamStreamError)
+
+    let caught: unknown
+    try {
+      parseStreamChunk({
+        data: JSON.stringify({ error: { message: "Busy", status: 503 } }),
+      })
+    } catch (error) {
+      caught = error
+    }
+    expect(translateErrorToAnthropicErrorEvent(caught)).toEqual({
+      type: "error",
+      error: { type: "overloaded_error", message: "Busy" },
+    })
+  })
+
+  test("should map status codes to Anthropic error types", () => {
+    expect(
+      translateErrorToAnthropicErrorEvent(
+        new UpstreamStreamError("Slow down", 429),
+      ),
+    ).toMatchObject({ error: { type: "rate_limit_error" } })
+    expect(
+      translateErrorToAnthropicErrorEvent(new TypeError("terminated")),
+    ).toEqual({
+      type: "error",
+      error: { type: "api_error", message: "terminated" },
+    })
+  })
+
+  test("should close an open content block before the error", () => {
+    const state: AnthropicStreamState = {
+      messageStartSent: true,
+      contentBlockIndex: 2,
+      contentBlockOpen: true,
+      thinkingBlockOpen: false,
+      toolCalls: {},
+      outputText: "",
+    }
+
+    expect(closeOpenContentBlock(state)).toEqual([
+      { type: "content_block_stop", index: 2 },
+    ])
+    expect(state.contentBlockOpen).toBe(false)
+    expect(closeOpenContentBlock(state)).toEqual([])
+  })
+})
+
+const newStreamState = (): AnthropicStreamState => ({
+  messageStartSent: false,
+  contentBlockIndex: 0,
+  contentBlockOpen: false,
+  thinkingBlockOpen: false,
+  toolCalls: {},
+  outputText: "",
+})
+
+describe("Streamed usage reporting", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    state.models = undefined
+  })
+
+  test("should hold message_delta until the usage chunk arrives", () => {
+    const streamState = newStreamState()
+    const finishEvents = [
+      thinkingChunk({ content: "Hi" }),
+      thinkingChunk({}, "stop"),
+    ].flatMap((c) => translateChunkToAnthropicEvents(c, streamState))
+
+    expect(finishEvents.map((e) => e.type)).not.toContain("message_delta")
+    expect(streamState.outputText).toBe("Hi")
+
+    expect(translateChunkToAnthropicEvents(usageChunk, streamState)).toEqual([
+      {
+        type: "message_delta",
+        delta: { stop_reason: "end_turn", stop_sequence: null },
+        usage: {
+          input_tokens: 10,
+          output_tokens: 5,
+          cache_creation_input_tokens: 0,
+          cache_read_input_tokens: 2,
+        },
+      },
+      { type: "message_stop" },
+    ])
+  })
+
+  test("should start with the estimated input tokens and correct them later", () => {
+    const streamState = { ...newStreamState(), estimatedInputTokens: 42 }
+    const [messageStart] = translateChunkToAnthropicEvents(
+      thinkingChunk({ content: "Hi" }),
+      streamState,
+    )
+    translateChunkToAnthropicEvents(thinkingChunk({}, "stop"), streamState)
+
+    expect(messageStart).toMatchObject({
+      type: "message_start",
+      message: { usage: { input_tokens: 42, output_tokens: 0 } },
+    })
+    expect(
+      translateChunkToAnthropicEvents(usageChunk, streamState)[0],
+    ).toMatchObject({ usage: { input_tokens: 10 } })
+  })
+
+  test("should estimate the prompt for message_start when streaming", async () => {
+    const model = {
+      id: "gpt-4o",
+      capabilities: { tokenizer: "o200k_base", limits: {} },
+    } as Model
+    state.models = { object: "list", data: [model] }
+    const messages = [{ role: "user" as const, content: "What is the answer?" }]
+    const prompt = await getTokenCount({ model: "gpt-4o", messages }, model)
+    const body = [thinkingChunk({ content: "42" }, "stop"), usageChunk]
+      .map((c) => `data: ${JSON.stringify(c)}\n\n`)
+      .join("")
+    globalThis.fetch = mock(() =>
+      Promise.resolve(new Response(body)),
+    ) as unknown as typeof fetch
+
+    const response = await server.request("/v1/messages", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        model: "gpt-4o",
+        max_tokens: 100,
+        stream: true,
+        messages,
+      }),
+    })
+    const text = await response.text()
+
+    expect(prompt.input).toBeGreaterThan(0)
+    expect(text).toContain(`"usage":{"input_tokens":${prompt.input},`)
+    expect(text).toContain('"usage":{"input_tokens":10,')
+  })
+
+  test("should report usage carried on the finish chunk straight away", () => {
+    const streamState = newStreamState()
+    const events = translateChunkToAnthropicEvents(
+      { ...thinkingChunk({}, "length"), usage: usageChunk.usage },
+      streamState,
+    )
+
+    expect(events.slice(-2).map((e) => e.type)).toEqual([
+      "message_delta",
+      "message_stop",
+    ])
+    expect(streamState.pendingMessageDelta).toBeUndefined()
+  })
+
+  test("should flush a held message_delta with an estimate", () => {
+    const streamState = newStreamState()
+    translateChunkToAnthropicEvents(thinkingChunk({}, "stop"), streamState)
+
+    const events = flushMessageDelta(streamState, {
+      input_tokens: 7,
+      output_tokens: 3,
+    })
+    expect(events[0]).toMatchObject({
+      type: "message_delta",
+      usage: { input_tokens: 7, output_tokens: 3 },
+    })
+    expect(flushMessageDelta(streamState, { output_tokens: 0 })).toEqual([])
+  })
+})
+
+const toolCallResponse = (
+  ...argumentList: Array<string>
+): ChatCompletionResponse => ({
+  id: "chatcmpl-tools",
+  object: "chat.completion",
+  created: 1677652288,
+  model: "gpt-4o-2024-05-13",
+  choices: [
+    {
+      index: 0,
+      message: {
+        role: "assistant",
+        content: null,
+        tool_calls: argumentList.map((args, index) => ({
+          id: `call_${index}`,
+          type: "function",
+          function: { name: "get_weather", arguments: args },
+        })),
+      },
+      logprobs: null,
+      finish_reason: "length",
+    },
+  ],
+})
+
+describe("Stop sequences", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  test("should cut non-streamed text at the first stop sequence", () => {
+    const response = translateToAnthropic(
+      {
+        ...toolCallResponse("{}"),
+        choices: [
+          {
+            index: 0,
+            message: {
+              role: "assistant",
+              content: "Answer: 42\nEND\nmore text",
+              tool_calls: toolCallResponse("{}").choices[0].message.tool_calls,
+            },
+            logprobs: null,
+            finish_reason: "tool_calls",
+          },
+        ],
+      },
+      ["STOP", "\nEND"],
+    )
+
+    expect(response.content).toEqual([{ type: "text", text: "Answer: 42" }])
+    expect(response.stop_reason).toBe("stop_sequence")
+    expect(response.stop_sequence).toBe("\nEND")
+  })
+
+  test("should find a stop sequence split across chunks", () => {
+    const streamState = { ...newStreamState(), stopSequences: ["</answer>"] }
+    const events = [
+      thinkingChunk({ content: "42</ans" }),
+      thinkingChunk({ content: "wer> and beyond" }),
+      thinkingChunk({ content: "ignored" }, "stop"),
+    ].flatMap((c) => translateChunkToAnthropicEvents(c, streamState))
+
+    const text = events
+      .map((e) =>
+        e.type === "content_block_delta" && e.delta.type === "text_delta" ?
+          e.delta.text
+        : "",
+      )
+      .join("")
+    expect(text).toBe("42")
+    expect(streamState.outputText).toBe("42")
+    expect(events.at(-1)).toEqual({ type: "content_block_stop", index: 0 })
+
+    expect(
+      translateChunkToAnthropicEvents(usageChunk, streamState)[0],
+    ).toMatchObject({
+      delta: { stop_reason: "stop_sequence", stop_sequence: "</answer>" },
+    })
+  })
+
+  test("should release held text that turns out not to stop", () => {
+    const streamState = { ...newStreamState(), stopSequences: ["</answer>"] }
+    const events = [
+      thinkingChunk({ content: "a </an" }),
+      thinkingChunk({}, "stop"),
+    ].flatMap((c) => translateChunkToAnthropicEvents(c, streamState))
+
+    expect(
+      events
+        .filter((e) => e.type === "content_block_delta")
+        .map((e) => e.delta),
+    ).toEqual([
+      { type: "text_delta", text: "a " },
+      { type: "text_delta", text: "</an" },
+    ])
+    expect(streamState.pendingMessageDelta?.delta.stop_reason).toBe("end_turn")
+  })
+
+  test("should end the upstream stream once a stop sequence fires", async () => {
+    let sent: RequestInit | undefined
+    const chunk = thinkingChunk({ content: "42</answer> and more" })
+    globalThis.fetch = mock((_url: string, init: RequestInit) => {
+      sent = init
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(
+            new TextEncoder().encode(`data: ${JSON.stringify(chunk)}\n\n`),
+          )
+          // Left open, so only stopping the upstream request ends the stream
+        },
+      })
+      return Promise.resolve(new Response(body))
+    }) as unknown as typeof fetch
+
+    const response = await server.request("/v1/messages", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        model: "claude-sonnet-4",
+        max_tokens: 100,
+        stream: true,
+        stop_sequences: ["</answer>"],
+        messages: [{ role: "user", content: "What is the answer?" }],
+      }),
+    })
+    const text = await response.text()
+
+    expect(sent?.signal?.aborted).toBe(true)
+    expect(JSON.parse(sent?.body as string)).toMatchObject({
+      stop: ["</answer>"],
+    })
+    expect(text).toContain('"stop_sequence":"</answer>"')
+    expect(text).not.toContain("and more")
+  })
+})
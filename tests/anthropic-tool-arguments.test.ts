@@ -0,0 +1,256 @@
+import { describe, expect, test } from "bun:test"
+
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+} from "~/services/copilot/create-chat-completions"
+
+import { parseJsonLenient } from "~/lib/json-repair"
+import {
+  type AnthropicStreamEventData,
+  type AnthropicStreamState,
+} from "~/routes/messages/anthropic-types"
+import { translateToAnthropic } from "~/routes/messages/non-stream-translation"
+import { translateChunkToAnthropicEvents } from "~/routes/messages/stream-translation"
+
+const newStreamState = (): AnthropicStreamState => ({
+  messageStartSent: false,
+  contentBlockIndex: 0,
+  contentBlockOpen: false,
+  thinkingBlockOpen: false,
+  toolCalls: {},
+  outputText: "",
+})
+
+const chunk = (
+  delta: ChatCompletionChunk["choices"][number]["delta"],
+  finishReason: ChatCompletionChunk["choices"][number]["finish_reason"] = null,
+): ChatCompletionChunk => ({
+  id: "cmpl-tools",
+  object: "chat.completion.chunk",
+  created: 1677652288,
+  model: "gpt-4o-2024-05-13",
+  choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }],
+})
+
+const toolCallResponse = (
+  ...argumentList: Array<string>
+): ChatCompletionResponse => ({
+  id: "chatcmpl-tools",
+  object: "chat.completion",
+  created: 1677652288,
+  model: "gpt-4o-2024-05-13",
+  choices: [
+    {
+      index: 0,
+      message: {
+        role: "assistant",
+        content: null,
+        tool_calls: argumentList.map((args, index) => ({
+          id: `call_${index}`,
+          type: "function",
+          function: { name: "get_weather", arguments: args },
+        })),
+      },
+      logprobs: null,
+      finish_reason: "length",
+    },
+  ],
+})
+
+const toolCallChunk = ({
+  index = 0,
+  id,
+  name,
+  args,
+}: {
+  index?: number
+  id?: string
+  name?: string
+  args: string
+}) =>
+  chunk({
+    tool_calls: [
+      {
+        index,
+        id,
+        type: id ? "function" : undefined,
+        function: { name, arguments: args },
+      },
+    ],
+  })
+
+const inputJsonDelta = (partialJson: string): AnthropicStreamEventData => ({
+  type: "content_block_delta",
+  index: 0,
+  delta: { type: "input_json_delta", partial_json: partialJson },
+})
+
+// The input each content block ends up with, from its input_json_deltas
+const streamedInputs = (events: Array<AnthropicStreamEventData>) => {
+  const inputs: Array<string> = []
+  for (const event of events) {
+    if (
+      event.type === "content_block_delta"
+      && event.delta.type === "input_json_delta"
+    ) {
+      inputs[event.index] =
+        (inputs[event.index] ?? "") + event.delta.partial_json
+    }
+  }
+  return inputs.map((json) => JSON.parse(json) as unknown)
+}
+
+const invalidArguments = (rawArguments: string) => ({
+  error: {
+    type: "invalid_tool_arguments",
+    message: expect.stringContaining("not valid JSON") as string,
+  },
+  raw_arguments: rawArguments,
+})
+
+describe("Tool argument repair", () => {
+  test("should repair common JSON damage", () => {
+    expect(parseJsonLenient("")).toEqual({})
+    expect(parseJsonLenient('```json\n{"a": 1}\n```')).toEqual({ a: 1 })
+    expect(parseJsonLenient('{"a": 1} trailing')).toEqual({ a: 1 })
+    expect(parseJsonLenient('{"a": [1, {"b": "te')).toEqual({
+      a: [1, { b: "te" }],
+    })
+    expect(parseJsonLenient('{"a": 1, "b":')).toEqual({ a: 1, b: null })
+    expect(parseJsonLenient('{"a": 1, "b"')).toEqual({ a: 1 })
+    expect(() => parseJsonLenient("not json")).toThrow(SyntaxError)
+  })
+
+  test("should report unrecoverable arguments on the one tool call", () => {
+    const response = translateToAnthropic(
+      toolCallResponse('{"location": "Bos', "nonsense"),
+    )
+
+    expect(response.stop_reason).toBe("max_tokens")
+    expect(response.content).toEqual([
+      {
+        type: "tool_use",
+        id: "call_0",
+        name: "get_weather",
+        input: { location: "Bos" },
+      },
+      {
+        type: "tool_use",
+        id: "call_1",
+        name: "get_weather",
+        input: invalidArguments("nonsense"),
+      },
+    ])
+  })
+
+  test("should stream arguments as they arrive, holding back trailing text", () => {
+    const streamState = newStreamState()
+    const events = [
+      toolCallChunk({
+        id: "call_0",
+        name: "get_weather",
+        args: '{"location": ',
+      }),
+      toolCallChunk({ args: '"Paris"} oops' }),
+      chunk({}, "tool_calls"),
+    ].flatMap((c) => translateChunkToAnthropicEvents(c, streamState))
+
+    expect(events.slice(2)).toEqual([
+      inputJsonDelta('{"location": '),
+      inputJsonDelta('"Paris"}'),
+      { type: "content_block_stop", index: 0 },
+    ])
+  })
+
+  test("should close streamed arguments cut off part way", () => {
+    const streamState = newStreamState()
+    const events = [
+      toolCallChunk({
+        id: "call_0",
+        name: "get_weather",
+        args: '{"days": [1, ',
+      }),
+      toolCallChunk({ args: '{"city": "Par' }),
+      chunk({}, "length"),
+    ].flatMap((c) => translateChunkToAnthropicEvents(c, streamState))
+
+    const json = events
+      .map((e) =>
+        (
+          e.type === "content_block_delta"
+          && e.delta.type === "input_json_delta"
+        ) ?
+          e.delta.partial_json
+        : "",
+      )
+      .join("")
+    expect(JSON.parse(json)).toEqual({ days: [1, { city: "Par" }] })
+    // The trailing comma was held back until the next value arrived
+    expect(events[2]).toEqual(inputJsonDelta('{"days": [1'))
+  })
+
+  test("should repair held arguments that don't start as an object", () => {
+    const streamState = newStreamState()
+    const events = [
+      toolCallChunk({ id: "call_0", name: "get_weather", args: "```json\n" }),
+      toolCallChunk({ args: '{"location": "Paris"}\n```' }),
+      chunk({}, "tool_calls"),
+    ].flatMap((c) => translateChunkToAnthropicEvents(c, streamState))
+
+    expect(events.slice(2)).toEqual([
+      inputJsonDelta('{"location":"Paris"}'),
+      { type: "content_block_stop", index: 0 },
+    ])
+  })
+
+  test("should mark streamed arguments that go wrong on the one tool call", () => {
+    const streamState = newStreamState()
+    const events = [
+      toolCallChunk({
+        id: "call_0",
+        name: "get_weather",
+        args: '{"location": "Boston", ',
+      }),
+      toolCallChunk({ args: '"days": tru, "units": "C"}' }),
+      toolCallChunk({
+        index: 1,
+        id: "call_1",
+        name: "get_weather",
+        args: '{"location": "Paris"}',
+      }),
+      chunk({}, "tool_calls"),
+    ].flatMap((c) => translateChunkToAnthropicEvents(c, streamState))
+
+    expect(events.map((e) => e.type)).not.toContain("error")
+    expect(streamedInputs(events)).toEqual([
+      {
+        location: "Boston",
+        ...invalidArguments(
+          '{"location": "Boston", "days": tru, "units": "C"}',
+        ),
+      },
+      { location: "Paris" },
+    ])
+    expect(streamState.pendingMessageDelta?.delta.stop_reason).toBe("tool_use")
+  })
+
+  test("should mark held arguments that can't be repaired on the one tool call", () => {
+    const streamState = newStreamState()
+    const events = [
+      toolCallChunk({ id: "call_0", name: "get_weather", args: "nonsense" }),
+      toolCallChunk({
+        index: 1,
+        id: "call_1",
+        name: "get_weather",
+        args: '{"location": "Paris"}',
+      }),
+      chunk({}, "tool_calls"),
+    ].flatMap((c) => translateChunkToAnthropicEvents(c, streamState))
+
+    expect(streamedInputs(events)).toEqual([
+      invalidArguments("nonsense"),
+      { location: "Paris" },
+    ])
+  })
+})
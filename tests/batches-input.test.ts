@@ -0,0 +1,45 @@
+import { describe, test, expect } from "bun:test"
+
+import { parseBatchInput } from "~/routes/batches/runner"
+
+const requestLine = (customId: string, url = "/v1/chat/completions") =>
+  JSON.stringify({
+    custom_id: customId,
+    method: "POST",
+    url,
+    body: { model: "gpt-4.1", messages: [{ role: "user", content: "Hi" }] },
+  })
+
+describe("parseBatchInput", () => {
+  test("parses every request line and skips blank lines", () => {
+    const content = `${requestLine("a")}\n\n${requestLine("b")}\n`
+    const { requests, errors } = parseBatchInput(
+      content,
+      "/v1/chat/completions",
+    )
+
+    expect(errors).toEqual([])
+    expect(requests.map((request) => request.custom_id)).toEqual(["a", "b"])
+  })
+
+  test("reports invalid lines with 1-based line numbers", () => {
+    const content = [
+      requestLine("a"),
+      "{not json",
+      requestLine("a"),
+      requestLine("c", "/v1/embeddings"),
+    ].join("\n")
+    const { errors } = parseBatchInput(content, "/v1/chat/completions")
+
+    expect(errors.map((error) => [error.code, error.line])).toEqual([
+      ["invalid_json_line", 2],
+      ["duplicate_custom_id", 3],
+      ["mismatched_endpoint", 4],
+    ])
+  })
+
+  test("rejects an empty file", () => {
+    const { errors } = parseBatchInput("\n", "/v1/embeddings")
+    expect(errors[0]?.code).toBe("empty_file")
+  })
+})
@@ -0,0 +1,301 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import type { Batch, BatchResponseLine } from "~/routes/batches/batches-types"
+import type { ChatCompletionResponse } from "~/services/copilot/create-chat-completions"
+
+import { createFile, listFiles } from "~/lib/file-store"
+import { toJsonl } from "~/lib/json-files"
+import { PATHS } from "~/lib/paths"
+import { state } from "~/lib/state"
+import { sleep } from "~/lib/utils"
+import { getBatch, initBatches, stopBatches } from "~/routes/batches/runner"
+import { server } from "~/server"
+
+state.copilotToken = "test-token"
+state.vsCodeVersion = "1.0.0"
+
+const originalFetch = globalThis.fetch
+const originalFilesDir = PATHS.FILES_DIR
+const originalBatchesDir = PATHS.BATCHES_DIR
+
+const completion: ChatCompletionResponse = {
+  id: "chatcmpl-batch",
+  object: "chat.completion",
+  created: 1677652288,
+  model: "gpt-4o",
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content: "Hi" },
+      logprobs: null,
+      finish_reason: "stop",
+    },
+  ],
+}
+
+// Requests whose message says "fail" get a 400 from upstream; all calls
+// wait for `gate` before answering
+const mockUpstream = (gate?: Promise<unknown>) => {
+  const fetchMock = mock(async (_url: string, init: RequestInit) => {
+    await gate
+    return (init.body as string).includes("fail") ?
+        Response.json({ error: { message: "Bad request" } }, { status: 400 })
+      : Response.json(completion)
+  })
+  globalThis.fetch = fetchMock as unknown as typeof fetch
+  return fetchMock
+}
+
+const requestLine = (customId: string) => ({
+  custom_id: customId,
+  method: "POST",
+  url: "/v1/chat/completions",
+  body: {
+    model: "gpt-4o",
+    messages: [{ role: "user", content: customId }],
+  },
+})
+
+const inputFile = (...customIds: Array<string>) =>
+  createFile({
+    filename: "input.jsonl",
+    purpose: "batch",
+    content: toJsonl(customIds.map((customId) => requestLine(customId))),
+  })
+
+const createBatch = async (...customIds: Array<string>) => {
+  const input = await inputFile(...customIds)
+  const response = await server.request("/v1/batches", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      input_file_id: input.id,
+      endpoint: "/v1/chat/completions",
+      completion_window: "24h",
+    }),
+  })
+  expect(response.status).toBe(200)
+  return (await response.json()) as Batch
+}
+
+const readFileLines = async (id: string | null) => {
+  const response = await server.request(`/v1/files/${id}/content`)
+  return (await response.text())
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as BatchResponseLine)
+}
+
+const listBatches = async (query: string) => {
+  const response = await server.request(`/v1/batches?${query}`)
+  const body = (await response.json()) as {
+    data: Array<Batch>
+    has_more: boolean
+  }
+  return { ids: body.data.map((batch) => batch.id), hasMore: body.has_more }
+}
+
+const ENDED = new Set(["completed", "failed", "expired", "cancelled"])
+
+const waitUntilEnded = async (id: string) => {
+  while (!ENDED.has(getBatch(id)?.status ?? "")) await sleep(5)
+  return getBatch(id) as Batch
+}
+
+const logLine = (customId: string, statusCode: number): BatchResponseLine => ({
+  id: `batch_req_${customId}`,
+  custom_id: customId,
+  response: { status_code: statusCode, request_id: "req", body: {} },
+  error: null,
+})
+
+// A batch as the daemon left it on disk before a restart
+const persistBatch = async (
+  batch: Partial<Batch>,
+  logs: { output?: Array<string>; errors?: Array<string> },
+) => {
+  const input = await inputFile("a", "b", "c")
+  const now = Math.floor(Date.now() / 1000)
+  const persisted: Batch = {
+    id: "batch_resumed",
+    object: "batch",
+    endpoint: "/v1/chat/completions",
+    errors: null,
+    input_file_id: input.id,
+    completion_window: "24h",
+    status: "in_progress",
+    output_file_id: null,
+    error_file_id: null,
+    created_at: now,
+    in_progress_at: now,
+    expires_at: now + 60,
+    finalizing_at: null,
+    completed_at: null,
+    failed_at: null,
+    expired_at: null,
+    cancelling_at: null,
+    cancelled_at: null,
+    // Never updated before the stop
+    request_counts: { total: 3, completed: 0, failed: 0 },
+    metadata: null,
+    ...batch,
+  }
+  const dir = path.join(PATHS.BATCHES_DIR, persisted.id)
+  await fs.mkdir(dir, { recursive: true })
+  await fs.writeFile(path.join(dir, "batch.json"), JSON.stringify(persisted))
+  await fs.writeFile(
+    path.join(dir, "output.jsonl"),
+    toJsonl((logs.output ?? []).map((customId) => logLine(customId, 200))),
+  )
+  await fs.writeFile(
+    path.join(dir, "errors.jsonl"),
+    toJsonl((logs.errors ?? []).map((customId) => logLine(customId, 400))),
+  )
+  return persisted
+}
+
+beforeEach(async () => {
+  PATHS.FILES_DIR = await fs.mkdtemp(path.join(os.tmpdir(), "files-"))
+  PATHS.BATCHES_DIR = await fs.mkdtemp(path.join(os.tmpdir(), "batches-"))
+  await initBatches()
+})
+
+afterEach(async () => {
+  stopBatches()
+  globalThis.fetch = originalFetch
+  state.batchConcurrency = 4
+  const dirs = [PATHS.FILES_DIR, PATHS.BATCHES_DIR]
+  PATHS.FILES_DIR = originalFilesDir
+  PATHS.BATCHES_DIR = originalBatchesDir
+  for (const dir of dirs) await fs.rm(dir, { recursive: true, force: true })
+})
+
+describe("Batches", () => {
+  test("writes successful and failed requests to the output and error files", async () => {
+    mockUpstream()
+
+    const created = await createBatch("a", "fail")
+    const ended = await waitUntilEnded(created.id)
+    const retrieved = await server.request(`/v1/batches/${created.id}`)
+    const output = await readFileLines(ended.output_file_id)
+    const errors = await readFileLines(ended.error_file_id)
+
+    expect(created.status).toBe("validating")
+    expect(await retrieved.json()).toMatchObject({ status: "completed" })
+    expect(ended.request_counts).toEqual({ total: 2, completed: 1, failed: 1 })
+    expect(output).toMatchObject([
+      { custom_id: "a", response: { status_code: 200, body: completion } },
+    ])
+    expect(errors).toMatchObject([
+      { custom_id: "fail", response: { status_code: 400 } },
+    ])
+  })
+
+  test("fails batches whose input does not validate", async () => {
+    const input = await createFile({
+      filename: "input.jsonl",
+      purpose: "batch",
+      content: "{not json\n",
+    })
+    const response = await server.request("/v1/batches", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        input_file_id: input.id,
+        endpoint: "/v1/chat/completions",
+        completion_window: "24h",
+      }),
+    })
+    const { id } = (await response.json()) as Batch
+    const ended = await waitUntilEnded(id)
+
+    expect(ended.status).toBe("failed")
+    expect(ended.errors?.data).toEqual([
+      { code: "invalid_json_line", message: "Invalid JSON", line: 1 },
+    ])
+  })
+
+  test("pages through batches with after and limit", async () => {
+    mockUpstream()
+    const ids: Array<string> = []
+    for (const customId of ["a", "b", "c"]) {
+      ids.push((await createBatch(customId)).id)
+    }
+    await Promise.all(ids.map((id) => waitUntilEnded(id)))
+
+    const first = await listBatches("limit=2")
+    const rest = await listBatches(`limit=2&after=${first.ids.at(-1)}`)
+
+    expect(first.hasMore).toBe(true)
+    expect(rest.ids).toHaveLength(1)
+    expect(rest.hasMore).toBe(false)
+    expect([...first.ids, ...rest.ids].sort()).toEqual(ids.sort())
+  })
+
+  test("cancels the requests that have not started yet", async () => {
+    state.batchConcurrency = 1
+    const gate = Promise.withResolvers()
+    const fetchMock = mockUpstream(gate.promise)
+
+    const created = await createBatch("a", "b", "c")
+    while (fetchMock.mock.calls.length === 0) await sleep(5)
+    const response = await server.request(`/v1/batches/${created.id}/cancel`, {
+      method: "POST",
+    })
+    const cancelling = (await response.json()) as Batch
+    gate.resolve()
+    const ended = await waitUntilEnded(created.id)
+
+    expect(cancelling.status).toBe("cancelling")
+    expect(ended.status).toBe("cancelled")
+    expect(ended.request_counts).toEqual({ total: 3, completed: 1, failed: 0 })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(await readFileLines(ended.output_file_id)).toHaveLength(1)
+  })
+
+  test("resumes an in-progress batch after the requests already logged", async () => {
+    const fetchMock = mockUpstream()
+    const persisted = await persistBatch({}, { output: ["a"], errors: ["b"] })
+
+    await initBatches()
+    const ended = await waitUntilEnded(persisted.id)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(ended.status).toBe("completed")
+    expect(ended.request_counts).toEqual({ total: 3, completed: 2, failed: 1 })
+    expect(
+      (await readFileLines(ended.output_file_id)).map((line) => line.custom_id),
+    ).toEqual(["a", "c"])
+  })
+
+  test("resumes a finalizing batch without storing its files twice", async () => {
+    const fetchMock = mockUpstream()
+    const output = await createFile({
+      filename: "batch_resumed_output.jsonl",
+      purpose: "batch_output",
+      content: "stored before the restart\n",
+    })
+    // Stopped after storing the output file but before the error file
+    const persisted = await persistBatch(
+      { status: "finalizing", output_file_id: output.id },
+      { output: ["a", "b"], errors: ["c"] },
+    )
+
+    await initBatches()
+    const ended = await waitUntilEnded(persisted.id)
+    const stored = (await listFiles()).filter(
+      (file) => file.purpose === "batch_output",
+    )
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(ended.status).toBe("completed")
+    expect(ended.output_file_id).toBe(output.id)
+    expect(ended.request_counts).toEqual({ total: 3, completed: 2, failed: 1 })
+    expect(stored.map((file) => file.id).sort()).toEqual(
+      [output.id, ended.error_file_id ?? ""].sort(),
+    )
+  })
+})
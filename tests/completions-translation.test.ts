@@ -0,0 +1,102 @@
+import { describe, test, expect } from "bun:test"
+
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+} from "~/services/copilot/create-chat-completions"
+
+import {
+  translateChunkToCompletion,
+  translateToCompletion,
+  translateToOpenAI,
+} from "~/routes/completions/translation"
+
+const chatResponse = (content: string): ChatCompletionResponse => ({
+  id: "chatcmpl-1",
+  object: "chat.completion",
+  created: 1677652288,
+  model: "gpt-4.1",
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content },
+      finish_reason: "stop",
+      logprobs: null,
+    },
+  ],
+  usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+})
+
+describe("Text completions translation", () => {
+  test("should wrap prompts with a suffix in a fill-in-the-middle template", () => {
+    const openAIPayload = translateToOpenAI(
+      {
+        model: "gpt-4.1",
+        prompt: "def add(a, b):\n",
+        suffix: "\nprint(add(1, 2))",
+        max_tokens: 32,
+        stop: ["\n\n"],
+      },
+      "def add(a, b):\n",
+    )
+
+    expect(openAIPayload.messages).toHaveLength(2)
+    expect(openAIPayload.messages[1].content).toBe(
+      "<|fim_prefix|>def add(a, b):\n<|fim_suffix|>\nprint(add(1, 2))<|fim_middle|>",
+    )
+    expect(openAIPayload.max_tokens).toBe(32)
+    expect(openAIPayload.stop).toEqual(["\n\n"])
+  })
+
+  test("should pass plain prompts through as a continuation", () => {
+    const openAIPayload = translateToOpenAI(
+      { model: "gpt-4.1", prompt: "Once upon a time" },
+      "Once upon a time",
+    )
+
+    expect(openAIPayload.messages[1].content).toBe("Once upon a time")
+  })
+
+  test("should combine responses for multiple prompts with echo", () => {
+    const completion = translateToCompletion(
+      [chatResponse(" world"), chatResponse(" there")],
+      { model: "gpt-4.1", prompt: ["Hello", "Hi"], echo: true },
+    )
+
+    expect(completion.object).toBe("text_completion")
+    expect(completion.id).toBe("cmpl-1")
+    expect(completion.choices.map((choice) => choice.text)).toEqual([
+      "Hello world",
+      "Hi there",
+    ])
+    expect(completion.choices.map((choice) => choice.index)).toEqual([0, 1])
+    expect(completion.usage?.total_tokens).toBe(14)
+  })
+
+  test("should translate stream chunks into text_completion chunks", () => {
+    const chunk: ChatCompletionChunk = {
+      id: "chatcmpl-2",
+      object: "chat.completion.chunk",
+      created: 1677652288,
+      model: "gpt-4.1",
+      choices: [
+        {
+          index: 0,
+          delta: { content: "return a + b" },
+          finish_reason: null,
+          logprobs: null,
+        },
+      ],
+    }
+
+    const completionChunk = translateChunkToCompletion(chunk, 2)
+
+    expect(completionChunk.object).toBe("text_completion")
+    expect(completionChunk.choices[0]).toEqual({
+      text: "return a + b",
+      index: 2,
+      logprobs: null,
+      finish_reason: null,
+    })
+  })
+})
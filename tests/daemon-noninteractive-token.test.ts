@@ -37,6 +37,10 @@ test("runServer rejects when non-interactive and no GitHub token provided", asyn
       manual: false,
       rateLimit: undefined,
       rateLimitWait: false,
+      batchConcurrency: 4,
+      structuredOutputRetries: 2,
+      embeddingsCacheSize: 0,
+      responseCacheTtl: 0,
       githubToken: undefined,
       claudeCode: false,
       showToken: false,
@@ -0,0 +1,264 @@
+import { afterEach, describe, expect, mock, test } from "bun:test"
+import { encode } from "gpt-tokenizer/encoding/cl100k_base"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import type { EmbeddingRequest } from "~/services/copilot/create-embeddings"
+import type { Model } from "~/services/copilot/get-models"
+
+import {
+  cacheEmbeddings,
+  embeddingsCacheKey,
+  getCachedEmbeddings,
+  getEmbeddingsCacheStats,
+  initEmbeddingsCache,
+} from "~/lib/embeddings-cache"
+import { HTTPError } from "~/lib/error"
+import { PATHS } from "~/lib/paths"
+import { state } from "~/lib/state"
+import {
+  createEmbeddings,
+  encodeEmbeddings,
+} from "~/services/copilot/create-embeddings"
+
+state.copilotToken = "test-token"
+state.vsCodeVersion = "1.0.0"
+
+const originalFetch = globalThis.fetch
+
+const embeddingModel = {
+  id: "text-embedding-3-small",
+  capabilities: {
+    tokenizer: "cl100k_base",
+    limits: { max_inputs: 2 },
+    supports: { dimensions: false },
+  },
+} as Model
+
+// Embeds each input as [its length], reporting one token per character
+const mockUpstream = () => {
+  const fetchMock = mock((_url: string, init: RequestInit) => {
+    const body = JSON.parse(init.body as string) as EmbeddingRequest
+    const inputs = typeof body.input === "string" ? [body.input] : body.input
+    const lengths = (inputs as Array<string>).map((input) => input.length)
+    return Promise.resolve(
+      Response.json({
+        object: "list",
+        model: body.model,
+        data: lengths.map((length, index) => ({
+          object: "embedding",
+          embedding: [length],
+          index,
+        })),
+        usage: {
+          prompt_tokens: lengths.reduce((a, b) => a + b, 0),
+          total_tokens: lengths.reduce((a, b) => a + b, 0),
+        },
+      }),
+    )
+  })
+  globalThis.fetch = fetchMock as unknown as typeof fetch
+  return fetchMock
+}
+
+const sentBody = (call: [string, RequestInit]) =>
+  JSON.parse(call[1].body as string) as EmbeddingRequest
+
+describe("Embeddings", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    state.models = undefined
+  })
+
+  test("splits inputs over max_inputs and reassembles them in order", async () => {
+    state.models = { object: "list", data: [embeddingModel] }
+    const fetchMock = mockUpstream()
+
+    const response = await createEmbeddings({
+      model: "text-embedding-3-small",
+      input: ["a", "bb", "ccc", "dddd", "eeeee"],
+    })
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(sentBody(fetchMock.mock.calls[2]).input).toEqual(["eeeee"])
+    expect(response.data).toEqual(
+      [1, 2, 3, 4, 5].map((length, index) => ({
+        object: "embedding",
+        embedding: [length],
+        index,
+      })),
+    )
+    expect(response.usage).toEqual({ prompt_tokens: 15, total_tokens: 15 })
+  })
+
+  test("decodes token array inputs with the model's tokenizer", async () => {
+    state.models = { object: "list", data: [embeddingModel] }
+    const fetchMock = mockUpstream()
+
+    await createEmbeddings({
+      model: "text-embedding-3-small",
+      input: [encode("hello world"), encode("plain")],
+    })
+
+    expect(sentBody(fetchMock.mock.calls[0]).input).toEqual([
+      "hello world",
+      "plain",
+    ])
+  })
+
+  test("rejects dimensions for models that do not support them", async () => {
+    state.models = { object: "list", data: [embeddingModel] }
+    const fetchMock = mockUpstream()
+
+    const error = await createEmbeddings({
+      model: "text-embedding-3-small",
+      input: "hi",
+      dimensions: 256,
+    }).catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(HTTPError)
+    expect((error as HTTPError).response.status).toBe(400)
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+
+  test("encodes embeddings as base64 float32 when asked", () => {
+    const response = encodeEmbeddings(
+      {
+        object: "list",
+        model: "text-embedding-3-small",
+        data: [{ object: "embedding", embedding: [1, -0.5], index: 0 }],
+        usage: { prompt_tokens: 1, total_tokens: 1 },
+      },
+      "base64",
+    )
+
+    const encoded = response.data[0].embedding as string
+    const bytes = Buffer.from(encoded, "base64")
+    expect([
+      ...new Float32Array(bytes.buffer, bytes.byteOffset, bytes.length / 4),
+    ]).toEqual([1, -0.5])
+  })
+})
+
+describe("Embeddings cache", () => {
+  const originalCacheDir = PATHS.EMBEDDINGS_CACHE_DIR
+
+  const useCache = async (maxBytes: number) => {
+    PATHS.EMBEDDINGS_CACHE_DIR = await fs.mkdtemp(
+      path.join(os.tmpdir(), "embeddings-cache-"),
+    )
+    state.embeddingsCacheBytes = maxBytes
+    await initEmbeddingsCache()
+  }
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch
+    state.models = undefined
+    const cacheDir = PATHS.EMBEDDINGS_CACHE_DIR
+    PATHS.EMBEDDINGS_CACHE_DIR = originalCacheDir
+    state.embeddingsCacheBytes = 0
+    await fs.rm(cacheDir, { recursive: true, force: true })
+    await initEmbeddingsCache()
+  })
+
+  test("only sends cache misses upstream and merges results in order", async () => {
+    await useCache(1024 * 1024)
+    const fetchMock = mockUpstream()
+    const before = getEmbeddingsCacheStats()
+
+    await createEmbeddings({ model: "m", input: ["a", "bb"] })
+    const response = await createEmbeddings({
+      model: "m",
+      input: ["bb", "ccc", "a"],
+    })
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(sentBody(fetchMock.mock.calls[1]).input).toEqual(["ccc"])
+    expect(response.data.map((item) => item.embedding)).toEqual([[2], [3], [1]])
+    expect(response.usage.prompt_tokens).toBe(3)
+
+    const after = getEmbeddingsCacheStats()
+    expect(after.hits - before.hits).toBe(2)
+    expect(after.misses - before.misses).toBe(3)
+    expect(after.entries).toBe(3)
+  })
+
+  test("keys entries by model and survives a restart", async () => {
+    await useCache(1024 * 1024)
+    const fetchMock = mockUpstream()
+
+    await createEmbeddings({ model: "m", input: "a" })
+    await initEmbeddingsCache()
+    await createEmbeddings({ model: "m", input: "a" })
+    await createEmbeddings({ model: "other", input: "a" })
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(sentBody(fetchMock.mock.calls[1]).model).toBe("other")
+  })
+
+  test("evicts the least recently used entries over the size cap", async () => {
+    // Each vector is a single float64, so the cap holds two entries
+    await useCache(16)
+    const fetchMock = mockUpstream()
+
+    await createEmbeddings({ model: "m", input: ["a", "bb"] })
+    await createEmbeddings({ model: "m", input: "a" })
+    await createEmbeddings({ model: "m", input: "ccc" })
+    await createEmbeddings({ model: "m", input: ["a", "bb"] })
+
+    expect(getEmbeddingsCacheStats()).toMatchObject({ entries: 2, bytes: 16 })
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(sentBody(fetchMock.mock.calls[2]).input).toEqual(["bb"])
+  })
+
+  test("rejects upstream responses missing embeddings with a 502", async () => {
+    await useCache(1024 * 1024)
+    globalThis.fetch = mock(() =>
+      Promise.resolve(
+        Response.json({
+          object: "list",
+          model: "m",
+          data: [{ object: "embedding", embedding: [1], index: 0 }],
+          usage: { prompt_tokens: 1, total_tokens: 1 },
+        }),
+      ),
+    ) as unknown as typeof fetch
+
+    const error = await createEmbeddings({ model: "m", input: ["a", "bb"] })
+      .then(() => undefined)
+      .catch((caught: unknown) => caught as HTTPError)
+
+    expect(error).toBeInstanceOf(HTTPError)
+    expect(error?.response.status).toBe(502)
+    expect(await error?.response.text()).toContain(
+      "Copilot returned 1 embeddings for 2 inputs",
+    )
+    expect(getEmbeddingsCacheStats().entries).toBe(0)
+  })
+
+  test("returns cached vectors exactly as they were received", async () => {
+    await useCache(1024 * 1024)
+    const key = embeddingsCacheKey("m", undefined, "a")
+
+    await cacheEmbeddings([{ key, embedding: [0.1, -1 / 3] }])
+    const [cached] = await getCachedEmbeddings([key])
+
+    expect(cached).toEqual([0.1, -1 / 3])
+  })
+
+  test("tolerates concurrent writes of the same entry", async () => {
+    await useCache(1024 * 1024)
+    const key = embeddingsCacheKey("m", undefined, "a")
+
+    await Promise.all([
+      cacheEmbeddings([{ key, embedding: [1] }]),
+      cacheEmbeddings([{ key, embedding: [1] }]),
+    ])
+
+    expect(getEmbeddingsCacheStats()).toMatchObject({ entries: 1, bytes: 8 })
+    expect(await getCachedEmbeddings([key])).toEqual([[1]])
+    const shard = path.join(PATHS.EMBEDDINGS_CACHE_DIR, key.slice(0, 2))
+    expect(await fs.readdir(shard)).toEqual([key])
+  })
+})
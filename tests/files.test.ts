@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import type { FileObject } from "~/lib/file-store"
+
+import { PATHS } from "~/lib/paths"
+import { server } from "~/server"
+
+const originalFilesDir = PATHS.FILES_DIR
+
+const uploadFile = async (
+  filename: string,
+  content: string,
+  purpose = "batch",
+) => {
+  const body = new FormData()
+  body.append("purpose", purpose)
+  body.append("file", new File([content], filename))
+  const response = await server.request("/v1/files", { method: "POST", body })
+  expect(response.status).toBe(200)
+  return (await response.json()) as FileObject
+}
+
+const listFiles = async (query: string) => {
+  const response = await server.request(`/v1/files?${query}`)
+  const body = (await response.json()) as {
+    data: Array<FileObject>
+    has_more: boolean
+  }
+  return { ids: body.data.map((file) => file.id), hasMore: body.has_more }
+}
+
+beforeEach(async () => {
+  PATHS.FILES_DIR = await fs.mkdtemp(path.join(os.tmpdir(), "files-"))
+})
+
+afterEach(async () => {
+  const filesDir = PATHS.FILES_DIR
+  PATHS.FILES_DIR = originalFilesDir
+  await fs.rm(filesDir, { recursive: true, force: true })
+})
+
+describe("Files", () => {
+  test("stores an upload and serves its object and content", async () => {
+    const uploaded = await uploadFile("input.jsonl", "line one\n")
+    const object = await server.request(`/v1/files/${uploaded.id}`)
+    const content = await server.request(`/v1/files/${uploaded.id}/content`)
+
+    expect(uploaded).toMatchObject({
+      object: "file",
+      bytes: 9,
+      filename: "input.jsonl",
+      purpose: "batch",
+    })
+    expect(await object.json()).toEqual(uploaded)
+    expect(await content.text()).toBe("line one\n")
+  })
+
+  test("rejects uploads without a purpose", async () => {
+    const body = new FormData()
+    body.append("file", new File(["x"], "input.jsonl"))
+    const response = await server.request("/v1/files", { method: "POST", body })
+
+    expect(response.status).toBe(400)
+  })
+
+  test("lists files by purpose and pages with after and limit", async () => {
+    const ids: Array<string> = []
+    for (const name of ["a", "b", "c"]) {
+      ids.push((await uploadFile(`${name}.jsonl`, name)).id)
+    }
+    await uploadFile("d.txt", "d", "assistants")
+
+    const first = await listFiles("purpose=batch&limit=2")
+    const rest = await listFiles(
+      `purpose=batch&limit=2&after=${first.ids.at(-1)}`,
+    )
+
+    expect(first.hasMore).toBe(true)
+    expect(rest.ids).toHaveLength(1)
+    expect(rest.hasMore).toBe(false)
+    expect([...first.ids, ...rest.ids].sort()).toEqual(ids.sort())
+  })
+
+  test("deletes files", async () => {
+    const uploaded = await uploadFile("input.jsonl", "x")
+
+    const deleted = await server.request(`/v1/files/${uploaded.id}`, {
+      method: "DELETE",
+    })
+    const after = await server.request(`/v1/files/${uploaded.id}/content`)
+    const again = await server.request(`/v1/files/${uploaded.id}`, {
+      method: "DELETE",
+    })
+
+    expect(await deleted.json()).toEqual({
+      id: uploaded.id,
+      object: "file",
+      deleted: true,
+    })
+    expect(after.status).toBe(404)
+    expect(again.status).toBe(404)
+  })
+
+  test("answers 404 for ids outside the store's format", async () => {
+    const response = await server.request("/v1/files/..%2Fconfig.json")
+
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,275 @@
+import { afterEach, describe, test, expect, mock } from "bun:test"
+
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+} from "~/services/copilot/create-chat-completions"
+
+import { state } from "~/lib/state"
+import {
+  translateToGemini,
+  translateToOpenAI,
+} from "~/routes/gemini/non-stream-translation"
+import { translateChunkToGemini } from "~/routes/gemini/stream-translation"
+import { server } from "~/server"
+
+const toolChunk = (
+  delta: ChatCompletionChunk["choices"][number]["delta"],
+  finishReason: ChatCompletionChunk["choices"][number]["finish_reason"] = null,
+): ChatCompletionChunk => ({
+  id: "chatcmpl-1",
+  object: "chat.completion.chunk",
+  created: 1677652288,
+  model: "gpt-4.1",
+  choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }],
+})
+
+describe("Gemini to OpenAI translation", () => {
+  test("translates system instruction, generation config and tools", () => {
+    const payload = translateToOpenAI(
+      {
+        systemInstruction: { parts: [{ text: "Be brief." }] },
+        contents: [{ role: "user", parts: [{ text: "Weather?" }] }],
+        generationConfig: {
+          temperature: 0.2,
+          maxOutputTokens: 100,
+          stopSequences: ["END"],
+          responseMimeType: "application/json",
+        },
+        tools: [
+          {
+            functionDeclarations: [
+              {
+                name: "get_weather",
+                parameters: {
+                  type: "OBJECT",
+                  properties: { city: { type: "STRING" } },
+                },
+              },
+            ],
+          },
+        ],
+        toolConfig: { functionCallingConfig: { mode: "ANY" } },
+      },
+      "gpt-4.1",
+    )
+
+    expect(payload.model).toBe("gpt-4.1")
+    expect(payload.messages).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Weather?" },
+    ])
+    expect(payload.temperature).toBe(0.2)
+    expect(payload.max_tokens).toBe(100)
+    expect(payload.stop).toEqual(["END"])
+    expect(payload.response_format).toEqual({ type: "json_object" })
+    expect(payload.tool_choice).toBe("required")
+    expect(payload.tools?.[0].function.parameters).toEqual({
+      type: "object",
+      properties: { city: { type: "string" } },
+    })
+  })
+
+  test("pairs function responses with earlier function calls", () => {
+    const payload = translateToOpenAI(
+      {
+        contents: [
+          { role: "user", parts: [{ text: "Weather in Paris?" }] },
+          {
+            role: "model",
+            parts: [
+              {
+                functionCall: { name: "get_weather", args: { city: "Paris" } },
+              },
+            ],
+          },
+          {
+            role: "user",
+            parts: [
+              {
+                functionResponse: {
+                  name: "get_weather",
+                  response: { temperature: 21 },
+                },
+              },
+            ],
+          },
+        ],
+      },
+      "gpt-4.1",
+    )
+
+    const assistant = payload.messages[1]
+    const toolCallId = assistant.tool_calls?.[0].id
+    expect(assistant.tool_calls?.[0].function).toEqual({
+      name: "get_weather",
+      arguments: '{"city":"Paris"}',
+    })
+    expect(payload.messages[2]).toEqual({
+      role: "tool",
+      tool_call_id: toolCallId as string,
+      content: '{"temperature":21}',
+    })
+  })
+
+  test("translates inline images to data URLs", () => {
+    const payload = translateToOpenAI(
+      {
+        contents: [
+          {
+            role: "user",
+            parts: [
+              { text: "What is this?" },
+              { inlineData: { mimeType: "image/png", data: "AAAA" } },
+            ],
+          },
+        ],
+      },
+      "gpt-4.1",
+    )
+
+    expect(payload.messages[0].content).toEqual([
+      { type: "text", text: "What is this?" },
+      { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+    ])
+  })
+})
+
+describe("OpenAI to Gemini translation", () => {
+  test("translates a response with text, tool calls and usage", () => {
+    const response: ChatCompletionResponse = {
+      id: "chatcmpl-1",
+      object: "chat.completion",
+      created: 1677652288,
+      model: "gpt-4.1",
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: "Checking.",
+            tool_calls: [
+              {
+                id: "call_1",
+                type: "function",
+                function: {
+                  name: "get_weather",
+                  arguments: '{"city":"Paris"}',
+                },
+              },
+            ],
+          },
+          logprobs: null,
+          finish_reason: "tool_calls",
+        },
+      ],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    }
+
+    const gemini = translateToGemini(response)
+
+    expect(gemini.candidates[0]).toEqual({
+      content: {
+        role: "model",
+        parts: [
+          { text: "Checking." },
+          {
+            functionCall: {
+              id: "call_1",
+              name: "get_weather",
+              args: { city: "Paris" },
+            },
+          },
+        ],
+      },
+      finishReason: "STOP",
+      index: 0,
+    })
+    expect(gemini.usageMetadata).toEqual({
+      promptTokenCount: 10,
+      candidatesTokenCount: 5,
+      totalTokenCount: 15,
+    })
+  })
+
+  test("streams tool calls as a single functionCall part on finish", () => {
+    const streamState = { toolCalls: {} }
+
+    const events = [
+      toolChunk({
+        tool_calls: [
+          {
+            index: 0,
+            id: "call_1",
+            type: "function",
+            function: { name: "get_weather", arguments: '{"ci' },
+          },
+        ],
+      }),
+      toolChunk({
+        tool_calls: [{ index: 0, function: { arguments: 'ty":"Paris"}' } }],
+      }),
+      toolChunk({}, "tool_calls"),
+    ].flatMap((chunk) => translateChunkToGemini(chunk, streamState))
+
+    expect(events).toHaveLength(1)
+    expect(events[0].candidates[0].content.parts).toEqual([
+      {
+        functionCall: {
+          id: "call_1",
+          name: "get_weather",
+          args: { city: "Paris" },
+        },
+      },
+    ])
+    expect(events[0].candidates[0].finishReason).toBe("STOP")
+  })
+})
+
+describe("Gemini streaming", () => {
+  const originalFetch = globalThis.fetch
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+  })
+
+  test("asks Copilot for usage and reports it in usageMetadata", async () => {
+    state.copilotToken = "test-token"
+    state.vsCodeVersion = "1.0.0"
+    const chunks = [
+      toolChunk({ content: "Hi" }, "stop"),
+      {
+        ...toolChunk({}),
+        choices: [],
+        usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+      },
+    ]
+    const fetchMock = mock((_url: string, _init: RequestInit) =>
+      Promise.resolve(
+        new Response(
+          chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("")
+            + "data: [DONE]\n\n",
+        ),
+      ),
+    )
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+
+    const response = await server.request(
+      "/v1beta/models/gpt-4.1:streamGenerateContent?alt=sse",
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          contents: [{ role: "user", parts: [{ text: "Hi" }] }],
+        }),
+      },
+    )
+    const text = await response.text()
+
+    const sent = JSON.parse(fetchMock.mock.calls[0][1].body as string) as {
+      stream_options?: { include_usage?: boolean }
+    }
+    expect(sent.stream_options).toEqual({ include_usage: true })
+    expect(text).toContain('"promptTokenCount":5')
+  })
+})
@@ -11,6 +11,10 @@ test("runServer rejects when --manual is used in non-interactive/daemon mode", a
       manual: true,
       rateLimit: undefined,
       rateLimitWait: false,
+      batchConcurrency: 4,
+      structuredOutputRetries: 2,
+      embeddingsCacheSize: 0,
+      responseCacheTtl: 0,
       githubToken: "test",
       claudeCode: false,
       showToken: false,
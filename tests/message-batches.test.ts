@@ -0,0 +1,272 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import type {
+  MessageBatch,
+  MessageBatchIndividualResponse,
+} from "~/routes/messages/batch-types"
+import type { ChatCompletionResponse } from "~/services/copilot/create-chat-completions"
+
+import { toJsonl } from "~/lib/json-files"
+import { PATHS } from "~/lib/paths"
+import { state } from "~/lib/state"
+import { sleep } from "~/lib/utils"
+import {
+  getMessageBatch,
+  initMessageBatches,
+  stopMessageBatches,
+} from "~/routes/messages/batch-runner"
+import { server } from "~/server"
+
+state.copilotToken = "test-token"
+state.vsCodeVersion = "1.0.0"
+
+const originalFetch = globalThis.fetch
+const originalBatchesDir = PATHS.MESSAGE_BATCHES_DIR
+
+const completion: ChatCompletionResponse = {
+  id: "chatcmpl-batch",
+  object: "chat.completion",
+  created: 1677652288,
+  model: "gpt-4o",
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content: "Hi" },
+      logprobs: null,
+      finish_reason: "stop",
+    },
+  ],
+  usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+}
+
+// Upstream calls wait for `gate` before answering
+const mockUpstream = (gate?: Promise<unknown>) => {
+  const fetchMock = mock(async (_url: string, _init: RequestInit) => {
+    await gate
+    return Response.json(completion)
+  })
+  globalThis.fetch = fetchMock as unknown as typeof fetch
+  return fetchMock
+}
+
+const batchRequest = (customId: string) => ({
+  custom_id: customId,
+  params: {
+    model: "gpt-4o",
+    max_tokens: 100,
+    messages: [{ role: "user", content: "Hello" }],
+  },
+})
+
+const createBatch = async (...customIds: Array<string>) => {
+  const response = await server.request("/v1/messages/batches", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      requests: customIds.map((customId) => batchRequest(customId)),
+    }),
+  })
+  expect(response.status).toBe(200)
+  return (await response.json()) as MessageBatch
+}
+
+const getBatch = async (id: string) =>
+  (await (
+    await server.request(`/v1/messages/batches/${id}`)
+  ).json()) as MessageBatch
+
+const readResults = async (id: string) => {
+  const response = await server.request(`/v1/messages/batches/${id}/results`)
+  expect(response.status).toBe(200)
+  return (await response.text())
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as MessageBatchIndividualResponse)
+}
+
+const listBatches = async (query: string) => {
+  const response = await server.request(`/v1/messages/batches?${query}`)
+  const body = (await response.json()) as {
+    data: Array<MessageBatch>
+    has_more: boolean
+  }
+  return { ids: body.data.map((batch) => batch.id), hasMore: body.has_more }
+}
+
+const waitUntilEnded = async (id: string) => {
+  while (getMessageBatch(id)?.processing_status !== "ended") await sleep(5)
+}
+
+beforeEach(async () => {
+  PATHS.MESSAGE_BATCHES_DIR = await fs.mkdtemp(
+    path.join(os.tmpdir(), "message-batches-"),
+  )
+  await initMessageBatches()
+})
+
+afterEach(async () => {
+  stopMessageBatches()
+  globalThis.fetch = originalFetch
+  state.batchConcurrency = 4
+  const batchesDir = PATHS.MESSAGE_BATCHES_DIR
+  PATHS.MESSAGE_BATCHES_DIR = originalBatchesDir
+  await fs.rm(batchesDir, { recursive: true, force: true })
+})
+
+describe("Message batches", () => {
+  test("runs every request and serves the results once the batch has ended", async () => {
+    const gate = Promise.withResolvers()
+    const fetchMock = mockUpstream(gate.promise)
+
+    const created = await createBatch("a", "b")
+    const early = await server.request(
+      `/v1/messages/batches/${created.id}/results`,
+    )
+    const inProgress = await getBatch(created.id)
+    gate.resolve()
+    await waitUntilEnded(created.id)
+    const ended = await getBatch(created.id)
+    const results = await readResults(created.id)
+
+    expect(created.processing_status).toBe("in_progress")
+    expect(created.request_counts.processing).toBe(2)
+    expect(early.status).toBe(400)
+    expect(await early.text()).toContain(
+      "results are available once it has ended",
+    )
+    expect(inProgress.results_url).toBeNull()
+    expect(ended.request_counts).toMatchObject({ processing: 0, succeeded: 2 })
+    expect(ended.results_url).toEndWith(
+      `/v1/messages/batches/${created.id}/results`,
+    )
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(results.map((line) => line.custom_id).sort()).toEqual(["a", "b"])
+    expect(results.map((line) => line.result.type)).toEqual([
+      "succeeded",
+      "succeeded",
+    ])
+  })
+
+  test("answers 404 for unknown batches", async () => {
+    const response = await server.request("/v1/messages/batches/msgbatch_nope")
+
+    expect(response.status).toBe(404)
+  })
+
+  test("pages through batches newest first", async () => {
+    mockUpstream()
+    const ids: Array<string> = []
+    for (const customId of ["a", "b", "c"]) {
+      ids.push((await createBatch(customId)).id)
+      // Batches are ordered by their millisecond creation time
+      await sleep(5)
+    }
+    await Promise.all(ids.map((id) => waitUntilEnded(id)))
+    const [oldest, middle, newest] = ids
+
+    expect(await listBatches("limit=2")).toEqual({
+      ids: [newest, middle],
+      hasMore: true,
+    })
+    expect(await listBatches(`after_id=${middle}`)).toEqual({
+      ids: [oldest],
+      hasMore: false,
+    })
+    expect(await listBatches(`before_id=${oldest}&limit=1`)).toEqual({
+      ids: [middle],
+      hasMore: true,
+    })
+  })
+
+  test("cancels the requests that have not started yet", async () => {
+    state.batchConcurrency = 1
+    const gate = Promise.withResolvers()
+    const fetchMock = mockUpstream(gate.promise)
+
+    const created = await createBatch("a", "b", "c")
+    while (fetchMock.mock.calls.length === 0) await sleep(5)
+    const response = await server.request(
+      `/v1/messages/batches/${created.id}/cancel`,
+      { method: "POST" },
+    )
+    const canceling = (await response.json()) as MessageBatch
+    gate.resolve()
+    await waitUntilEnded(created.id)
+    const ended = await getBatch(created.id)
+
+    expect(canceling.processing_status).toBe("canceling")
+    expect(canceling.cancel_initiated_at).not.toBeNull()
+    expect(ended.request_counts).toMatchObject({
+      processing: 0,
+      succeeded: 1,
+      canceled: 2,
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(
+      (await readResults(created.id)).map((line) => line.result.type),
+    ).toEqual(["succeeded", "canceled", "canceled"])
+  })
+
+  test("resumes a persisted batch where its results file left off", async () => {
+    const fetchMock = mockUpstream()
+    const id = "msgbatch_resumed"
+    const dir = path.join(PATHS.MESSAGE_BATCHES_DIR, id)
+    const createdAt = new Date()
+    // Written before the daemon stopped: one result landed, but the counts
+    // on disk were never updated
+    const persisted: MessageBatch = {
+      id,
+      type: "message_batch",
+      processing_status: "in_progress",
+      request_counts: {
+        processing: 3,
+        succeeded: 0,
+        errored: 0,
+        canceled: 0,
+        expired: 0,
+      },
+      created_at: createdAt.toISOString(),
+      expires_at: new Date(createdAt.getTime() + 60_000).toISOString(),
+      ended_at: null,
+      archived_at: null,
+      cancel_initiated_at: null,
+      results_url: null,
+    }
+    const written: MessageBatchIndividualResponse = {
+      custom_id: "a",
+      result: {
+        type: "errored",
+        error: { type: "error", error: { type: "api_error", message: "Boom" } },
+      },
+    }
+    await fs.mkdir(dir)
+    await fs.writeFile(path.join(dir, "batch.json"), JSON.stringify(persisted))
+    await fs.writeFile(
+      path.join(dir, "requests.jsonl"),
+      toJsonl(["a", "b", "c"].map((customId) => batchRequest(customId))),
+    )
+    await fs.writeFile(path.join(dir, "results.jsonl"), toJsonl([written]))
+
+    await initMessageBatches()
+    await waitUntilEnded(id)
+    const ended = await getBatch(id)
+    const results = await readResults(id)
+
+    expect(ended.request_counts).toMatchObject({
+      processing: 0,
+      succeeded: 2,
+      errored: 1,
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(results[0]).toEqual(written)
+    expect(
+      results
+        .slice(1)
+        .map((line) => line.custom_id)
+        .sort(),
+    ).toEqual(["b", "c"])
+  })
+})
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, mock, test } from "bun:test"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import type { ChatCompletionsPayload } from "~/services/copilot/create-chat-completions"
+
+import { loadConfig } from "~/lib/config"
+import { resolveModel } from "~/lib/model-aliases"
+import { state } from "~/lib/state"
+import { server } from "~/server"
+
+state.copilotToken = "test-token"
+state.vsCodeVersion = "1.0.0"
+
+const originalFetch = globalThis.fetch
+
+let configDir: string | undefined
+
+const writeConfig = async (config: unknown) => {
+  configDir = await fs.mkdtemp(path.join(os.tmpdir(), "proxy-config-"))
+  state.configPath = path.join(configDir, "config.json")
+  await fs.writeFile(state.configPath, JSON.stringify(config))
+}
+
+// Back to the built-in rules only
+afterEach(async () => {
+  globalThis.fetch = originalFetch
+  const dir = configDir
+  configDir = undefined
+  state.configPath = path.join(os.tmpdir(), "missing-proxy-config.json")
+  await loadConfig()
+  if (dir) await fs.rm(dir, { recursive: true, force: true })
+})
+
+describe("Model aliases", () => {
+  test("maps dated Claude IDs to their family by default", () => {
+    expect(resolveModel("claude-sonnet-4-20250514")).toBe("claude-sonnet-4")
+    expect(resolveModel("claude-opus-4-20250514")).toBe("claude-opus-4")
+    expect(resolveModel("gpt-4o")).toBe("gpt-4o")
+  })
+
+  test("applies the first matching configured rule", async () => {
+    await writeConfig({
+      model_aliases: [
+        { match: "fast", target: "gpt-4o-mini" },
+        { match: "claude-sonnet-4-5-*", target: "claude-sonnet-4.5" },
+        {
+          match: String.raw`^o(\d)-preview$`,
+          target: "o$1",
+          type: "regex",
+        },
+        { match: "gpt-*-latest", target: "gpt-$1" },
+      ],
+    })
+    await loadConfig()
+
+    expect(resolveModel("fast")).toBe("gpt-4o-mini")
+    expect(resolveModel("claude-sonnet-4-5-20250929")).toBe("claude-sonnet-4.5")
+    expect(resolveModel("claude-sonnet-4-20250514")).toBe("claude-sonnet-4")
+    expect(resolveModel("o3-preview")).toBe("o3")
+    expect(resolveModel("gpt-4.1-latest")).toBe("gpt-4.1")
+    expect(resolveModel("fast-mode")).toBe("fast-mode")
+  })
+
+  test("keeps the current rules when the config is invalid", async () => {
+    await writeConfig({ model_aliases: [{ match: "fast", target: "gpt-4o" }] })
+    await loadConfig()
+    await fs.writeFile(
+      state.configPath as string,
+      JSON.stringify({
+        model_aliases: [{ match: "(", target: "x", type: "regex" }],
+      }),
+    )
+
+    const error = await loadConfig().catch((error: unknown) => error)
+
+    expect((error as Error).message).toStartWith("Model alias 0: invalid regex")
+    expect(resolveModel("fast")).toBe("gpt-4o")
+  })
+
+  test("reloads the config and reports the resolved model", async () => {
+    const fetchMock = mock((_url: string, _init: RequestInit) =>
+      Promise.resolve(
+        Response.json({ id: "1", object: "chat.completion", choices: [] }),
+      ),
+    )
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+    await writeConfig({ model_aliases: [{ match: "fast", target: "gpt-4o" }] })
+
+    const reload = await server.request("/admin/reload-config", {
+      method: "POST",
+      headers: { host: "localhost:4141" },
+    })
+    const response = await server.request("/v1/chat/completions", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        model: "fast",
+        messages: [{ role: "user", content: "Hi" }],
+      }),
+    })
+
+    expect(await reload.json()).toEqual({
+      message: "Config reloaded",
+      model_aliases: 1,
+      model_fallbacks: 0,
+    })
+    expect(response.headers.get("x-proxy-resolved-model")).toBe("gpt-4o")
+    const sent = JSON.parse(
+      fetchMock.mock.calls[0][1].body as string,
+    ) as ChatCompletionsPayload
+    expect(sent.model).toBe("gpt-4o")
+  })
+
+  test("only reloads for local requests", async () => {
+    const response = await server.request("/admin/reload-config", {
+      method: "POST",
+      headers: { host: "example.com" },
+    })
+
+    expect(response.status).toBe(403)
+  })
+})
@@ -0,0 +1,222 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test"
+
+import type {
+  ChatCompletionResponse,
+  ChatCompletionsPayload,
+} from "~/services/copilot/create-chat-completions"
+
+import { HTTPError } from "~/lib/error"
+import { compileModelFallbacks, setModelFallbacks } from "~/lib/model-fallbacks"
+import { compileRetryPolicy, setRetryPolicy } from "~/lib/retry"
+import { state } from "~/lib/state"
+import { server } from "~/server"
+import { createChatCompletions } from "~/services/copilot/create-chat-completions"
+
+state.copilotToken = "test-token"
+state.vsCodeVersion = "1.0.0"
+
+const originalFetch = globalThis.fetch
+
+const completion = (model: string): ChatCompletionResponse => ({
+  id: "chatcmpl-1",
+  object: "chat.completion",
+  created: 0,
+  model,
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content: "Hi" },
+      logprobs: null,
+      finish_reason: "stop",
+    },
+  ],
+})
+
+const payload: ChatCompletionsPayload = {
+  model: "claude-sonnet-4",
+  messages: [{ role: "user", content: "Hello" }],
+}
+
+// Answers each upstream call with the next response in turn
+const mockUpstream = (...responses: Array<Response>) => {
+  const fetchMock = mock((_url: string, _init: RequestInit) =>
+    Promise.resolve(responses.shift() ?? new Response(null, { status: 500 })),
+  )
+  globalThis.fetch = fetchMock as unknown as typeof fetch
+  return fetchMock
+}
+
+const sentModels = (fetchMock: ReturnType<typeof mockUpstream>) =>
+  fetchMock.mock.calls.map(
+    ([, init]) =>
+      (JSON.parse(init.body as string) as ChatCompletionsPayload).model,
+  )
+
+const errorResponse = (status: number, code?: string) =>
+  Response.json({ error: { message: "failed", code } }, { status })
+
+describe("Model fallbacks", () => {
+  beforeEach(() => {
+    // Fall back straight away rather than retrying the same model first
+    setRetryPolicy(compileRetryPolicy({ max_attempts: 1 }))
+    setModelFallbacks(
+      compileModelFallbacks({
+        chains: { "claude-sonnet-4": ["gpt-4.1", "gpt-4o"] },
+      }),
+    )
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    state.structuredOutputRetries = 2
+    setModelFallbacks(compileModelFallbacks(undefined))
+    setRetryPolicy(compileRetryPolicy(undefined))
+  })
+
+  test("moves down the chain on rate limits and outages", async () => {
+    const fetchMock = mockUpstream(
+      errorResponse(429),
+      errorResponse(503),
+      Response.json(completion("gpt-4o")),
+    )
+    const onFallback = mock((_model: string) => {})
+
+    const response = await createChatCompletions(payload, { onFallback })
+
+    expect(sentModels(fetchMock)).toEqual([
+      "claude-sonnet-4",
+      "gpt-4.1",
+      "gpt-4o",
+    ])
+    expect(onFallback.mock.calls).toEqual([["gpt-4.1"], ["gpt-4o"]])
+    expect((response as ChatCompletionResponse).model).toBe("gpt-4o")
+  })
+
+  test("releases each failed response before trying the next model", async () => {
+    const failed = errorResponse(503)
+    mockUpstream(failed, Response.json(completion("gpt-4.1")))
+    const cancel = spyOn(ReadableStream.prototype, "cancel")
+
+    await createChatCompletions(payload)
+
+    expect(cancel).toHaveBeenCalledTimes(1)
+    cancel.mockRestore()
+  })
+
+  test("reports the fallback model on every chat route", async () => {
+    // The structured output below never validates, and isn't retried
+    state.structuredOutputRetries = 0
+    const cases = [
+      {
+        path: "/v1/chat/completions",
+        body: {
+          ...payload,
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "answer", schema: {} },
+          },
+        },
+      },
+      {
+        path: "/v1/responses",
+        body: { model: "claude-sonnet-4", input: "Hi" },
+      },
+      {
+        path: "/v1/completions",
+        body: { model: "claude-sonnet-4", prompt: "Hi" },
+      },
+      {
+        path: "/api/chat",
+        body: {
+          model: "claude-sonnet-4",
+          messages: [{ role: "user", content: "Hi" }],
+          stream: false,
+        },
+      },
+      {
+        path: "/v1beta/models/claude-sonnet-4:generateContent",
+        body: { contents: [{ role: "user", parts: [{ text: "Hi" }] }] },
+      },
+    ]
+
+    for (const { path, body } of cases) {
+      mockUpstream(errorResponse(503), Response.json(completion("gpt-4.1")))
+      const response = await server.request(path, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      })
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get("x-proxy-resolved-model")).toBe("gpt-4.1")
+    }
+  })
+
+  test("falls back on configured error codes", async () => {
+    const fetchMock = mockUpstream(
+      errorResponse(400, "model_not_supported"),
+      Response.json(completion("gpt-4.1")),
+    )
+
+    await createChatCompletions(payload)
+
+    expect(sentModels(fetchMock)).toEqual(["claude-sonnet-4", "gpt-4.1"])
+  })
+
+  test("fails without falling back on other errors", async () => {
+    const fetchMock = mockUpstream(errorResponse(400, "invalid_request"))
+
+    const error = await createChatCompletions(payload).catch(
+      (error: unknown) => error,
+    )
+
+    expect(error).toBeInstanceOf(HTTPError)
+    expect((error as HTTPError).response.status).toBe(400)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  test("forwards the last model's error once the chain runs out", async () => {
+    mockUpstream(errorResponse(429), errorResponse(503), errorResponse(502))
+
+    const error = await createChatCompletions(payload).catch(
+      (error: unknown) => error,
+    )
+
+    expect((error as HTTPError).response.status).toBe(502)
+  })
+
+  test("reports the fallback model and streams from it", async () => {
+    mockUpstream(
+      errorResponse(503),
+      new Response(
+        `data: ${JSON.stringify({ model: "gpt-4.1", choices: [] })}\n\ndata: [DONE]\n\n`,
+      ),
+    )
+
+    const response = await server.request("/v1/chat/completions", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ ...payload, stream: true }),
+    })
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get("x-proxy-resolved-model")).toBe("gpt-4.1")
+    expect(await response.text()).toContain('"model":"gpt-4.1"')
+  })
+
+  test("rejects malformed chains", () => {
+    expect(() =>
+      compileModelFallbacks({
+        chains: { "gpt-4o": "gpt-4.1" as unknown as Array<string> },
+      }),
+    ).toThrow("model_fallbacks.chains.gpt-4o must be an array of model IDs")
+  })
+})
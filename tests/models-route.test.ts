@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, test, expect } from "bun:test"
+
+import type { Model } from "~/services/copilot/get-models"
+
+import { state } from "~/lib/state"
+import { server } from "~/server"
+
+const catalogModel = (id: string): Model => ({
+  id,
+  name: id.toUpperCase(),
+  object: "model",
+  vendor: "test",
+  version: id,
+  preview: false,
+  model_picker_enabled: true,
+  capabilities: {
+    family: id,
+    object: "model_capabilities",
+    tokenizer: "o200k_base",
+    type: "chat",
+    limits: { max_context_window_tokens: 128000, max_output_tokens: 16384 },
+    supports: { tool_calls: true, parallel_tool_calls: true, vision: false },
+  },
+})
+
+const anthropicHeaders = { "anthropic-version": "2023-06-01" }
+
+let previousModels: typeof state.models
+
+beforeAll(() => {
+  previousModels = state.models
+  state.models = {
+    object: "list",
+    data: ["model-a", "model-b", "model-c"].map((id) => catalogModel(id)),
+  }
+})
+
+afterAll(() => {
+  state.models = previousModels
+})
+
+describe("models routes", () => {
+  test("lists models in OpenAI format with capabilities", async () => {
+    const response = await server.request("/v1/models")
+    const body = (await response.json()) as {
+      object: string
+      data: Array<Record<string, unknown>>
+    }
+
+    expect(body.object).toBe("list")
+    expect(body.data).toHaveLength(3)
+    expect(body.data[0]).toMatchObject({
+      id: "model-a",
+      object: "model",
+      context_window: 128000,
+      max_output_tokens: 16384,
+      capabilities: {
+        tool_calls: true,
+        parallel_tool_calls: true,
+        vision: false,
+      },
+    })
+  })
+
+  test("paginates Anthropic-format listings", async () => {
+    const response = await server.request(
+      "/v1/models?limit=1&after_id=model-a",
+      { headers: anthropicHeaders },
+    )
+
+    expect(await response.json()).toMatchObject({
+      data: [{ type: "model", id: "model-b", display_name: "MODEL-B" }],
+      has_more: true,
+      first_id: "model-b",
+      last_id: "model-b",
+    })
+  })
+
+  test("retrieves a single model and 404s on unknown ids", async () => {
+    const found = await server.request("/v1/models/model-c")
+    expect(((await found.json()) as { id: string }).id).toBe("model-c")
+
+    const missing = await server.request("/v1/models/nope", {
+      headers: anthropicHeaders,
+    })
+    expect(missing.status).toBe(404)
+    expect(await missing.json()).toMatchObject({
+      type: "error",
+      error: { type: "not_found_error" },
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, test, expect } from "bun:test"
+
+import type { ChatCompletionChunk } from "~/services/copilot/create-chat-completions"
+
+import {
+  translateChatToOpenAI,
+  translateChunkToOllamaDelta,
+  translateGenerateToOpenAI,
+} from "~/routes/ollama/translation"
+
+const chunk = (
+  delta: ChatCompletionChunk["choices"][number]["delta"],
+  finishReason: ChatCompletionChunk["choices"][number]["finish_reason"] = null,
+): ChatCompletionChunk => ({
+  id: "chatcmpl-1",
+  object: "chat.completion.chunk",
+  created: 1677652288,
+  model: "gpt-4.1",
+  choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }],
+})
+
+describe("Ollama to OpenAI translation", () => {
+  test("translates chat messages, options and the model tag", () => {
+    const payload = translateChatToOpenAI({
+      model: "gpt-4.1:latest",
+      messages: [
+        { role: "user", content: "What is this?", images: ["/9j/AAAA"] },
+      ],
+      options: { temperature: 0.1, num_predict: -1, stop: ["\n"] },
+      format: "json",
+    })
+
+    expect(payload.model).toBe("gpt-4.1")
+    expect(payload.stream).toBe(true)
+    expect(payload.temperature).toBe(0.1)
+    expect(payload.max_tokens).toBeUndefined()
+    expect(payload.stop).toEqual(["\n"])
+    expect(payload.response_format).toEqual({ type: "json_object" })
+    expect(payload.messages[0].content).toEqual([
+      { type: "text", text: "What is this?" },
+      {
+        type: "image_url",
+        image_url: { url: "data:image/jpeg;base64,/9j/AAAA" },
+      },
+    ])
+  })
+
+  test("assigns tool call ids and matches tool results by name", () => {
+    const payload = translateChatToOpenAI({
+      model: "gpt-4.1",
+      stream: false,
+      messages: [
+        { role: "user", content: "Weather in Paris and time in Rome?" },
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [
+            { function: { name: "get_weather", arguments: { city: "Paris" } } },
+            { function: { name: "get_time", arguments: { city: "Rome" } } },
+          ],
+        },
+        { role: "tool", content: "10:00", tool_name: "get_time" },
+        { role: "tool", content: "21C", tool_name: "get_weather" },
+      ],
+    })
+
+    const toolCalls = payload.messages[1].tool_calls ?? []
+    expect(toolCalls.map((call) => call.function.arguments)).toEqual([
+      '{"city":"Paris"}',
+      '{"city":"Rome"}',
+    ])
+    expect(payload.messages[2].tool_call_id).toBe(toolCalls[1].id)
+    expect(payload.messages[3].tool_call_id).toBe(toolCalls[0].id)
+  })
+
+  test("uses the fill-in-the-middle template for generate with a suffix", () => {
+    const payload = translateGenerateToOpenAI({
+      model: "gpt-4.1",
+      prompt: "def add(a, b):",
+      suffix: "\n\nprint(add(1, 2))",
+    })
+
+    expect(payload.messages[1].content).toBe(
+      "<|fim_prefix|>def add(a, b):<|fim_suffix|>\n\nprint(add(1, 2))<|fim_middle|>",
+    )
+  })
+})
+
+describe("OpenAI to Ollama stream translation", () => {
+  test("emits text deltas and whole tool calls on finish", () => {
+    const streamState = { toolCalls: {} }
+
+    expect(
+      translateChunkToOllamaDelta(chunk({ content: "Hi" }), streamState),
+    ).toEqual({ content: "Hi" })
+    expect(
+      translateChunkToOllamaDelta(
+        chunk({
+          tool_calls: [
+            {
+              index: 0,
+              id: "call_1",
+              type: "function",
+              function: { name: "get_weather", arguments: '{"city":' },
+            },
+          ],
+        }),
+        streamState,
+      ),
+    ).toBeUndefined()
+    expect(
+      translateChunkToOllamaDelta(
+        chunk(
+          { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }] },
+          "tool_calls",
+        ),
+        streamState,
+      ),
+    ).toEqual({
+      content: "",
+      toolCalls: [
+        { function: { name: "get_weather", arguments: { city: "Paris" } } },
+      ],
+    })
+  })
+})
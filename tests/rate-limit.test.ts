@@ -0,0 +1,187 @@
+import { afterEach, describe, expect, mock, test } from "bun:test"
+
+import type { ChatCompletionsPayload } from "~/services/copilot/create-chat-completions"
+import type { Model } from "~/services/copilot/get-models"
+
+import { HTTPError } from "~/lib/error"
+import {
+  acquireRateLimit,
+  compileRateLimits,
+  setRateLimits,
+} from "~/lib/rate-limit"
+import { state } from "~/lib/state"
+import { getTokenCount } from "~/lib/tokenizer"
+import { server } from "~/server"
+
+state.copilotToken = "test-token"
+state.vsCodeVersion = "1.0.0"
+
+const originalFetch = globalThis.fetch
+
+const payload: ChatCompletionsPayload = {
+  model: "gpt-4o",
+  messages: [{ role: "user", content: "Hello" }],
+}
+
+const postChat = (headers: Record<string, string> = {}, model = "gpt-4o") =>
+  server.request("/v1/chat/completions", {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify({ ...payload, model }),
+  })
+
+const mockUpstream = () => {
+  const fetchMock = mock((_url: string, _init: RequestInit) =>
+    Promise.resolve(
+      Response.json({ id: "1", object: "chat.completion", choices: [] }),
+    ),
+  )
+  globalThis.fetch = fetchMock as unknown as typeof fetch
+  return fetchMock
+}
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.catch((error: unknown) => error) as Promise<HTTPError>
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+  setRateLimits(compileRateLimits(undefined))
+  state.rateLimitSeconds = undefined
+  state.rateLimitWait = false
+  state.models = undefined
+})
+
+describe("Rate limits", () => {
+  test("rejects once the request bucket is empty, with Retry-After", async () => {
+    mockUpstream()
+    setRateLimits(compileRateLimits([{ requests_per_minute: 60, burst: 2 }]))
+
+    const statuses = [(await postChat()).status, (await postChat()).status]
+    const limited = await postChat()
+
+    expect(statuses).toEqual([200, 200])
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get("retry-after")).toBe("1")
+  })
+
+  test("keeps separate buckets per model and per client", async () => {
+    mockUpstream()
+    setRateLimits(
+      compileRateLimits([
+        { scope: "model", requests_per_minute: 1 },
+        { scope: "client", model: "gpt-4.1", requests_per_minute: 1 },
+      ]),
+    )
+
+    expect((await postChat({}, "gpt-4o")).status).toBe(200)
+    expect((await postChat({}, "gpt-4o")).status).toBe(429)
+    expect((await postChat({ "x-client-id": "a" }, "gpt-4.1")).status).toBe(200)
+    // Each model has had its one request, so the client no longer matters
+    expect((await postChat({ "x-client-id": "b" }, "gpt-4.1")).status).toBe(429)
+  })
+
+  test("limits clients independently", async () => {
+    setRateLimits(
+      compileRateLimits([{ scope: "client", requests_per_minute: 1 }]),
+    )
+
+    await acquireRateLimit({ model: "gpt-4o", client: "a" })
+    await acquireRateLimit({ model: "gpt-4o", client: "b" })
+    const error = await rejection(
+      acquireRateLimit({ model: "gpt-4o", client: "a" }),
+    )
+
+    expect(error).toBeInstanceOf(HTTPError)
+    expect(error.response.status).toBe(429)
+  })
+
+  test("charges estimated tokens against tokens_per_minute", async () => {
+    const model = {
+      id: "gpt-4o",
+      capabilities: { tokenizer: "o200k_base" },
+    } as Model
+    state.models = { object: "list", data: [model] }
+    const cost = await getTokenCount(payload, model)
+    const tokens = cost.input + cost.output
+    // Room for one prompt and most of a second
+    setRateLimits(
+      compileRateLimits([{ tokens_per_minute: Math.floor(tokens * 1.5) }]),
+    )
+
+    await acquireRateLimit({ model: "gpt-4o", client: "a", payload })
+    const error = await rejection(
+      acquireRateLimit({ model: "gpt-4o", client: "a", payload }),
+    )
+
+    expect(error.response.status).toBe(429)
+    expect(Number(error.response.headers.get("retry-after"))).toBeGreaterThan(1)
+  })
+
+  test("caps concurrent requests until they are released", async () => {
+    setRateLimits(compileRateLimits([{ max_concurrent: 1 }]))
+
+    const release = await acquireRateLimit({ model: "gpt-4o", client: "a" })
+    const error = await rejection(
+      acquireRateLimit({ model: "gpt-4o", client: "a" }),
+    )
+    release()
+    release()
+    const next = await acquireRateLimit({ model: "gpt-4o", client: "a" })
+    next()
+
+    expect(error.response.status).toBe(429)
+    expect(error.response.headers.get("retry-after")).toBe("1")
+  })
+
+  test("waits for a slot instead of rejecting when asked to", async () => {
+    setRateLimits(compileRateLimits([{ max_concurrent: 1 }]))
+    const release = await acquireRateLimit({ model: "gpt-4o", client: "a" })
+
+    const waiting = acquireRateLimit(
+      { model: "gpt-4o", client: "a" },
+      { wait: true },
+    )
+    const startedAt = Date.now()
+    setTimeout(release, 20)
+    const next = await waiting
+    next()
+
+    // Woken by the release rather than the one-second retry interval
+    expect(Date.now() - startedAt).toBeLessThan(500)
+  })
+
+  test("holds the concurrency slot until a response has been read", async () => {
+    mockUpstream()
+    setRateLimits(compileRateLimits([{ max_concurrent: 1 }]))
+
+    const first = await postChat()
+    const blocked = await postChat()
+    await first.text()
+    const after = await postChat()
+
+    expect(blocked.status).toBe(429)
+    expect(after.status).toBe(200)
+  })
+
+  test("turns --rate-limit into one request per interval", async () => {
+    state.rateLimitSeconds = 30
+
+    await acquireRateLimit({ model: "gpt-4o", client: "a" })
+    const error = await rejection(
+      acquireRateLimit({ model: "gpt-4.1", client: "b" }),
+    )
+
+    expect(error.response.headers.get("retry-after")).toBe("30")
+  })
+
+  test("rejects malformed limits", () => {
+    expect(() => compileRateLimits([{ requests_per_minute: 0 }])).toThrow(
+      "rate_limits.0.requests_per_minute must be positive",
+    )
+    expect(() =>
+      compileRateLimits([
+        { scope: "team" as unknown as "global", max_concurrent: 1 },
+      ]),
+    ).toThrow("rate_limits.0.scope must be global, model or client")
+  })
+})
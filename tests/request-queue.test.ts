@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, mock, test } from "bun:test"
+
+import type { ChatCompletionsPayload } from "~/services/copilot/create-chat-completions"
+
+import { HTTPError } from "~/lib/error"
+import {
+  compileRequestQueue,
+  enterQueue,
+  runInBackground,
+  setRequestQueue,
+  type Priority,
+} from "~/lib/request-queue"
+import { state } from "~/lib/state"
+import { server } from "~/server"
+
+state.copilotToken = "test-token"
+state.vsCodeVersion = "1.0.0"
+
+const originalFetch = globalThis.fetch
+
+const postChat = (
+  messages: ChatCompletionsPayload["messages"],
+  headers: Record<string, string> = {},
+) =>
+  server.request("/v1/chat/completions", {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify({ model: "gpt-4o", messages }),
+  })
+
+const mockUpstream = () => {
+  globalThis.fetch = mock((_url: string, _init: RequestInit) =>
+    Promise.resolve(
+      Response.json({ id: "1", object: "chat.completion", choices: [] }),
+    ),
+  ) as unknown as typeof fetch
+}
+
+const rejection = (promise: Promise<unknown>) =>
+  promise.catch((error: unknown) => error) as Promise<HTTPError>
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+  setRequestQueue(compileRequestQueue(undefined))
+})
+
+describe("Request queue", () => {
+  test("lets interactive requests go before agent and background ones", async () => {
+    setRequestQueue(compileRequestQueue({ max_concurrent: 1 }))
+    const first = await enterQueue("interactive")
+    const admitted: Array<Priority> = []
+
+    const queued = (["background", "agent", "interactive"] as const).map(
+      async (priority) => {
+        const ticket = await enterQueue(priority)
+        admitted.push(priority)
+        ticket.release()
+        return ticket.position
+      },
+    )
+    first.release()
+
+    // Each arrival jumped ahead of the lower-priority ones already waiting
+    expect(await Promise.all(queued)).toEqual([1, 1, 1])
+    expect(admitted).toEqual(["interactive", "agent", "background"])
+  })
+
+  test("rejects requests once the queue is full", async () => {
+    setRequestQueue(compileRequestQueue({ max_concurrent: 1, max_depth: 1 }))
+    const first = await enterQueue("interactive")
+    const waiting = enterQueue("agent")
+
+    const error = await rejection(enterQueue("interactive"))
+    first.release()
+    ;(await waiting).release()
+
+    expect(error).toBeInstanceOf(HTTPError)
+    expect(error.response.status).toBe(503)
+    expect(error.response.headers.get("retry-after")).toBe("1")
+  })
+
+  test("times out requests that wait too long", async () => {
+    setRequestQueue(compileRequestQueue({ max_concurrent: 1, timeout_ms: 20 }))
+    const first = await enterQueue("interactive")
+
+    const error = await rejection(enterQueue("agent"))
+    const background = enterQueue("background", { wait: true })
+    first.release()
+    ;(await background).release()
+
+    expect(error.message).toBe("Timed out in the request queue")
+  })
+
+  test("counts background jobs like requests while no limit is set", async () => {
+    const started = Promise.withResolvers()
+    const finished = Promise.withResolvers()
+    const job = runInBackground({ model: "gpt-4o", client: "batch" }, () => {
+      started.resolve()
+      return finished.promise
+    })
+    await started.promise
+
+    setRequestQueue(compileRequestQueue({ max_concurrent: 1, timeout_ms: 20 }))
+    // The job started before the limit existed, so it holds no slot
+    const ticket = await enterQueue("interactive")
+    finished.resolve()
+    await job
+    ticket.release()
+
+    expect(ticket.position).toBe(0)
+  })
+
+  test("reports priority, position and wait time in headers", async () => {
+    mockUpstream()
+    setRequestQueue(compileRequestQueue({ max_concurrent: 1 }))
+    const first = await enterQueue("interactive")
+
+    const pending = postChat([
+      { role: "user", content: "Run the tests" },
+      { role: "assistant", content: "Running them" },
+    ])
+    setTimeout(first.release, 20)
+    const response = await pending
+    await response.text()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get("x-proxy-priority")).toBe("agent")
+    expect(response.headers.get("x-proxy-queue-position")).toBe("1")
+    expect(
+      Number(response.headers.get("x-proxy-queue-wait-ms")),
+    ).toBeGreaterThan(0)
+  })
+
+  test("takes the priority from request headers first", async () => {
+    mockUpstream()
+    setRequestQueue(compileRequestQueue({ max_concurrent: 1 }))
+
+    const user = await postChat([{ role: "user", content: "Hi" }])
+    // Reading the body gives the slot back for the next request
+    await user.text()
+    const background = await postChat([{ role: "user", content: "Hi" }], {
+      "x-priority": "background",
+    })
+    await background.text()
+
+    expect(user.headers.get("x-proxy-priority")).toBe("interactive")
+    expect(user.headers.get("x-proxy-queue-position")).toBe("0")
+    expect(background.headers.get("x-proxy-priority")).toBe("background")
+  })
+
+  test("rejects malformed settings", () => {
+    expect(() => compileRequestQueue({ max_depth: -1 })).toThrow(
+      "queue.max_depth must be positive",
+    )
+  })
+})
@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test"
+import fs from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+
+import type {
+  ChatCompletionResponse,
+  ChatCompletionsPayload,
+} from "~/services/copilot/create-chat-completions"
+
+import { PATHS } from "~/lib/paths"
+import { compileRateLimits, setRateLimits } from "~/lib/rate-limit"
+import {
+  compileRequestQueue,
+  enterQueue,
+  setRequestQueue,
+} from "~/lib/request-queue"
+import { responseCacheKey } from "~/lib/response-cache"
+import { state } from "~/lib/state"
+import { server } from "~/server"
+
+state.copilotToken = "test-token"
+state.vsCodeVersion = "1.0.0"
+
+const originalFetch = globalThis.fetch
+const originalCacheDir = PATHS.RESPONSE_CACHE_DIR
+
+const completion: ChatCompletionResponse = {
+  id: "chatcmpl-1",
+  object: "chat.completion",
+  created: 0,
+  model: "gpt-test",
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content: "Hello there" },
+      logprobs: null,
+      finish_reason: "stop",
+    },
+  ],
+  usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+}
+
+const payload: ChatCompletionsPayload = {
+  model: "gpt-test",
+  messages: [{ role: "user", content: "Say hello" }],
+  temperature: 0,
+}
+
+const mockUpstream = () => {
+  const fetchMock = mock((_url: string, _init: RequestInit) =>
+    Promise.resolve(Response.json(completion)),
+  )
+  globalThis.fetch = fetchMock as unknown as typeof fetch
+  return fetchMock
+}
+
+const sentBody = (call: [string, RequestInit]) =>
+  JSON.parse(call[1].body as string) as ChatCompletionsPayload
+
+const post = (
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+) =>
+  server.request(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  })
+
+// Data lines of an SSE body, minus the terminating [DONE]
+const sseData = (text: string) =>
+  text
+    .split("\n")
+    .filter((line) => line.startsWith("data: ") && line !== "data: [DONE]")
+    .map((line) => JSON.parse(line.slice("data: ".length)) as unknown)
+
+describe("Response cache", () => {
+  beforeEach(async () => {
+    PATHS.RESPONSE_CACHE_DIR = await fs.mkdtemp(
+      path.join(os.tmpdir(), "response-cache-"),
+    )
+    state.responseCacheTtlSeconds = 60
+  })
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch
+    const cacheDir = PATHS.RESPONSE_CACHE_DIR
+    PATHS.RESPONSE_CACHE_DIR = originalCacheDir
+    state.responseCacheTtlSeconds = 0
+    setRateLimits(compileRateLimits(undefined))
+    setRequestQueue(compileRequestQueue(undefined))
+    await fs.rm(cacheDir, { recursive: true, force: true })
+  })
+
+  test("keys ignore field order, nulls and delivery options", () => {
+    expect(
+      responseCacheKey({
+        temperature: 0,
+        stream: true,
+        top_p: null,
+        messages: [{ content: "Say hello", role: "user" }],
+        model: "gpt-test",
+      }),
+    ).toBe(responseCacheKey(payload))
+    expect(responseCacheKey({ ...payload, seed: 1 })).not.toBe(
+      responseCacheKey(payload),
+    )
+  })
+
+  test("answers a repeated request from the cache", async () => {
+    const fetchMock = mockUpstream()
+
+    const first = await post("/v1/chat/completions", payload)
+    const second = await post("/v1/chat/completions", payload)
+
+    expect(first.headers.get("x-proxy-cache")).toBe("miss")
+    expect(second.headers.get("x-proxy-cache")).toBe("hit")
+    expect(await second.json()).toEqual(completion)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  test("answers hits without rate limits or a queue slot", async () => {
+    const fetchMock = mockUpstream()
+    await (await post("/v1/chat/completions", payload)).text()
+    setRateLimits(compileRateLimits([{ requests_per_minute: 1 }]))
+    setRequestQueue(compileRequestQueue({ max_concurrent: 1, timeout_ms: 20 }))
+    const busy = await enterQueue("interactive")
+
+    const hits = [
+      await post("/v1/chat/completions", payload),
+      await post("/v1/chat/completions", payload),
+    ]
+    const missed = await post("/v1/chat/completions", { ...payload, seed: 1 })
+    busy.release()
+
+    expect(hits.map((hit) => hit.status)).toEqual([200, 200])
+    expect(await hits[1].json()).toEqual(completion)
+    expect(hits[0].headers.get("x-proxy-queue-position")).toBeNull()
+    // The bucket's one request was still there for the miss, which then
+    // found the queue full
+    expect(missed.status).toBe(503)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  test("replays a cached response as an OpenAI stream", async () => {
+    const fetchMock = mockUpstream()
+    await post("/v1/chat/completions", payload)
+
+    const response = await post("/v1/chat/completions", {
+      ...payload,
+      stream: true,
+      stream_options: { include_usage: true },
+    })
+    const text = await response.text()
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(response.headers.get("x-proxy-cache")).toBe("hit")
+    expect(text.trimEnd().endsWith("data: [DONE]")).toBe(true)
+    expect(sseData(text)).toMatchObject([
+      { choices: [{ delta: { role: "assistant", content: "Hello there" } }] },
+      { choices: [{ delta: {}, finish_reason: "stop" }] },
+      { choices: [], usage: completion.usage },
+    ])
+  })
+
+  test("caches structured output once it has been validated", async () => {
+    const answers = ["Hello", '{"greeting":"Hello"}'].map((content) => ({
+      ...completion,
+      choices: [
+        { ...completion.choices[0], message: { role: "assistant", content } },
+      ],
+    }))
+    const fetchMock = mock((_url: string, _init: RequestInit) =>
+      Promise.resolve(Response.json(answers.shift())),
+    )
+    globalThis.fetch = fetchMock as unknown as typeof fetch
+    const structured = {
+      ...payload,
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: "greeting", schema: { required: ["greeting"] } },
+      },
+    }
+
+    await (await post("/v1/chat/completions", structured)).text()
+    const response = await post("/v1/chat/completions", {
+      ...structured,
+      stream: true,
+    })
+
+    // One retry, then the validated answer came from the cache
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(response.headers.get("x-proxy-cache")).toBe("hit")
+    expect(sseData(await response.text())[0]).toMatchObject({
+      choices: [{ delta: { content: '{"greeting":"Hello"}' } }],
+    })
+  })
+
+  test("replays a cached response as an Anthropic stream", async () => {
+    const fetchMock = mockUpstream()
+    const message = {
+      model: "gpt-test",
+      max_tokens: 100,
+      temperature: 0,
+      messages: [{ role: "user", content: "Say hello" }],
+    }
+    await post("/v1/messages", message)
+
+    const response = await post("/v1/messages", { ...message, stream: true })
+    const events = sseData(await response.text())
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(sentBody(fetchMock.mock.calls[0]).stream).toBe(false)
+    expect(response.headers.get("x-proxy-cache")).toBe("hit")
+    expect(events).toContainEqual({
+      type: "content_block_delta",
+      index: 0,
+      delta: { type: "text_delta", text: "Hello there" },
+    })
+    expect(events.at(-2)).toMatchObject({
+      type: "message_delta",
+      delta: { stop_reason: "end_turn" },
+      usage: { input_tokens: 5, output_tokens: 2 },
+    })
+    expect(events.at(-1)).toEqual({ type: "message_stop" })
+  })
+
+  test("skips the lookup for Cache-Control: no-cache", async () => {
+    const fetchMock = mockUpstream()
+    await post("/v1/chat/completions", payload)
+
+    const response = await post("/v1/chat/completions", payload, {
+      "cache-control": "no-cache",
+    })
+
+    expect(response.headers.get("x-proxy-cache")).toBe("miss")
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  test("leaves non-deterministic requests alone", async () => {
+    const fetchMock = mockUpstream()
+    const sampled = { ...payload, temperature: 0.7 }
+
+    await post("/v1/chat/completions", sampled)
+    const response = await post("/v1/chat/completions", sampled)
+
+    expect(response.headers.get("x-proxy-cache")).toBeNull()
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  test("expires entries after the TTL", async () => {
+    const fetchMock = mockUpstream()
+    state.responseCacheTtlSeconds = 0.001
+    await post("/v1/chat/completions", payload)
+    await Bun.sleep(10)
+
+    const response = await post("/v1/chat/completions", payload)
+
+    expect(response.headers.get("x-proxy-cache")).toBe("miss")
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,240 @@
+import { describe, test, expect } from "bun:test"
+
+import type {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+} from "~/services/copilot/create-chat-completions"
+
+import { type ResponsesPayload } from "~/routes/responses/responses-types"
+import {
+  createResponsesStreamState,
+  finalizeResponsesStream,
+  translateChunkToResponsesEvents,
+} from "~/routes/responses/stream-translation"
+import {
+  createResponseObject,
+  translateOutputToMessages,
+  translateToOpenAI,
+  translateToResponse,
+} from "~/routes/responses/translation"
+
+describe("Responses to OpenAI payload translation", () => {
+  test("should translate string input and instructions", () => {
+    const payload: ResponsesPayload = {
+      model: "gpt-4.1",
+      instructions: "Be brief.",
+      input: "Hello!",
+      max_output_tokens: 100,
+    }
+
+    const openAIPayload = translateToOpenAI(payload, [])
+
+    expect(openAIPayload.messages).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Hello!" },
+    ])
+    expect(openAIPayload.max_tokens).toBe(100)
+  })
+
+  test("should translate function calls, outputs and function tools", () => {
+    const payload: ResponsesPayload = {
+      model: "gpt-4.1",
+      input: [
+        {
+          role: "user",
+          content: [{ type: "input_text", text: "Weather in Paris?" }],
+        },
+        {
+          type: "function_call",
+          call_id: "call_1",
+          name: "get_weather",
+          arguments: '{"city":"Paris"}',
+        },
+        { type: "function_call_output", call_id: "call_1", output: "Sunny" },
+      ],
+      tools: [
+        {
+          type: "function",
+          name: "get_weather",
+          parameters: { type: "object", properties: {} },
+        },
+        { type: "web_search_preview" },
+      ],
+      tool_choice: { type: "function", name: "get_weather" },
+    }
+
+    const openAIPayload = translateToOpenAI(payload, [])
+
+    expect(openAIPayload.messages).toHaveLength(3)
+    expect(openAIPayload.messages[0]).toEqual({
+      role: "user",
+      content: "Weather in Paris?",
+    })
+    expect(openAIPayload.messages[1].tool_calls?.[0].id).toBe("call_1")
+    expect(openAIPayload.messages[2]).toEqual({
+      role: "tool",
+      tool_call_id: "call_1",
+      content: "Sunny",
+    })
+    expect(openAIPayload.tools).toHaveLength(1)
+    expect(openAIPayload.tool_choice).toEqual({
+      type: "function",
+      function: { name: "get_weather" },
+    })
+  })
+
+  test("should place previous response history after instructions", () => {
+    const payload: ResponsesPayload = {
+      model: "gpt-4.1",
+      instructions: "Be brief.",
+      input: "And tomorrow?",
+    }
+
+    const openAIPayload = translateToOpenAI(payload, [
+      { role: "user", content: "Weather today?" },
+      { role: "assistant", content: "Sunny." },
+    ])
+
+    expect(openAIPayload.messages.map((m) => m.content)).toEqual([
+      "Be brief.",
+      "Weather today?",
+      "Sunny.",
+      "And tomorrow?",
+    ])
+  })
+})
+
+describe("OpenAI to Responses translation", () => {
+  test("should translate a non-streaming response with a tool call", () => {
+    const openAIResponse: ChatCompletionResponse = {
+      id: "chatcmpl-1",
+      object: "chat.completion",
+      created: 1677652288,
+      model: "gpt-4.1",
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: "assistant",
+            content: "Checking.",
+            tool_calls: [
+              {
+                id: "call_1",
+                type: "function",
+                function: { name: "get_weather", arguments: "{}" },
+              },
+            ],
+          },
+          finish_reason: "tool_calls",
+          logprobs: null,
+        },
+      ],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    }
+
+    const response = translateToResponse(openAIResponse, {
+      model: "gpt-4.1",
+      input: "hi",
+    })
+
+    expect(response.status).toBe("completed")
+    expect(response.output.map((item) => item.type)).toEqual([
+      "message",
+      "function_call",
+    ])
+    expect(response.usage?.total_tokens).toBe(15)
+
+    const messages = translateOutputToMessages(response.output)
+    expect(messages[0].content).toBe("Checking.")
+    expect(messages[0].tool_calls?.[0].id).toBe("call_1")
+  })
+
+  test("should emit typed stream events ending in response.completed", () => {
+    const chunks: Array<ChatCompletionChunk> = [
+      {
+        id: "cmpl-1",
+        object: "chat.completion.chunk",
+        created: 1677652288,
+        model: "gpt-4.1",
+        choices: [
+          {
+            index: 0,
+            delta: { content: "Hel" },
+            finish_reason: null,
+            logprobs: null,
+          },
+        ],
+      },
+      {
+        id: "cmpl-1",
+        object: "chat.completion.chunk",
+        created: 1677652288,
+        model: "gpt-4.1",
+        choices: [
+          {
+            index: 0,
+            delta: {
+              content: "lo",
+              tool_calls: [
+                {
+                  index: 0,
+                  id: "call_1",
+                  function: { name: "lookup", arguments: '{"q":' },
+                },
+              ],
+            },
+            finish_reason: null,
+            logprobs: null,
+          },
+        ],
+      },
+      {
+        id: "cmpl-1",
+        object: "chat.completion.chunk",
+        created: 1677652288,
+        model: "gpt-4.1",
+        choices: [
+          {
+            index: 0,
+            delta: {
+              tool_calls: [{ index: 0, function: { arguments: "1}" } }],
+            },
+            finish_reason: "tool_calls",
+            logprobs: null,
+          },
+        ],
+      },
+    ]
+
+    const streamState = createResponsesStreamState(
+      createResponseObject({ model: "gpt-4.1", input: "hi" }, "gpt-4.1"),
+    )
+    const events = [
+      ...chunks.flatMap((chunk) =>
+        translateChunkToResponsesEvents(chunk, streamState),
+      ),
+      ...finalizeResponsesStream(streamState),
+    ]
+
+    expect(events[0].type).toBe("response.created")
+    expect(events.at(-1)?.type).toBe("response.completed")
+    expect(events.map((event) => event.sequence_number)).toEqual(
+      events.map((_, index) => index),
+    )
+
+    const textDeltas = events.flatMap((event) =>
+      event.type === "response.output_text.delta" ? [event.delta] : [],
+    )
+    expect(textDeltas.join("")).toBe("Hello")
+
+    const argumentDeltas = events.flatMap((event) =>
+      event.type === "response.function_call_arguments.delta" ?
+        [event.delta]
+      : [],
+    )
+    expect(argumentDeltas.join("")).toBe('{"q":1}')
+
+    expect(streamState.response.status).toBe("completed")
+    expect(streamState.response.output).toHaveLength(2)
+  })
+})
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test"
+
+import { compileRetryPolicy, fetchWithRetry, setRetryPolicy } from "~/lib/retry"
+
+const originalFetch = globalThis.fetch
+
+// Answers each call with the next outcome in turn; errors are thrown
+const mockUpstream = (...outcomes: Array<Response | Error>) => {
+  const fetchMock = mock((_url: string, _init: RequestInit) => {
+    const outcome = outcomes.shift() ?? new Response("ok")
+    return outcome instanceof Error ?
+        Promise.reject(outcome)
+      : Promise.resolve(outcome)
+  })
+  globalThis.fetch = fetchMock as unknown as typeof fetch
+  return fetchMock
+}
+
+const failure = (status: number, headers: Record<string, string> = {}) =>
+  new Response("failed", { status, headers })
+
+const request = (init: RequestInit = {}) =>
+  fetchWithRetry("Test", "https://example.test", init)
+
+describe("Upstream retries", () => {
+  beforeEach(() => {
+    setRetryPolicy(
+      compileRetryPolicy({
+        max_attempts: 3,
+        base_delay_ms: 1,
+        max_delay_ms: 5,
+      }),
+    )
+  })
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    setRetryPolicy(compileRetryPolicy(undefined))
+  })
+
+  test("retries transient failures until one succeeds", async () => {
+    const fetchMock = mockUpstream(
+      failure(503, { "x-request-id": "req-1" }),
+      failure(429, { "retry-after": "0" }),
+      new Response("ok"),
+    )
+
+    const response = await request()
+
+    expect(response.status).toBe(200)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  test("returns the last failure once attempts run out", async () => {
+    const fetchMock = mockUpstream(failure(502), failure(503), failure(504))
+
+    const response = await request()
+
+    expect(response.status).toBe(504)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  test("does not retry failures outside the policy", async () => {
+    const fetchMock = mockUpstream(failure(400))
+
+    expect((await request()).status).toBe(400)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  test("retries network errors", async () => {
+    const fetchMock = mockUpstream(new TypeError("connection reset"))
+
+    expect((await request()).status).toBe(200)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  test("gives up when Retry-After exceeds the budget", async () => {
+    setRetryPolicy(compileRetryPolicy({ budget_ms: 1000 }))
+    const fetchMock = mockUpstream(failure(429, { "retry-after": "5" }))
+
+    expect((await request()).status).toBe(429)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  test("stops waiting when the request is aborted", async () => {
+    setRetryPolicy(compileRetryPolicy({ base_delay_ms: 10_000 }))
+    mockUpstream(failure(429, { "retry-after": "10" }))
+    const controller = new AbortController()
+
+    const pending = request({ signal: controller.signal }).catch(
+      (error: unknown) => error,
+    )
+    controller.abort(new Error("client went away"))
+
+    expect(((await pending) as Error).message).toBe("client went away")
+  })
+
+  test("rejects malformed policies", () => {
+    expect(() => compileRetryPolicy({ max_attempts: -1 })).toThrow(
+      "retry.max_attempts must be a non-negative number",
+    )
+  })
+})
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, mock, test } from "bun:test"
+
+import { state } from "~/lib/state"
+import { sleep } from "~/lib/utils"
+import { server } from "~/server"
+
+state.copilotToken = "test-token"
+state.vsCodeVersion = "1.0.0"
+
+const originalFetch = globalThis.fetch
+
+const chunk = {
+  id: "chatcmpl-1",
+  object: "chat.completion.chunk",
+  created: 1677652288,
+  model: "gpt-4o",
+  choices: [
+    {
+      index: 0,
+      delta: { role: "assistant", content: "Hello" },
+      finish_reason: null,
+      logprobs: null,
+    },
+  ],
+}
+
+// Sends one chunk and then keeps the upstream stream open, so only a
+// cancellation ends it. Returns the signal each upstream call was given.
+const mockOpenUpstream = () => {
+  const signals: Array<AbortSignal | null | undefined> = []
+  globalThis.fetch = mock((_url: string, init: RequestInit) => {
+    signals.push(init.signal)
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(
+          new TextEncoder().encode(`data: ${JSON.stringify(chunk)}\n\n`),
+        )
+      },
+    })
+    return Promise.resolve(new Response(body))
+  }) as unknown as typeof fetch
+  return signals
+}
+
+const messages = [{ role: "user", content: "Hi" }]
+
+const streamingRequests: Array<[string, string, unknown]> = [
+  [
+    "responses",
+    "/v1/responses",
+    { model: "gpt-4o", input: "Hi", stream: true },
+  ],
+  [
+    "completions",
+    "/v1/completions",
+    { model: "gpt-4o", prompt: "Hi", stream: true },
+  ],
+  [
+    "gemini",
+    "/v1beta/models/gpt-4o:streamGenerateContent?alt=sse",
+    { contents: [{ role: "user", parts: [{ text: "Hi" }] }] },
+  ],
+  ["ollama", "/api/chat", { model: "gpt-4o", messages }],
+]
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+})
+
+describe("Client disconnects mid-stream", () => {
+  for (const [name, path, body] of streamingRequests) {
+    test(`cancels the upstream ${name} request`, async () => {
+      const signals = mockOpenUpstream()
+
+      const response = await server.request(path, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const reader = (response.body as ReadableStream<Uint8Array>).getReader()
+      await reader.read()
+      await reader.cancel()
+      await sleep(10)
+
+      expect(signals).toHaveLength(1)
+      expect(signals[0]?.aborted).toBe(true)
+    })
+  }
+})
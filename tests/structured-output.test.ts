@@ -0,0 +1,258 @@
+import { afterEach, describe, expect, mock, test } from "bun:test"
+import { events } from "fetch-event-stream"
+
+import type {
+  ChatCompletionResponse,
+  ChatCompletionsPayload,
+} from "~/services/copilot/create-chat-completions"
+import type { Model } from "~/services/copilot/get-models"
+
+import { HTTPError } from "~/lib/error"
+import { validateJsonSchema } from "~/lib/json-schema"
+import { state } from "~/lib/state"
+import {
+  createStructuredCompletion,
+  prepareStructuredOutput,
+  type StructuredOutput,
+} from "~/routes/chat-completions/structured-output"
+
+state.copilotToken = "test-token"
+state.vsCodeVersion = "1.0.0"
+
+const originalFetch = globalThis.fetch
+
+const personSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    age: { type: "integer", minimum: 0 },
+    tags: { type: "array", items: { $ref: "#/$defs/tag" } },
+  },
+  required: ["name", "age"],
+  additionalProperties: false,
+  $defs: { tag: { enum: ["a", "b"] } },
+}
+
+const output: StructuredOutput = {
+  name: "person",
+  schema: personSchema,
+  strict: false,
+}
+
+const payload: ChatCompletionsPayload = {
+  model: "gpt-test",
+  messages: [{ role: "user", content: "Describe someone" }],
+  response_format: {
+    type: "json_schema",
+    json_schema: { name: "person", schema: personSchema },
+  },
+}
+
+const completion = (content: string): ChatCompletionResponse => ({
+  id: "chatcmpl-1",
+  object: "chat.completion",
+  created: 0,
+  model: "gpt-test",
+  choices: [
+    {
+      index: 0,
+      message: { role: "assistant", content },
+      logprobs: null,
+      finish_reason: "stop",
+    },
+  ],
+})
+
+const streamBody = (...pieces: Array<string>) =>
+  [
+    ...pieces.map(
+      (content) =>
+        `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`,
+    ),
+    "data: [DONE]\n\n",
+  ].join("")
+
+// Answers each upstream call with the next body in turn
+const mockUpstream = (...bodies: Array<string>) => {
+  const fetchMock = mock((_url: string, _init: RequestInit) =>
+    Promise.resolve(new Response(bodies.shift())),
+  )
+  globalThis.fetch = fetchMock as unknown as typeof fetch
+  return fetchMock
+}
+
+const sentMessages = (call: [string, RequestInit]) =>
+  (JSON.parse(call[1].body as string) as ChatCompletionsPayload).messages
+
+const signal = new AbortController().signal
+
+describe("JSON schema validation", () => {
+  test("accepts a matching value", () => {
+    expect(
+      validateJsonSchema({ name: "Ada", age: 36, tags: ["a"] }, personSchema),
+    ).toEqual([])
+  })
+
+  test("reports each problem with its path", () => {
+    expect(
+      validateJsonSchema(
+        { name: "", age: 1.5, tags: ["c"], extra: true },
+        personSchema,
+      ),
+    ).toEqual([
+      "$.name: must be at least 1 characters",
+      "$.age: expected integer, got number",
+      '$.tags[0]: must be one of "a", "b"',
+      "$: unexpected property 'extra'",
+    ])
+  })
+
+  test("supports anyOf and missing required properties", () => {
+    const schema = { anyOf: [{ type: "string" }, { required: ["id"] }] }
+    expect(validateJsonSchema({ id: 1 }, schema)).toEqual([])
+    expect(validateJsonSchema({}, schema)).toEqual([
+      "$: does not match any of the allowed schemas",
+    ])
+  })
+})
+
+describe("Structured outputs", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch
+    state.structuredOutputRetries = 2
+  })
+
+  test("injects the schema and JSON mode for models without native support", () => {
+    const prepared = prepareStructuredOutput(payload, undefined)
+
+    expect(prepared.output).toEqual(output)
+    expect(prepared.payload.response_format).toEqual({ type: "json_object" })
+    expect(prepared.payload.messages[0].role).toBe("system")
+    expect(prepared.payload.messages[0].content).toContain('"person"')
+  })
+
+  test("passes the schema through to models that support it", () => {
+    const model = {
+      capabilities: { supports: { structured_outputs: true } },
+    } as Model
+
+    expect(prepareStructuredOutput(payload, model).payload).toBe(payload)
+  })
+
+  test("retries with the validation errors until the output matches", async () => {
+    const fetchMock = mockUpstream(
+      JSON.stringify(completion('{"name":"Ada"}')),
+      JSON.stringify(completion('{"name":"Ada","age":36}')),
+    )
+
+    const result = await createStructuredCompletion(payload, output, { signal })
+
+    expect(result).toEqual(completion('{"name":"Ada","age":36}'))
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    const retried = sentMessages(fetchMock.mock.calls[1])
+    expect(retried.at(-2)).toEqual({
+      role: "assistant",
+      content: '{"name":"Ada"}',
+    })
+    expect(retried.at(-1)?.content).toContain(
+      "$: missing required property 'age'",
+    )
+  })
+
+  test("repairs fenced output without retrying", async () => {
+    const fetchMock = mockUpstream(
+      JSON.stringify(
+        completion('Here you go:\n```json\n{"name":"Ada","age":36}\n```'),
+      ),
+    )
+
+    const result = await createStructuredCompletion(payload, output, { signal })
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect((result as ChatCompletionResponse).choices[0].message.content).toBe(
+      '{"name":"Ada","age":36}',
+    )
+  })
+
+  test("adds up the usage of every attempt", async () => {
+    const usage = { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 }
+    mockUpstream(
+      JSON.stringify({ ...completion("{}"), usage }),
+      JSON.stringify({ ...completion('{"name":"Ada","age":36}'), usage }),
+    )
+
+    const result = await createStructuredCompletion(payload, output, { signal })
+
+    expect((result as ChatCompletionResponse).usage).toEqual({
+      prompt_tokens: 20,
+      completion_tokens: 8,
+      total_tokens: 28,
+      prompt_tokens_details: undefined,
+    })
+  })
+
+  test("streams output through and validates it once the stream ends", async () => {
+    const body = streamBody('{"name":"Ada",', '"age":36}')
+    const fetchMock = mockUpstream(body)
+
+    const result = await createStructuredCompletion(
+      { ...payload, stream: true },
+      output,
+      { signal },
+    )
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(await Array.fromAsync(result as AsyncIterable<unknown>)).toEqual(
+      await Array.fromAsync(events(new Response(body))),
+    )
+  })
+
+  test("ends a mismatched stream on a strict schema with an error", async () => {
+    const fetchMock = mockUpstream(streamBody('{"name":', '"Ada"}'))
+
+    const result = await createStructuredCompletion(
+      { ...payload, stream: true },
+      { ...output, strict: true },
+      { signal },
+    )
+    const received = await Array.fromAsync(
+      result as AsyncIterable<{ data?: string }>,
+    )
+    const passedThrough = await Array.fromAsync(
+      events(new Response(streamBody('{"name":', '"Ada"}'))),
+    )
+
+    // The output already went out, so it is not retried
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(received.slice(0, 2)).toEqual(passedThrough.slice(0, 2))
+    expect(received.at(2)?.data).toContain("missing required property 'age'")
+    expect(received.at(3)?.data).toBe("[DONE]")
+  })
+
+  test("returns the last attempt once retries run out", async () => {
+    state.structuredOutputRetries = 1
+    const fetchMock = mockUpstream(
+      JSON.stringify(completion("{}")),
+      JSON.stringify(completion('{"name":"Ada"}')),
+    )
+
+    const result = await createStructuredCompletion(payload, output, { signal })
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(result).toEqual(completion('{"name":"Ada"}'))
+  })
+
+  test("fails strict schemas once retries run out", async () => {
+    state.structuredOutputRetries = 0
+    mockUpstream(JSON.stringify(completion("not json")))
+
+    const error = await createStructuredCompletion(
+      payload,
+      { ...output, strict: true },
+      { signal },
+    ).catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(HTTPError)
+    expect((error as HTTPError).response.status).toBe(502)
+  })
+})
@@ -0,0 +1,70 @@
+import type { Context } from "hono"
+
+import { describe, expect, test } from "bun:test"
+
+import {
+  createUpstreamAbort,
+  getCancelledRequests,
+  withUpstreamAbort,
+} from "~/lib/upstream-abort"
+
+const contextFor = (signal: AbortSignal) =>
+  ({
+    req: {
+      raw: new Request("http://localhost/v1/messages", { signal }),
+      method: "POST",
+      path: "/v1/messages",
+    },
+  }) as unknown as Context
+
+describe("Upstream request cancellation", () => {
+  test("aborts the upstream signal when the client disconnects", () => {
+    const client = new AbortController()
+    const before = getCancelledRequests()
+    const upstream = createUpstreamAbort(contextFor(client.signal))
+
+    client.abort()
+
+    expect(upstream.signal.aborted).toBe(true)
+    expect(getCancelledRequests()).toBe(before + 1)
+  })
+
+  test("counts each cancellation once", () => {
+    const client = new AbortController()
+    const before = getCancelledRequests()
+    const upstream = createUpstreamAbort(contextFor(client.signal))
+
+    upstream.cancel()
+    client.abort()
+
+    expect(upstream.signal.aborted).toBe(true)
+    expect(getCancelledRequests()).toBe(before + 1)
+  })
+
+  test("stops the upstream request without counting a cancellation", () => {
+    const client = new AbortController()
+    const before = getCancelledRequests()
+    const upstream = createUpstreamAbort(contextFor(client.signal))
+
+    upstream.stop()
+    client.abort()
+
+    expect(upstream.signal.aborted).toBe(true)
+    expect(getCancelledRequests()).toBe(before)
+  })
+
+  test("ignores disconnects after the exchange finished", async () => {
+    const client = new AbortController()
+    const before = getCancelledRequests()
+    let upstreamSignal: AbortSignal | undefined
+
+    await withUpstreamAbort(contextFor(client.signal), (signal) => {
+      upstreamSignal = signal
+      return Promise.resolve()
+    })
+    client.abort()
+
+    expect(upstreamSignal?.aborted).toBe(false)
+    expect(getCancelledRequests()).toBe(before)
+  })
+})